@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PdfProcessingService } from '@/services/pdfProcessingService'
+import { DocumentsResponse } from '@/types'
+import type { SessionDocument } from '@/services/types'
+
+function toSummary(document: SessionDocument) {
+  return {
+    id: document.id,
+    name: document.name,
+    chunkCount: document.chunkCount,
+    status: document.status,
+    uploadedAt: document.uploadedAt.toISOString(),
+    documentInfo: document.documentInfo,
+    error: document.error
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.nextUrl.searchParams.get('sessionId') || ''
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const documents = await PdfProcessingService.listDocuments(sessionId)
+    const response: DocumentsResponse = {
+      sessionId,
+      documents: (documents || []).map(toSummary)
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Error listing documents:', error)
+    return NextResponse.json(
+      { error: 'Failed to list documents' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { sessionId, documentId } = await request.json()
+
+    if (!sessionId || !documentId) {
+      return NextResponse.json(
+        { error: 'Session ID and document ID are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await PdfProcessingService.removeDocument(sessionId, documentId)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 404 }
+      )
+    }
+
+    const response: DocumentsResponse = {
+      success: true,
+      sessionId,
+      documents: (await PdfProcessingService.listDocuments(sessionId) || []).map(toSummary)
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Error removing document:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove document' },
+      { status: 500 }
+    )
+  }
+}
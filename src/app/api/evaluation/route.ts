@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EvaluationRunner } from '@/services/evaluation/evaluationRunner'
+import { EvaluationDatasets, EvaluationReports, EVALUATION_CONFIG, LLMProviderRegistry } from '@/services'
+import type { EvaluationConfiguration, EvaluationReport } from '@/services'
+import { checkAdmin } from '@/lib/adminAuth'
+import { parseSearchOptions } from '@/lib/searchOptions'
+import { EvaluationRequest, EvaluationResponse } from '@/types'
+
+const MAX_K = 20
+
+function errorResponse(error: string, status: number) {
+  const response: EvaluationResponse = { reports: [], comparisons: [], success: false, error }
+  return NextResponse.json(response, { status })
+}
+
+/**
+ * Check one configuration of a request: a unique name, chunk settings and search options
+ */
+function parseConfiguration(input: unknown, names: Set<string>): { configuration?: EvaluationConfiguration; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Each configuration must be an object' }
+  }
+  const raw = input as Record<string, unknown>
+
+  if (typeof raw.name !== 'string' || !raw.name.trim() || names.has(raw.name)) {
+    return { error: 'Each configuration needs a unique name' }
+  }
+  for (const field of ['chunkSize', 'chunkOverlap'] as const) {
+    const value = raw[field]
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+      return { error: `${raw.name}: ${field} must be a non-negative integer` }
+    }
+  }
+  if (raw.chunkSize !== undefined && raw.chunkOverlap !== undefined && (raw.chunkOverlap as number) >= (raw.chunkSize as number)) {
+    return { error: `${raw.name}: chunkOverlap must be smaller than chunkSize` }
+  }
+
+  const configuration: EvaluationConfiguration = {
+    name: raw.name,
+    chunkSize: raw.chunkSize as number | undefined,
+    chunkOverlap: raw.chunkOverlap as number | undefined
+  }
+  if (raw.search !== undefined) {
+    const search = raw.search as Record<string, unknown> | null
+    if (!search || typeof search !== 'object' || Array.isArray(search)) {
+      return { error: `${raw.name}: search must be an object` }
+    }
+    // The fixture documents are the only thing searched
+    if (search.scopes !== undefined || search.filter !== undefined) {
+      return { error: `${raw.name}: search cannot set scopes or filter` }
+    }
+    const parsed = parseSearchOptions(search)
+    if (!parsed.options) {
+      return { error: `${raw.name}: ${parsed.error}` }
+    }
+    configuration.search = parsed.options
+  }
+
+  names.add(raw.name)
+  return { configuration }
+}
+
+/**
+ * Run a golden dataset through the RAG pipeline once per configuration and compare each
+ * configuration with the first, or with a saved baseline report. Runs ingest documents and
+ * call the LLM for every question, so they need the admin token.
+ */
+export async function POST(request: NextRequest) {
+  const denied = checkAdmin(request)
+  if (denied) {
+    return denied
+  }
+
+  let body: EvaluationRequest
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('Invalid JSON', 400)
+  }
+
+  if (!Array.isArray(body.configurations) || body.configurations.length === 0 || body.configurations.length > EVALUATION_CONFIG.MAX_CONFIGURATIONS) {
+    return errorResponse(`configurations must list 1 to ${EVALUATION_CONFIG.MAX_CONFIGURATIONS} configurations`, 400)
+  }
+  if (body.k !== undefined && (!Number.isInteger(body.k) || body.k < 1 || body.k > MAX_K)) {
+    return errorResponse(`k must be an integer between 1 and ${MAX_K}`, 400)
+  }
+  const baseline = body.baseline
+  if (baseline !== undefined && (!baseline?.dataset || !baseline.configuration || !baseline.summary || !Array.isArray(baseline.results))) {
+    return errorResponse('baseline must be a report returned by this endpoint', 400)
+  }
+
+  // Checked again when the reports are compared, but failing here saves the runs
+  const k = body.k ?? EVALUATION_CONFIG.RECALL_K
+  if (baseline && baseline.k !== k) {
+    return errorResponse(`baseline scores recall at k=${baseline.k}, not ${k}`, 400)
+  }
+  const provider = LLMProviderRegistry.getProvider().name
+  if (baseline && baseline.provider !== provider) {
+    return errorResponse(`baseline was run with the ${baseline.provider} provider, not ${provider}`, 400)
+  }
+
+  const names = new Set<string>()
+  const configurations: EvaluationConfiguration[] = []
+  for (const input of body.configurations) {
+    const parsed = parseConfiguration(input, names)
+    if (!parsed.configuration) {
+      return errorResponse(parsed.error || 'Invalid configuration', 400)
+    }
+    configurations.push(parsed.configuration)
+  }
+
+  try {
+    const datasetName = body.dataset || EVALUATION_CONFIG.DEFAULT_DATASET
+    const loaded = await EvaluationDatasets.load(datasetName)
+    if (!loaded.success) {
+      return errorResponse(loaded.error || 'Evaluation dataset could not be loaded', 400)
+    }
+    if (baseline && (baseline.dataset.name !== loaded.dataset!.name || baseline.dataset.version !== loaded.dataset!.version)) {
+      return errorResponse(`baseline is a report for ${baseline.dataset.name} ${baseline.dataset.version}, not ${loaded.dataset!.name} ${loaded.dataset!.version}`, 400)
+    }
+    const documents = await EvaluationDatasets.loadDocuments(datasetName, loaded.dataset!)
+
+    // One configuration at a time: each ingests the fixtures into its own session
+    const reports: EvaluationReport[] = []
+    for (const configuration of configurations) {
+      const run = await EvaluationRunner.run(loaded.dataset!, documents, configuration, k)
+      if (!run.success) {
+        return errorResponse(run.error || `Evaluation "${configuration.name}" failed`, 500)
+      }
+      reports.push(run.report!)
+    }
+
+    // A saved baseline is compared with every configuration; otherwise the first configuration is the baseline
+    const comparisons: EvaluationResponse['comparisons'] = []
+    for (const report of baseline ? reports : reports.slice(1)) {
+      const compared = EvaluationReports.compare(baseline || reports[0], report)
+      if (!compared.success) {
+        return errorResponse(compared.error || 'Reports could not be compared', 400)
+      }
+      comparisons.push({ comparison: compared.comparison!, markdown: EvaluationReports.formatComparison(compared.comparison!) })
+    }
+
+    const response: EvaluationResponse = { reports, comparisons, success: true }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Evaluation error:', error)
+    return errorResponse(error instanceof Error ? error.message : 'Unknown error', 500)
+  }
+}
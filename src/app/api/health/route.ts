@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { PdfProcessingService } from '@/services/pdfProcessingService'
+import { LibraryService } from '@/services'
 import { HealthResponse } from '@/types'
 
 export async function GET(request: Request) {
@@ -7,10 +8,12 @@ export async function GET(request: Request) {
     // Get sessionId from query params
     const url = new URL(request.url)
     const sessionId = url.searchParams.get('sessionId')
+    const libraryDocuments = (await LibraryService.listDocuments())
+      .filter(document => document.status === 'ready').length
     
     if (sessionId) {
       // Get detailed session status including vector database information
-      const status = PdfProcessingService.getSessionStatus(sessionId)
+      const status = await PdfProcessingService.getSessionStatus(sessionId)
       const response: HealthResponse & {
         vector_store_status?: string
         documents_count?: number
@@ -22,6 +25,7 @@ export async function GET(request: Request) {
         vectorstore_available: status.vectorstore_available,
         pdf_uploaded: status.pdf_uploaded,
         current_pdf: status.current_pdf || undefined,
+        library_documents: libraryDocuments,
         sessionId: sessionId,
         vector_store_status: status.vector_store_status,
         documents_count: status.documents_count,
@@ -37,7 +41,8 @@ export async function GET(request: Request) {
         status: "healthy",
         agent_available: true,
         vectorstore_available: false,
-        pdf_uploaded: false
+        pdf_uploaded: false,
+        library_documents: libraryDocuments
       }
       return NextResponse.json(response)
     }
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LibraryService } from '@/services'
+import { checkAdmin } from '@/lib/adminAuth'
+import { LibraryResponse } from '@/types'
+import type { SessionDocument } from '@/services/types'
+
+function toSummary(document: SessionDocument) {
+  return {
+    id: document.id,
+    name: document.name,
+    chunkCount: document.chunkCount,
+    status: document.status,
+    uploadedAt: document.uploadedAt.toISOString(),
+    documentInfo: document.documentInfo,
+    error: document.error
+  }
+}
+
+export async function GET() {
+  try {
+    const response: LibraryResponse = {
+      documents: (await LibraryService.listDocuments()).map(toSummary)
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Error listing library documents:', error)
+    return NextResponse.json(
+      { error: 'Failed to list library documents' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = checkAdmin(request)
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    const result = await LibraryService.addDocument(file)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    const response: LibraryResponse = {
+      success: true,
+      documentId: result.documentId,
+      duplicate: result.duplicate,
+      documents: (await LibraryService.listDocuments()).map(toSummary)
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Error adding library document:', error)
+    return NextResponse.json(
+      { error: 'Failed to add library document' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = checkAdmin(request)
+  if (denied) {
+    return denied
+  }
+
+  try {
+    const { documentId } = await request.json()
+    if (!documentId) {
+      return NextResponse.json(
+        { error: 'Document ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await LibraryService.removeDocument(documentId)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 404 }
+      )
+    }
+
+    const response: LibraryResponse = {
+      success: true,
+      documents: (await LibraryService.listDocuments()).map(toSummary)
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Error removing library document:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove library document' },
+      { status: 500 }
+    )
+  }
+}
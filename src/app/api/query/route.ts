@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PdfProcessingService } from '@/services/pdfProcessingService'
 import { EXTERNAL_API } from '@/services/constants'
-import { externalApiClient } from '@/services'
+import { externalApiClient, GroundingVerifier, LibraryService, SearchFilters } from '@/services'
+import type { SearchScope } from '@/services/types'
 import { ChatResponse, QueryRequest } from '@/types'
 
+const SEARCH_SCOPES: SearchScope[] = ['session', 'library']
+
 export async function POST(request: NextRequest) {
   try {
     const body: QueryRequest = await request.json()
@@ -17,8 +20,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status: 400 })
     }
 
-    const sessionId = body.sessionId || ''
-    if (!sessionId && !EXTERNAL_API.ENABLED) {
+    const scopes = Array.isArray(body.scopes)
+      ? SEARCH_SCOPES.filter(scope => body.scopes!.includes(scope))
+      : SEARCH_SCOPES
+    const libraryAvailable = scopes.includes('library') && await LibraryService.hasDocuments()
+    // Conversation history is kept per session, so a chat with the library alone gets one too
+    const sessionId = body.sessionId ||
+      (libraryAvailable && !EXTERNAL_API.ENABLED ? PdfProcessingService.createOrRetrieveUserSession() : '')
+
+    const filter = SearchFilters.parse(body.filter)
+    if (!filter.valid) {
+      const response: ChatResponse = {
+        response: "Bộ lọc tìm kiếm không hợp lệ.",
+        error: filter.error,
+        sessionId: body.sessionId
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
+    if (!sessionId && !libraryAvailable && !EXTERNAL_API.ENABLED) {
       const response: ChatResponse = {
         response: "Vui lòng tải lên tệp PDF PCCC trước khi đặt câu hỏi. Sử dụng nút tải lên để bắt đầu.",
         error: "No session ID provided",
@@ -51,8 +71,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if PDF is uploaded for this session (local processing path)
-    const status = PdfProcessingService.getSessionStatus(sessionId)
-    if (!status.pdf_uploaded) {
+    const status = await PdfProcessingService.getSessionStatus(sessionId)
+    if (!status.pdf_uploaded && !libraryAvailable) {
       const response: ChatResponse = {
         response: "Vui lòng tải lên tệp PDF PCCC trước khi đặt câu hỏi. Sử dụng nút tải lên để bắt đầu.",
         error: "No PDF uploaded for this session",
@@ -63,7 +83,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Process the query with session
-    const result = await PdfProcessingService.queryPDF(body.question, sessionId)
+    const result = await PdfProcessingService.queryPDF(body.question, sessionId, { scopes, filter: filter.filter })
     
     if (!result.success) {
       const response: ChatResponse = {
@@ -76,6 +96,9 @@ export async function POST(request: NextRequest) {
     
     const response: ChatResponse = {
       response: result.answer || 'No answer generated',
+      sources: result.sources,
+      grounding: result.grounding,
+      notice: result.grounding ? GroundingVerifier.formatNotice(result.grounding) : undefined,
       sessionId: sessionId
     }
 
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PdfProcessingService } from '@/services/pdfProcessingService'
+import { EXTERNAL_API } from '@/services/constants'
+import { AnswerCitations, externalApiClient, GroundingVerifier, LibraryService, LLMService, SearchFilters } from '@/services'
+import type { SearchFilter, SearchScope } from '@/services'
+import { ChatResponse, QueryRequest, QueryStreamEvent } from '@/types'
+
+const SEARCH_SCOPES: SearchScope[] = ['session', 'library']
+const UPLOAD_REQUIRED_MESSAGE = "Vui lòng tải lên tệp PDF PCCC trước khi đặt câu hỏi. Sử dụng nút tải lên để bắt đầu."
+
+const encoder = new TextEncoder()
+
+function formatEvent({ event, data }: QueryStreamEvent): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+/**
+ * Retrieve, then generate the answer, sending each step as it completes
+ */
+async function streamAnswer(
+  question: string,
+  sessionId: string,
+  options: { scopes: SearchScope[]; filter?: SearchFilter },
+  send: (event: QueryStreamEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  // The external API answers in one piece, so it is sent as a single token
+  if (EXTERNAL_API.ENABLED) {
+    try {
+      const external = await externalApiClient.chat(question)
+      send({ event: 'retrieval', data: { sessionId, sources: [] } })
+      send({ event: 'token', data: { delta: external.answer } })
+      send({
+        event: 'done',
+        data: {
+          response: external.answer,
+          sources: external.sources,
+          suggestions: external.suggestions,
+          notice: external.notice,
+          sessionId
+        }
+      })
+    } catch (error) {
+      console.error('External chat error:', error)
+      send({
+        event: 'error',
+        data: {
+          response: 'Xin lỗi, tôi không thể liên hệ dịch vụ bên ngoài lúc này.',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          sessionId
+        }
+      })
+    }
+    return
+  }
+
+  const libraryAvailable = options.scopes.includes('library') && await LibraryService.hasDocuments()
+  // Conversation history is kept per session, so a chat with the library alone gets one too
+  if (!sessionId && libraryAvailable) {
+    sessionId = PdfProcessingService.createOrRetrieveUserSession()
+  }
+  const status = sessionId ? await PdfProcessingService.getSessionStatus(sessionId) : null
+  if (!status?.pdf_uploaded && !libraryAvailable) {
+    send({
+      event: 'error',
+      data: {
+        response: UPLOAD_REQUIRED_MESSAGE,
+        error: sessionId ? 'No PDF uploaded for this session' : 'No session ID provided',
+        requires_upload: true,
+        sessionId: sessionId || undefined
+      }
+    })
+    return
+  }
+
+  const retrieval = await PdfProcessingService.retrieveAnswerContext(question, sessionId, options)
+  if (!retrieval.success) {
+    send({
+      event: 'error',
+      data: { response: retrieval.error || 'Query processing failed', error: retrieval.error, sessionId }
+    })
+    return
+  }
+
+  const sources = (retrieval.sources || []).map((result, index) => AnswerCitations.toSource(result, index + 1))
+  send({
+    event: 'retrieval',
+    data: { sessionId, searchType: retrieval.searchType, subQueries: retrieval.subQueries, sources }
+  })
+
+  if (retrieval.answer !== undefined) {
+    PdfProcessingService.recordChatTurn(sessionId, question, retrieval.answer, retrieval.question)
+    send({ event: 'token', data: { delta: retrieval.answer } })
+    send({ event: 'done', data: { response: retrieval.answer, sessionId } })
+    return
+  }
+
+  let response = ''
+  const deltas = LLMService.streamResponse(
+    retrieval.question!,
+    retrieval.context!,
+    retrieval.subQueries,
+    retrieval.history,
+    signal
+  )
+  for await (const delta of deltas) {
+    response += delta
+    send({ event: 'token', data: { delta } })
+  }
+  if (signal.aborted) {
+    console.log(`Answer stream stopped by the client for session: ${sessionId}`)
+    return
+  }
+
+  // The streamed text may carry markers that point nowhere; the final answer drops them
+  const cited = AnswerCitations.resolve(response, retrieval.sources || [])
+  const grounding = PdfProcessingService.verifyAnswer(cited.answer, retrieval.context!)
+  console.log(`Streamed RAG answer for session: ${sessionId}`)
+  PdfProcessingService.recordChatTurn(sessionId, question, cited.answer, retrieval.question)
+  send({
+    event: 'done',
+    data: {
+      response: cited.answer,
+      sources: cited.sources,
+      grounding,
+      notice: grounding ? GroundingVerifier.formatNotice(grounding) : undefined,
+      sessionId
+    }
+  })
+}
+
+/**
+ * Answer a question as Server-Sent Events: `retrieval` with the context sections found, `token` for
+ * each piece of the answer as it is generated, then `done` with the full answer and the sections it cites.
+ * Closing the connection stops the LLM request.
+ */
+export async function POST(request: NextRequest) {
+  let body: QueryRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ response: 'Invalid request body.', error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  if (!body.question || typeof body.question !== 'string') {
+    const response: ChatResponse = {
+      response: "Please provide a valid question.",
+      error: "Invalid question format",
+      sessionId: body.sessionId
+    }
+    return NextResponse.json(response, { status: 400 })
+  }
+
+  const filter = SearchFilters.parse(body.filter)
+  if (!filter.valid) {
+    const response: ChatResponse = {
+      response: "Bộ lọc tìm kiếm không hợp lệ.",
+      error: filter.error,
+      sessionId: body.sessionId
+    }
+    return NextResponse.json(response, { status: 400 })
+  }
+
+  const sessionId = body.sessionId || ''
+  const scopes = Array.isArray(body.scopes)
+    ? SEARCH_SCOPES.filter(scope => body.scopes!.includes(scope))
+    : SEARCH_SCOPES
+
+  const upstream = new AbortController()
+  request.signal.addEventListener('abort', () => upstream.abort())
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: QueryStreamEvent) => {
+        if (!upstream.signal.aborted) {
+          controller.enqueue(formatEvent(event))
+        }
+      }
+
+      try {
+        await streamAnswer(body.question, sessionId, { scopes, filter: filter.filter }, send, upstream.signal)
+      } catch (error) {
+        console.error('Query stream error:', error)
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        send({ event: 'error', data: { response: message, error: message, sessionId } })
+      } finally {
+        if (!upstream.signal.aborted) {
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      upstream.abort()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
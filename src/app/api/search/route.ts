@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PdfProcessingService } from '@/services/pdfProcessingService'
+import { SearchService, API_CONFIG } from '@/services'
+import type { SearchResult } from '@/services'
+import { parseSearchOptions } from '@/lib/searchOptions'
+import { SearchHit, SearchRequest, SearchResponse } from '@/types'
+
+function toHit(result: SearchResult, index: number): SearchHit {
+  const metadata = result.metadata || {}
+  return {
+    rank: index + 1,
+    content: result.content,
+    score: result.score,
+    rerankScore: result.rerankScore,
+    retrievers: Object.keys(result.ranks || {}) as SearchHit['retrievers'],
+    ranks: result.ranks,
+    retrieverScores: result.retrieverScores,
+    scope: result.scope,
+    documentId: result.documentId,
+    documentName: result.source,
+    page: SearchService.formatPageRange(metadata) || undefined,
+    pageStart: typeof metadata.pageStart === 'number' ? metadata.pageStart : undefined,
+    pageEnd: typeof metadata.pageEnd === 'number' ? metadata.pageEnd : undefined,
+    structurePath: typeof metadata.structurePath === 'string' ? metadata.structurePath : undefined,
+    citation: result.citation,
+    metadata
+  }
+}
+
+/**
+ * Retrieval only: the ranked chunks smartSearch finds for a query, without an LLM answer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SearchRequest = await request.json()
+
+    if (!body.query || typeof body.query !== 'string' || !body.query.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'query must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+    if (body.query.length > API_CONFIG.MAX_QUESTION_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `query is too long. Maximum length is ${API_CONFIG.MAX_QUESTION_LENGTH} characters.` },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseSearchOptions(body)
+    if (!parsed.options) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const result = await PdfProcessingService.searchDocuments(body.query, body.sessionId || '', parsed.options)
+    const response: SearchResponse = {
+      query: body.query,
+      results: result.results.map(toHit),
+      totalFound: result.totalFound,
+      searchType: result.searchType,
+      reranker: result.reranker,
+      expandedQuery: result.expandedQuery,
+      expansions: result.expansions,
+      citations: result.citations,
+      success: result.success,
+      error: result.error
+    }
+
+    return NextResponse.json(response, { status: result.success ? 200 : 400 })
+
+  } catch (error) {
+    console.error('Search error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
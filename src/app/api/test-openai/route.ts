@@ -1,23 +1,16 @@
 import { NextResponse } from 'next/server'
-import { OpenAIEmbeddings } from '@langchain/openai'
+import { LLMProviderRegistry, OFFLINE_CONFIG } from '@/services'
 
 export async function GET() {
+  let providerName: string | undefined
   try {
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-    
-    if (!OPENAI_API_KEY) {
-      return NextResponse.json({ 
-        error: 'OpenAI API key not configured' 
-      }, { status: 500 })
-    }
+    const provider = LLMProviderRegistry.getProvider()
+    providerName = provider.name
 
-    console.log('Testing OpenAI API connection...')
+    console.log(`Testing ${provider.name} provider connection...`)
     
-    const embeddings = new OpenAIEmbeddings({
-      openAIApiKey: OPENAI_API_KEY,
-      batchSize: 1,
-      maxRetries: 1,
-    })
+    // Creating the embeddings fails when the provider's key or endpoint is missing
+    const embeddings = provider.createEmbeddings()
 
     const startTime = Date.now()
     
@@ -28,14 +21,17 @@ export async function GET() {
     
     return NextResponse.json({
       status: 'success',
-      message: 'OpenAI API is working correctly',
+      message: `${provider.name} provider is working correctly`,
+      provider: provider.name,
+      offline_mode: OFFLINE_CONFIG.ENABLED,
+      embedding_model: provider.embeddingModelName(),
       duration_ms: duration,
       embedding_length: testResult.length,
       api_key_configured: true
     })
 
   } catch (error) {
-    console.error('OpenAI API test failed:', error)
+    console.error('LLM provider test failed:', error)
     
     let errorMessage = 'Unknown error'
     let errorType = 'unknown'
@@ -49,6 +45,8 @@ export async function GET() {
         errorType = 'auth_failed'
       } else if (error.message.includes('network') || error.message.includes('timeout')) {
         errorType = 'network_error'
+      } else if (error.message.includes('not configured') || error.message.includes('Unknown LLM provider')) {
+        errorType = 'not_configured'
       }
     }
     
@@ -56,7 +54,8 @@ export async function GET() {
       status: 'error',
       error: errorMessage,
       error_type: errorType,
-      api_key_configured: !!process.env.OPENAI_API_KEY
+      provider: providerName,
+      api_key_configured: errorType !== 'not_configured'
     }, { status: 500 })
   }
 }
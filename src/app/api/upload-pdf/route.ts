@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PdfProcessingService } from '@/services/pdfProcessingService'
 import { EXTERNAL_API } from '@/services/constants'
-import { externalApiClient } from '@/services'
+import { externalApiClient, DocumentExtractorRegistry } from '@/services'
 import { UploadResponse } from '@/types'
 
 export async function POST(request: NextRequest) {
@@ -100,6 +100,18 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // The local pipeline only ingests formats it has an extractor for
+    if (!DocumentExtractorRegistry.isSupported(file.name, file.type)) {
+      const response: UploadResponse = {
+        message: "Unsupported file format",
+        filename: file.name,
+        agent_ready: false,
+        error: DocumentExtractorRegistry.getUnsupportedReason(file.name),
+        sessionId: sessionId || ''
+      }
+      return NextResponse.json(response, { status: 400 })
+    }
+
     // Initialize LLM with error handling
     try {
       await PdfProcessingService.initializeLLM()
@@ -122,12 +134,17 @@ export async function POST(request: NextRequest) {
 
     if (result.success) {
       const response: UploadResponse = {
-        message: result.error ? 
-          "Document uploaded successfully with warnings" : 
-          "Document uploaded and processed successfully",
+        message: result.duplicate ?
+          "Document was already uploaded to this session" :
+          result.error ? 
+            "Document uploaded successfully with warnings" : 
+            "Document uploaded and processed successfully",
         filename: file.name,
         agent_ready: true,
         sessionId: result.sessionId,
+        documentId: result.documentId,
+        duplicate: result.duplicate,
+        cache: result.cache,
         error: result.error // Include warning messages
       }
       return NextResponse.json(response)
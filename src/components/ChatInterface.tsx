@@ -1,8 +1,10 @@
 'use client'
 
 import { useState, useRef, useEffect, useCallback } from 'react'
-import { Send, Bot, User, AlertCircle, Shield, Upload, FileText, X } from 'lucide-react'
-import { Message, ChatResponse, HealthResponse } from '@/types'
+import { Send, Square, Bot, User, AlertCircle, Shield, Upload, FileText, X, Trash2 } from 'lucide-react'
+import { Message, ChatResponse, HealthResponse, DocumentSummary, DocumentsResponse, LibraryResponse, UploadResponse } from '@/types'
+import { readQueryStream } from '@/lib/queryStream'
+import type { AnswerSource, LegalDocumentType, SearchFilter, SearchScope } from '@/services/types'
 
 export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([
@@ -15,16 +17,24 @@ export default function ChatInterface() {
   ])
   const [inputMessage, setInputMessage] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [isStreaming, setIsStreaming] = useState(false) // Answer tokens are arriving
   const [isUploading, setIsUploading] = useState(false)
   const [isResetting, setIsResetting] = useState(false)
   const [backendStatus, setBackendStatus] = useState<'checking' | 'online' | 'offline'>('checking')
   const [pdfUploaded, setPdfUploaded] = useState(false)
   const [currentPdf, setCurrentPdf] = useState<string | null>(null)
-  const [uploadedFiles, setUploadedFiles] = useState<string[]>([])
+  const [uploadedDocuments, setUploadedDocuments] = useState<DocumentSummary[]>([])
+  const [removingDocumentId, setRemovingDocumentId] = useState<string | null>(null)
   const [sessionId, setSessionId] = useState<string | null>(null)
+  const [libraryDocumentCount, setLibraryDocumentCount] = useState(0)
+  const [includeLibrary, setIncludeLibrary] = useState(true)
+  const [includeSession, setIncludeSession] = useState(true)
+  const [libraryDocuments, setLibraryDocuments] = useState<DocumentSummary[]>([])
+  const [searchFilterKey, setSearchFilterKey] = useState('') // '', 'type:<loại>' or 'document:<id>'
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -34,6 +44,18 @@ export default function ChatInterface() {
     scrollToBottom()
   }, [messages])
 
+  const refreshDocuments = useCallback(async (activeSessionId: string) => {
+    try {
+      const response = await fetch(`/api/documents?sessionId=${activeSessionId}`)
+      if (response.ok) {
+        const data: DocumentsResponse = await response.json()
+        setUploadedDocuments(data.documents)
+      }
+    } catch {
+      // Keep the current list; the next health check retries
+    }
+  }, [])
+
   const checkBackendHealth = useCallback(async () => {
     try {
       // Include session ID if available
@@ -44,13 +66,24 @@ export default function ChatInterface() {
         setBackendStatus('online')
         setPdfUploaded(data.pdf_uploaded)
         setCurrentPdf(data.current_pdf || null)
+        setLibraryDocumentCount(data.library_documents || 0)
+        if (data.library_documents) {
+          const libraryResponse = await fetch('/api/library')
+          if (libraryResponse.ok) {
+            const library: LibraryResponse = await libraryResponse.json()
+            setLibraryDocuments(library.documents)
+          }
+        }
+        if (sessionId) {
+          await refreshDocuments(sessionId)
+        }
       } else {
         setBackendStatus('offline')
       }
     } catch {
       setBackendStatus('offline')
     }
-  }, [sessionId])
+  }, [sessionId, refreshDocuments])
 
   useEffect(() => {
     // Load session ID from localStorage on component mount
@@ -93,7 +126,7 @@ export default function ChatInterface() {
         throw new Error(`Upload failed with status: ${response.status}`)
       }
       
-      const data = await response.json()
+      const data: UploadResponse = await response.json()
       
       // Store the session ID for future queries
       if (data.sessionId) {
@@ -102,10 +135,12 @@ export default function ChatInterface() {
         console.log('Session ID stored:', data.sessionId)
       }
       
-      const isFirstUpload = uploadedFiles.length === 0
+      const isFirstUpload = !uploadedDocuments.some(document => document.status === 'ready')
       const successMessage: Message = {
         id: (Date.now() + 1).toString(),
-        content: `✅ Tải lên File thành công! Tệp: ${data.filename}\n\n${isFirstUpload ? 'Tài liệu của bạn đã được xử lý và tôi sẵn sàng trả lời các câu hỏi về quy định an toàn phòng cháy và tuân thủ PCCC. Bạn muốn biết gì?' : 'Tài liệu bổ sung đã được thêm vào cơ sở dữ liệu. Bạn có thể tiếp tục đặt câu hỏi về các quy định an toàn phòng cháy và tuân thủ PCCC.'}`,
+        content: data.duplicate
+          ? `ℹ️ Tệp ${data.filename} đã có trong cơ sở dữ liệu của phiên này, không cần xử lý lại.`
+          : `✅ Tải lên File thành công! Tệp: ${data.filename}\n\n${isFirstUpload ? 'Tài liệu của bạn đã được xử lý và tôi sẵn sàng trả lời các câu hỏi về quy định an toàn phòng cháy và tuân thủ PCCC. Bạn muốn biết gì?' : 'Tài liệu bổ sung đã được thêm vào cơ sở dữ liệu. Bạn có thể tiếp tục đặt câu hỏi về các quy định an toàn phòng cháy và tuân thủ PCCC.'}`,
         sender: 'bot',
         timestamp: new Date(),
       }
@@ -113,7 +148,9 @@ export default function ChatInterface() {
       setMessages(prev => [...prev, successMessage])
       setPdfUploaded(true)
       setCurrentPdf(data.filename)
-      setUploadedFiles(prev => [...prev, data.filename])
+      if (data.sessionId) {
+        await refreshDocuments(data.sessionId)
+      }
       
       // Update the initial welcome message
       setMessages(prev => {
@@ -185,33 +222,71 @@ export default function ChatInterface() {
     setInputMessage('')
     setIsLoading(true)
 
+    const selectedScopes: SearchScope[] = [
+      ...(includeSession ? ['session' as const] : []),
+      ...(includeLibrary ? ['library' as const] : [])
+    ]
+    const [filterKind, filterValue] = searchFilterKey.split(/:(.*)/)
+    const searchFilter: SearchFilter | undefined = filterKind === 'document'
+      ? { documentIds: [filterValue] }
+      : filterKind === 'type' ? { documentTypes: [filterValue as LegalDocumentType] } : undefined
+
+    const botMessageId = (Date.now() + 1).toString()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    let streamedAnswer = ''
+
+    // Create the answer message with its first token, then grow it as tokens arrive
+    const showBotMessage = (content: string, isError = false) => {
+      setMessages(prev => prev.some(message => message.id === botMessageId)
+        ? prev.map(message => message.id === botMessageId ? { ...message, content, isError } : message)
+        : [...prev, { id: botMessageId, content, sender: 'bot', timestamp: new Date(), isError }]
+      )
+    }
+
     try {
-      const response = await fetch('/api/query', {
+      const response = await fetch('/api/query/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
           question: userMessage.content,
-          sessionId: sessionId 
+          sessionId: sessionId,
+          scopes: selectedScopes,
+          filter: searchFilter
         }),
+        signal: controller.signal
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error(`Server responded with status: ${response.status}`)
       }
 
-      const data: ChatResponse = await response.json()
+      let data: ChatResponse | null = null
+      for await (const event of readQueryStream(response.body)) {
+        if (event.event === 'retrieval') {
+          // A chat with the library alone gets its session from the server, which keeps its history
+          if (event.data.sessionId && event.data.sessionId !== sessionId) {
+            setSessionId(event.data.sessionId)
+            localStorage.setItem('pccc-session-id', event.data.sessionId)
+          }
+        } else if (event.event === 'token') {
+          streamedAnswer += event.data.delta
+          setIsStreaming(true)
+          showBotMessage(streamedAnswer)
+        } else {
+          data = event.data
+        }
+      }
 
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: data.response,
-        sender: 'bot',
-        timestamp: new Date(),
-        isError: data.requires_upload ? true : false,
+      if (!data) {
+        throw new Error('Kết nối bị ngắt trước khi nhận đủ câu trả lời')
       }
 
-      const extraMessages: Message[] = [botMessage]
+      showBotMessage(data.response, Boolean(data.error))
+
+      const extraMessages: Message[] = []
       if (data.notice) {
         extraMessages.push({
           id: (Date.now() + 2).toString(),
@@ -229,11 +304,12 @@ export default function ChatInterface() {
           timestamp: new Date(),
         })
       }
-      if (Array.isArray(data.sources) && data.sources.length > 0) {
-        const sourcesText = data.sources.map((src, i) => formatSourceItem(src, i)).join('\n')
+      const sourceItems = (Array.isArray(data.sources) ? data.sources : [])
+        .map((src, i) => isAnswerSource(src) ? formatCitation(src) : formatSourceItem(src, i))
+      if (sourceItems.length > 0) {
         extraMessages.push({
           id: (Date.now() + 4).toString(),
-          content: `Nguồn trích dẫn:\n${sourcesText}`,
+          content: `Nguồn trích dẫn:\n${sourceItems.join('\n')}`,
           sender: 'bot',
           timestamp: new Date(),
         })
@@ -253,21 +329,27 @@ export default function ChatInterface() {
       }
       
     } catch (error) {
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: `Xin lỗi, tôi gặp lỗi: ${error instanceof Error ? error.message : 'Lỗi không xác định'}. Vui lòng kiểm tra kết nối mạng và thử lại.`,
-        sender: 'bot',
-        timestamp: new Date(),
-        isError: true,
+      if (controller.signal.aborted) {
+        // Keep what was generated before the user stopped it
+        showBotMessage(streamedAnswer ? `${streamedAnswer}\n\n[Đã dừng]` : 'Đã dừng trả lời.')
+      } else {
+        showBotMessage(
+          `Xin lỗi, tôi gặp lỗi: ${error instanceof Error ? error.message : 'Lỗi không xác định'}. Vui lòng kiểm tra kết nối mạng và thử lại.`,
+          true
+        )
       }
-
-      setMessages(prev => [...prev, errorMessage])
     } finally {
+      abortControllerRef.current = null
+      setIsStreaming(false)
       setIsLoading(false)
       inputRef.current?.focus()
     }
   }
 
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort()
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -279,6 +361,17 @@ export default function ChatInterface() {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
 
+  // Local answers cite context sections by number; the external API sends its own source shape
+  const isAnswerSource = (item: unknown): item is AnswerSource =>
+    typeof item === 'object' && item !== null && typeof (item as AnswerSource).index === 'number'
+
+  // Format a cited section under its marker, e.g. "[2] QCVN 06:2022, trang 12 – Chương III > Điều 3" and the quoted span
+  const formatCitation = (source: AnswerSource): string => {
+    const location = [source.documentName || 'Tài liệu', source.page].filter(Boolean).join(', ')
+    const heading = `[${source.index}] ${location}${source.structurePath ? ` – ${source.structurePath}` : ''}`
+    return source.quote ? `${heading}\n    “${source.quote}”` : heading
+  }
+
   // Format external response extras for display
   const formatSourceItem = (item: unknown, index: number): string => {
     try {
@@ -303,6 +396,53 @@ export default function ChatInterface() {
     }
   }
 
+  const removeDocument = async (document: DocumentSummary) => {
+    if (!sessionId) return
+
+    const confirmed = window.confirm(`Xóa tài liệu "${document.name}" khỏi cơ sở dữ liệu của phiên này?`)
+    if (!confirmed) return
+
+    setRemovingDocumentId(document.id)
+
+    try {
+      const response = await fetch('/api/documents', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId, documentId: document.id }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Server responded with status: ${response.status}`)
+      }
+
+      const data: DocumentsResponse = await response.json()
+      setUploadedDocuments(data.documents)
+      const remaining = data.documents.filter(item => item.status === 'ready')
+      setPdfUploaded(remaining.length > 0)
+      setCurrentPdf(remaining.length > 0 ? remaining[remaining.length - 1].name : null)
+
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        content: `🗑️ Đã xóa tài liệu: ${document.name}`,
+        sender: 'bot',
+        timestamp: new Date(),
+      }])
+
+    } catch (error) {
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        content: `❌ Không thể xóa tài liệu: ${error instanceof Error ? error.message : 'Lỗi không xác định'}`,
+        sender: 'bot',
+        timestamp: new Date(),
+        isError: true,
+      }])
+    } finally {
+      setRemovingDocumentId(null)
+    }
+  }
+
   const resetSession = async () => {
     if (!sessionId) {
       console.log('No session to reset')
@@ -337,7 +477,7 @@ export default function ChatInterface() {
       setSessionId(null)
       setPdfUploaded(false)
       setCurrentPdf(null)
-      setUploadedFiles([])
+      setUploadedDocuments([])
       setInputMessage('')
 
       // Clear session from localStorage
@@ -380,6 +520,20 @@ export default function ChatInterface() {
     }
   }
 
+  // Documents a question can be narrowed to, labelled by their regulation number when it was detected
+  const filterableDocuments = [
+    ...uploadedDocuments.filter(document => document.status === 'ready'),
+    ...libraryDocuments
+  ]
+  const filterableTypes = Array.from(new Set(
+    filterableDocuments
+      .map(document => document.documentInfo?.documentType)
+      .filter((type): type is LegalDocumentType => Boolean(type))
+  ))
+  const documentLabel = (document: DocumentSummary) => document.documentInfo?.documentNumber
+    ? [document.documentInfo.documentType, document.documentInfo.documentNumber].filter(Boolean).join(' ')
+    : document.name
+
   return (
     <div className="flex flex-col h-screen max-w-4xl mx-auto bg-white shadow-2xl">
       {/* Header */}
@@ -392,13 +546,13 @@ export default function ChatInterface() {
             <div>
               <h1 className="text-xl font-bold">Trợ lý Tuân thủ An toàn Phòng cháy chữa cháy</h1>
               <p className="text-red-100 text-sm">Chuyên gia PCCC & An toàn Công trình</p>
-              {uploadedFiles.length > 0 && (
+              {uploadedDocuments.length > 0 && (
                 <div className="flex items-center space-x-1 mt-1">
                   <FileText className="w-3 h-3" />
                   <span className="text-xs text-red-100">
-                    {uploadedFiles.length === 1 
-                      ? `Tài liệu: ${uploadedFiles[0]}`
-                      : `${uploadedFiles.length} tài liệu đã tải lên`
+                    {uploadedDocuments.length === 1 
+                      ? `Tài liệu: ${uploadedDocuments[0].name}`
+                      : `${uploadedDocuments.length} tài liệu đã tải lên`
                     }
                   </span>
                 </div>
@@ -508,7 +662,7 @@ export default function ChatInterface() {
         ))}
 
         {/* Loading Indicator */}
-        {isLoading && (
+        {isLoading && !isStreaming && (
           <div className="flex justify-start">
             <div className="flex items-start space-x-3 max-w-[80%]">
               <div className="flex-shrink-0 w-8 h-8 rounded-full bg-orange-500 text-white flex items-center justify-center">
@@ -579,9 +733,86 @@ export default function ChatInterface() {
                 </>
               )}
             </button>
+
+            {/* Documents in this session's knowledge base */}
+            {uploadedDocuments.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {uploadedDocuments.map((document) => (
+                  <li
+                    key={document.id}
+                    className="flex items-center justify-between bg-white border border-orange-100 rounded-lg px-3 py-1.5 text-sm"
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <FileText className="w-4 h-4 flex-shrink-0 text-orange-600" />
+                      <span className="truncate text-gray-800">{document.name}</span>
+                      <span className={`text-xs flex-shrink-0 ${document.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                        {document.status === 'ready'
+                          ? `${document.chunkCount} đoạn`
+                          : document.status === 'processing' ? 'Đang xử lý...' : 'Lỗi xử lý'}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => removeDocument(document)}
+                      disabled={removingDocumentId === document.id || isUploading || isLoading}
+                      className="ml-2 p-1 text-gray-400 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Xóa tài liệu khỏi phiên"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
         
+        {/* Knowledge scopes and documents searched for the next question */}
+        {(libraryDocumentCount > 0 || filterableDocuments.length > 1) && (
+          <div className="mb-3 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            {libraryDocumentCount > 0 && (
+              <>
+                <span className="text-gray-500">Tìm trong:</span>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={includeLibrary}
+                    onChange={(e) => setIncludeLibrary(e.target.checked)}
+                    className="accent-orange-500"
+                  />
+                  <span>Thư viện chung ({libraryDocumentCount} tài liệu)</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={includeSession}
+                    onChange={(e) => setIncludeSession(e.target.checked)}
+                    className="accent-orange-500"
+                  />
+                  <span>Tài liệu của bạn</span>
+                </label>
+              </>
+            )}
+            {filterableDocuments.length > 1 && (
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-500">Chỉ tìm trong:</span>
+                <select
+                  value={searchFilterKey}
+                  onChange={(e) => setSearchFilterKey(e.target.value)}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  <option value="">Tất cả tài liệu</option>
+                  {filterableTypes.map((type) => (
+                    <option key={type} value={`type:${type}`}>Mọi {type}</option>
+                  ))}
+                  {filterableDocuments.map((document) => (
+                    <option key={document.id} value={`document:${document.id}`}>{documentLabel(document)}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        )}
+
         <div className="flex space-x-3 items-end">
           <div className="flex-1">
             <input
@@ -590,7 +821,7 @@ export default function ChatInterface() {
               value={inputMessage}
               onChange={(e) => setInputMessage(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder={pdfUploaded ? "Hỏi về quy định an toàn phòng cháy, tuân thủ PCCC, hoặc an toàn công trình..." : "Tải lên PDF trước để bắt đầu đặt câu hỏi..."}
+              placeholder={pdfUploaded || libraryDocumentCount > 0 ? "Hỏi về quy định an toàn phòng cháy, tuân thủ PCCC, hoặc an toàn công trình..." : "Tải lên PDF trước để bắt đầu đặt câu hỏi..."}
               disabled={isLoading || isUploading}
               className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed"
             />
@@ -610,14 +841,24 @@ export default function ChatInterface() {
             )}
           </button>
           
-          {/* Send button */}
-          <button
-            onClick={sendMessage}
-            disabled={!inputMessage.trim() || isLoading || isUploading || backendStatus === 'offline'}
-            className="bg-gradient-to-r from-red-500 to-orange-500 text-white p-3 rounded-xl hover:from-red-600 hover:to-orange-600 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl"
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          {/* Send button, or stop while an answer is being generated */}
+          {isLoading ? (
+            <button
+              onClick={stopGenerating}
+              className="bg-gray-700 text-white p-3 rounded-xl hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-all duration-200 shadow-lg hover:shadow-xl"
+              title="Dừng trả lời"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={sendMessage}
+              disabled={!inputMessage.trim() || isUploading || backendStatus === 'offline'}
+              className="bg-gradient-to-r from-red-500 to-orange-500 text-white p-3 rounded-xl hover:from-red-600 hover:to-orange-600 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </div>
         
         <div className="mt-3 text-xs text-gray-500 text-center">
@@ -0,0 +1,31 @@
+/**
+ * Admin token check shared by the administrative API routes
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { LIBRARY_CONFIG } from '@/services'
+
+/**
+ * Administrative endpoints (library changes, evaluation runs) need the LIBRARY_ADMIN_TOKEN in the x-admin-token header.
+ * Returns the response to send when the request is not allowed, or null
+ */
+export function checkAdmin(request: NextRequest): NextResponse | null {
+  if (!LIBRARY_CONFIG.ADMIN_TOKEN) {
+    return NextResponse.json(
+      { error: 'Administration is disabled. Set LIBRARY_ADMIN_TOKEN to enable it.' },
+      { status: 403 }
+    )
+  }
+
+  const token = Buffer.from(request.headers.get('x-admin-token') || '')
+  const expected = Buffer.from(LIBRARY_CONFIG.ADMIN_TOKEN)
+  if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+    return NextResponse.json(
+      { error: 'Invalid admin token' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
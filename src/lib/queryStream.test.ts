@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { readQueryStream } from './queryStream'
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const events = []
+  for await (const event of readQueryStream(body)) {
+    events.push(event)
+  }
+  return events
+}
+
+describe('readQueryStream', () => {
+  it('yields events split across chunks, with CRLF line endings', async () => {
+    const events = await collect(streamOf(
+      'event: retrieval\r\ndata: {"sources":[]}\r\n\r\nevent: tok',
+      'en\ndata: {"delta":"Lối "}\n\nevent: token\ndata: {"delta":"thoát"}\n\n'
+    ))
+
+    expect(events).toEqual([
+      { event: 'retrieval', data: { sources: [] } },
+      { event: 'token', data: { delta: 'Lối ' } },
+      { event: 'token', data: { delta: 'thoát' } }
+    ])
+  })
+
+  it('reads a last event without a closing blank line', async () => {
+    expect(await collect(streamOf('event: done\ndata: {"success":true}'))).toEqual([
+      { event: 'done', data: { success: true } }
+    ])
+  })
+
+  it('skips comments and events whose data is not JSON', async () => {
+    expect(await collect(streamOf(': keep-alive\n\nevent: token\ndata: {broken\n\nevent: token\ndata: {"delta":"a"}\n\n'))).toEqual([
+      { event: 'token', data: { delta: 'a' } }
+    ])
+  })
+})
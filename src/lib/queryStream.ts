@@ -0,0 +1,66 @@
+/**
+ * Client-side reader for the Server-Sent Events of /api/query/stream
+ */
+
+import { QueryStreamEvent } from '@/types'
+
+/**
+ * Parse one event block ("event: ...\ndata: ...") into a typed event
+ */
+function parseEvent(block: string): QueryStreamEvent | null {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim()
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice('data:'.length).trimStart())
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null
+  }
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) } as QueryStreamEvent
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Yield the events of a streamed answer as they arrive
+ */
+export async function* readQueryStream(body: ReadableStream<Uint8Array>): AsyncGenerator<QueryStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) {
+        break
+      }
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (event) {
+          yield event
+        }
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+
+    const event = parseEvent(buffer.trim())
+    if (event) {
+      yield event
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
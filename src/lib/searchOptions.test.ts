@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import type { SearchOptions } from '@/services'
+import { parseSearchOptions } from './searchOptions'
+
+describe('parseSearchOptions', () => {
+  it('keeps only the options that are set', () => {
+    expect(parseSearchOptions({ maxResults: 5, searchType: 'hybrid', diversify: true })).toEqual({
+      options: { maxResults: 5, searchType: 'hybrid', diversify: true, filter: undefined }
+    })
+  })
+
+  it('rejects maxResults outside the allowed range', () => {
+    expect(parseSearchOptions({ maxResults: 0 }).error).toMatch(/^maxResults must be an integer/)
+    expect(parseSearchOptions({ maxResults: 51 }).error).toMatch(/^maxResults must be an integer/)
+    expect(parseSearchOptions({ maxResults: 2.5 }).error).toMatch(/^maxResults must be an integer/)
+  })
+
+  it('rejects unknown search types, rerankers and context expansions', () => {
+    expect(parseSearchOptions({ searchType: 'fuzzy' } as unknown as SearchOptions).error)
+      .toBe('searchType must be one of: vector, text, hybrid')
+    expect(parseSearchOptions({ reranker: 'cohere' } as unknown as SearchOptions).error)
+      .toBe('reranker must be one of: lexical, llm, none')
+    expect(parseSearchOptions({ contextExpansion: 'page' } as unknown as SearchOptions).error)
+      .toBe('contextExpansion must be one of: article, neighbors, none')
+  })
+
+  it('accepts a registered reranker or none', () => {
+    expect(parseSearchOptions({ reranker: 'lexical' }).options?.reranker).toBe('lexical')
+    expect(parseSearchOptions({ reranker: 'none' }).options?.reranker).toBe('none')
+  })
+
+  it('drops unknown scopes', () => {
+    const body = { scopes: ['library', 'web'] } as unknown as SearchOptions
+
+    expect(parseSearchOptions(body).options?.scopes).toEqual(['library'])
+  })
+
+  it('checks diversityLambda and fusionWeights bounds', () => {
+    expect(parseSearchOptions({ diversityLambda: 1.5 }).error).toBe('diversityLambda must be a number between 0 and 1')
+    expect(parseSearchOptions({ fusionWeights: { vector: -1 } }).error)
+      .toBe('fusionWeights must map "vector" and "text" to non-negative numbers')
+    expect(parseSearchOptions({ fusionWeights: { vector: 2, text: 1 } }).options?.fusionWeights)
+      .toEqual({ vector: 2, text: 1 })
+  })
+
+  it('rejects non-boolean flags', () => {
+    const body = { includeScores: 'yes' } as unknown as SearchOptions
+
+    expect(parseSearchOptions(body).error).toBe('includeScores must be a boolean')
+  })
+
+  it('passes filter errors through', () => {
+    const body = { filter: [] } as unknown as SearchOptions
+
+    expect(parseSearchOptions(body).error).toBe('filter must be an object')
+  })
+})
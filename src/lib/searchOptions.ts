@@ -0,0 +1,87 @@
+/**
+ * Validation of the search options API requests may set
+ */
+
+import { RerankerRegistry, SearchFilters } from '@/services'
+import type { SearchOptions } from '@/services'
+import type { SearchScope } from '@/services/types'
+
+const SEARCH_SCOPES: SearchScope[] = ['session', 'library']
+const SEARCH_TYPES = ['vector', 'text', 'hybrid']
+const CONTEXT_EXPANSIONS = ['article', 'neighbors', 'none']
+const BOOLEAN_OPTIONS = ['includeScores', 'expandQuery', 'citationLookup', 'diversify'] as const
+const MAX_RESULTS_LIMIT = 50
+
+/**
+ * Check the SearchOptions fields of a request body, keeping only the ones that are set
+ */
+export function parseSearchOptions(body: SearchOptions): { options?: SearchOptions; error?: string } {
+  const options: SearchOptions = {}
+
+  if (body.maxResults !== undefined) {
+    if (!Number.isInteger(body.maxResults) || body.maxResults < 1 || body.maxResults > MAX_RESULTS_LIMIT) {
+      return { error: `maxResults must be an integer between 1 and ${MAX_RESULTS_LIMIT}` }
+    }
+    options.maxResults = body.maxResults
+  }
+  if (body.minScore !== undefined) {
+    if (typeof body.minScore !== 'number') {
+      return { error: 'minScore must be a number' }
+    }
+    options.minScore = body.minScore
+  }
+  if (body.searchType !== undefined) {
+    if (!SEARCH_TYPES.includes(body.searchType)) {
+      return { error: `searchType must be one of: ${SEARCH_TYPES.join(', ')}` }
+    }
+    options.searchType = body.searchType
+  }
+  if (body.scopes !== undefined) {
+    if (!Array.isArray(body.scopes)) {
+      return { error: 'scopes must be an array' }
+    }
+    options.scopes = SEARCH_SCOPES.filter(scope => body.scopes!.includes(scope))
+  }
+  if (body.reranker !== undefined) {
+    const names = RerankerRegistry.getRerankerNames()
+    if (body.reranker !== 'none' && !names.includes(body.reranker)) {
+      return { error: `reranker must be one of: ${[...names, 'none'].join(', ')}` }
+    }
+    options.reranker = body.reranker
+  }
+  if (body.contextExpansion !== undefined) {
+    if (!CONTEXT_EXPANSIONS.includes(body.contextExpansion)) {
+      return { error: `contextExpansion must be one of: ${CONTEXT_EXPANSIONS.join(', ')}` }
+    }
+    options.contextExpansion = body.contextExpansion
+  }
+  if (body.diversityLambda !== undefined) {
+    if (typeof body.diversityLambda !== 'number' || body.diversityLambda < 0 || body.diversityLambda > 1) {
+      return { error: 'diversityLambda must be a number between 0 and 1' }
+    }
+    options.diversityLambda = body.diversityLambda
+  }
+  if (body.fusionWeights !== undefined) {
+    const weights = Object.entries(body.fusionWeights || {})
+    if (weights.some(([retriever, weight]) => !['vector', 'text'].includes(retriever) || typeof weight !== 'number' || weight < 0)) {
+      return { error: 'fusionWeights must map "vector" and "text" to non-negative numbers' }
+    }
+    options.fusionWeights = body.fusionWeights
+  }
+  for (const option of BOOLEAN_OPTIONS) {
+    if (body[option] !== undefined) {
+      if (typeof body[option] !== 'boolean') {
+        return { error: `${option} must be a boolean` }
+      }
+      options[option] = body[option]
+    }
+  }
+
+  const filter = SearchFilters.parse(body.filter)
+  if (!filter.valid) {
+    return { error: filter.error }
+  }
+  options.filter = filter.filter
+
+  return { options }
+}
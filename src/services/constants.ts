@@ -1,4 +1,4 @@
-import { VectorStoreConfig } from './types'
+import { LegalDocumentType, VectorStoreConfig } from './types'
 
 // Processing configuration constants
 export const PROCESSING_CONFIG = {
@@ -57,15 +57,151 @@ export const TIMEOUT_CONFIG = {
 // API configuration
 export const API_CONFIG = {
   OPENAI_MODEL: 'gpt-4o-mini',
+  EMBEDDING_MODEL: 'text-embedding-3-small',
   MAX_TOKENS: 1024,
   MAX_QUESTION_LENGTH: 1000,
   MAX_SEARCH_RESULTS_LENGTH: 8000,
   MAX_RESPONSE_LENGTH: 10000
 } as const
 
+// Offline mode: the mock provider answers extractively and nothing calls out, for development and integration tests
+export const OFFLINE_CONFIG = {
+  ENABLED: process.env.OFFLINE_MODE === 'true',
+  MAX_ANSWER_SENTENCES: 3
+} as const
+
+// Chat and embeddings models; 'openai-compatible' points at a self-hosted server such as vLLM or Ollama
+export const LLM_PROVIDER_CONFIG = {
+  PROVIDER: (OFFLINE_CONFIG.ENABLED ? 'mock' : process.env.LLM_PROVIDER || 'openai') as 'openai' | 'azure' | 'openai-compatible' | 'mock',
+  CHAT_MODEL: process.env.LLM_CHAT_MODEL || API_CONFIG.OPENAI_MODEL,
+  EMBEDDING_MODEL: process.env.LLM_EMBEDDING_MODEL || API_CONFIG.EMBEDDING_MODEL,
+  BASE_URL: process.env.LLM_BASE_URL || '',
+  API_KEY: process.env.LLM_API_KEY || '',
+  AZURE: {
+    API_KEY: process.env.AZURE_OPENAI_API_KEY || '',
+    ENDPOINT: process.env.AZURE_OPENAI_ENDPOINT || '',
+    API_VERSION: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+    CHAT_DEPLOYMENT: process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || '',
+    EMBEDDING_DEPLOYMENT: process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || ''
+  },
+  MOCK_EMBEDDING_DIMENSIONS: 256
+} as const
+
+// Persistence of session vector indexes and the embedding cache
+export const STORAGE_CONFIG = {
+  VECTOR_STORE_BACKEND: (process.env.VECTOR_STORE_BACKEND || 'file') as 'file' | 'memory',
+  EMBEDDING_CACHE: (process.env.EMBEDDING_CACHE || 'file') as 'file' | 'memory' | 'off',
+  DATA_DIR: process.env.PCCC_DATA_DIR || '.pccc-data',
+  VECTOR_INDEX_DIR: 'vector-index',
+  EMBEDDING_CACHE_DIR: 'embedding-cache',
+  // Most recently used vectors kept in memory per model; the file cache holds the rest
+  EMBEDDING_CACHE_MAX_ENTRIES: parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '5000')
+} as const
+
+// BM25 text search
+export const BM25_CONFIG = {
+  K1: 1.2, // Term frequency saturation
+  B: 0.75, // Chunk length normalisation
+  FOLDED_WEIGHT: 0.3 // Weight of diacritic-insensitive matches relative to exact ones
+} as const
+
+// Reciprocal rank fusion of the vector and BM25 retrievers in hybrid search
+export const FUSION_CONFIG = {
+  RRF_K: 60, // Rank offset; larger values flatten the gap between top and lower ranks
+  VECTOR_WEIGHT: parseFloat(process.env.FUSION_VECTOR_WEIGHT || '1'),
+  TEXT_WEIGHT: parseFloat(process.env.FUSION_TEXT_WEIGHT || '1'),
+  CANDIDATE_MULTIPLIER: 3 // Each retriever contributes this many times maxResults candidates
+} as const
+
+// Domain thesaurus used to expand search queries (bundled JSON unless PCCC_THESAURUS_PATH is set)
+export const THESAURUS_CONFIG = {
+  PATH: process.env.PCCC_THESAURUS_PATH || '',
+  MAX_EXPANSION_TERMS: 8
+} as const
+
+// Second-stage reranking of a wider candidate pool before trimming to the final context
+export const RERANK_CONFIG = {
+  RERANKER: (process.env.RERANKER || 'lexical') as 'llm' | 'lexical' | 'none',
+  CANDIDATE_POOL: 30,
+  LLM_PASSAGE_LENGTH: 700, // Characters of each candidate shown to the LLM judge
+  LLM_WEIGHT: 0.8, // Share of the LLM judgement in the final score; the rest is lexical
+  ARTICLE_MATCH_BONUS: 0.2 // Added when the query names the chunk's article ("Điều 15")
+} as const
+
+// Splitting compound questions into sub-queries searched separately
+export const PLANNER_CONFIG = {
+  ENABLED: process.env.QUERY_PLANNER !== 'off',
+  MAX_SUB_QUERIES: 3,
+  RESULTS_PER_SUB_QUERY: 2 // Each sub-query also gets an equal share of the context length
+} as const
+
+// Conversation memory kept per session, so follow-up questions can refer to earlier turns
+export const CONVERSATION_CONFIG = {
+  CONDENSE_ENABLED: process.env.CONDENSE_QUESTIONS !== 'off',
+  MAX_STORED_TURNS: 20,
+  PROMPT_TURNS: 3, // Prior turns shown to the LLM with each question
+  MAX_TURN_ANSWER_LENGTH: 800 // Characters of each prior answer kept in prompts
+} as const
+
+// Post-generation check that figures and references in an answer appear in its context
+export const GROUNDING_CONFIG = {
+  ENABLED: process.env.GROUNDING_CHECK !== 'off'
+} as const
+
+// Max-marginal-relevance reordering, so near-duplicate overlapping chunks do not fill the context
+export const DIVERSITY_CONFIG = {
+  ENABLED: process.env.SEARCH_DIVERSITY !== 'off',
+  LAMBDA: 0.7 // Weight of relevance against similarity to results already picked (1 = relevance only)
+} as const
+
+// Evaluation harness: golden datasets live in DATASET_DIR/<name>/dataset.json with their fixture documents
+export const EVALUATION_CONFIG = {
+  DATASET_DIR: process.env.EVALUATION_DATASET_DIR || 'src/services/evaluation/datasets',
+  DEFAULT_DATASET: 'pccc-golden',
+  FORMAT_VERSION: 1,
+  RECALL_K: 5,
+  MAX_CONFIGURATIONS: 4
+} as const
+
+// Widening each hit with the chunks around it before building the answer context
+export const CONTEXT_CONFIG = {
+  EXPANSION: (process.env.CONTEXT_EXPANSION || 'article') as 'article' | 'neighbors' | 'none',
+  NEIGHBOR_CHUNKS: 1, // Chunks added on each side in 'neighbors' mode
+  MAX_EXPANDED_LENGTH: 2500, // Characters per expanded result, so several still fit in the context
+  MAX_SECTIONS: 5 // Results given to the LLM as answer context
+} as const
+
+// Organisation-wide regulation library, searched alongside each session's own uploads
+export const LIBRARY_CONFIG = {
+  ADMIN_TOKEN: process.env.LIBRARY_ADMIN_TOKEN || '',
+  INDEX_DIR: 'library-index',
+  INDEX_ID: 'library'
+} as const
+
+// How search results are labelled for each knowledge scope
+export const SEARCH_SCOPE_LABELS = {
+  library: 'thư viện chung',
+  session: 'tài liệu của bạn'
+} as const
+
+// Regulation types a search can be filtered by
+export const LEGAL_DOCUMENT_TYPES: LegalDocumentType[] = ['Luật', 'Nghị định', 'Thông tư', 'Quyết định', 'TCVN', 'QCVN']
+
+// OCR fallback for scanned PDFs (requires tesseract with Vietnamese data and poppler's pdftoppm)
+export const OCR_CONFIG = {
+  ENABLED: process.env.OCR_ENABLED !== 'false',
+  LANGUAGE: process.env.OCR_LANGUAGE || 'vie',
+  TESSERACT_PATH: process.env.TESSERACT_PATH || 'tesseract',
+  PDFTOPPM_PATH: process.env.PDFTOPPM_PATH || 'pdftoppm',
+  RENDER_DPI: 300,
+  MIN_PAGE_TEXT_LENGTH: 20, // Pages with less extracted text are treated as scanned images
+  PAGE_TIMEOUT: 60000, // 1 minute per page
+  MIN_SEARCH_WEIGHT: 0.6 // Score multiplier applied to OCR text with zero confidence
+} as const
+
 // External API integration
 export const EXTERNAL_API = {
-  ENABLED: process.env.EXTERNAL_API_ENABLED === 'true',
+  ENABLED: process.env.EXTERNAL_API_ENABLED === 'true' && !OFFLINE_CONFIG.ENABLED,
   BASE_URL: process.env.EXTERNAL_API_BASE_URL || 'http://127.0.0.1:8000',
   PATHS: {
     UPLOAD: '/upload',
@@ -0,0 +1,121 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { EVALUATION_CONFIG } from '../constants'
+import type { EvaluationDataset, EvaluationQuestion } from '../types'
+
+// Dataset names are directory names under DATASET_DIR
+const DATASET_NAME_PATTERN = /^[\w-]+$/
+const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.odp': 'application/vnd.oasis.opendocument.presentation'
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+export class EvaluationDatasets {
+  /**
+   * Read and validate a golden dataset by name
+   */
+  static async load(name: string = EVALUATION_CONFIG.DEFAULT_DATASET): Promise<{ success: boolean; dataset?: EvaluationDataset; error?: string }> {
+    if (!DATASET_NAME_PATTERN.test(name)) {
+      return { success: false, error: `Invalid dataset name "${name}"` }
+    }
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(await readFile(this.datasetFile(name), 'utf8'))
+    } catch (error) {
+      console.error(`Failed to read evaluation dataset ${name}:`, error)
+      return { success: false, error: `Evaluation dataset "${name}" could not be read` }
+    }
+
+    const parsed = this.parse(raw)
+    if (!parsed.valid) {
+      return { success: false, error: `Evaluation dataset "${name}": ${parsed.error}` }
+    }
+    return { success: true, dataset: parsed.dataset }
+  }
+
+  /**
+   * Validate the contents of a dataset file against the supported format version
+   */
+  static parse(input: unknown): { valid: boolean; dataset?: EvaluationDataset; error?: string } {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { valid: false, error: 'dataset must be an object' }
+    }
+    const raw = input as Record<string, unknown>
+
+    if (raw.formatVersion !== EVALUATION_CONFIG.FORMAT_VERSION) {
+      return { valid: false, error: `formatVersion must be ${EVALUATION_CONFIG.FORMAT_VERSION}` }
+    }
+    if (typeof raw.name !== 'string' || typeof raw.version !== 'string') {
+      return { valid: false, error: 'name and version must be strings' }
+    }
+    if (!isStringList(raw.documents) || raw.documents.length === 0) {
+      return { valid: false, error: 'documents must be a non-empty array of file paths' }
+    }
+    const unsupported = raw.documents.find(document => !DOCUMENT_MIME_TYPES[path.extname(document).toLowerCase()])
+    if (unsupported) {
+      return { valid: false, error: `Unsupported fixture document "${unsupported}"` }
+    }
+    if (!Array.isArray(raw.questions) || raw.questions.length === 0) {
+      return { valid: false, error: 'questions must be a non-empty array' }
+    }
+
+    const questions: EvaluationQuestion[] = []
+    const ids = new Set<string>()
+    for (const [index, item] of Array.from(raw.questions.entries())) {
+      const question = item as Record<string, unknown>
+      if (typeof question?.id !== 'string' || typeof question.question !== 'string' || !question.question.trim()) {
+        return { valid: false, error: `questions[${index}] needs an id and a question` }
+      }
+      if (ids.has(question.id)) {
+        return { valid: false, error: `Duplicate question id "${question.id}"` }
+      }
+      if (!isStringList(question.expectedArticles) || !isStringList(question.expectedFacts)) {
+        return { valid: false, error: `questions[${index}].expectedArticles and expectedFacts must be arrays of strings` }
+      }
+      ids.add(question.id)
+      questions.push({
+        id: question.id,
+        question: question.question,
+        expectedArticles: question.expectedArticles,
+        expectedFacts: question.expectedFacts
+      })
+    }
+
+    return {
+      valid: true,
+      dataset: {
+        formatVersion: raw.formatVersion,
+        name: raw.name,
+        version: raw.version,
+        description: typeof raw.description === 'string' ? raw.description : undefined,
+        documents: raw.documents,
+        questions
+      }
+    }
+  }
+
+  /**
+   * Read a dataset's fixture documents as uploads
+   */
+  static async loadDocuments(name: string, dataset: EvaluationDataset): Promise<File[]> {
+    const directory = path.dirname(this.datasetFile(name))
+    return Promise.all(dataset.documents.map(async document => {
+      const buffer = await readFile(path.resolve(directory, document))
+      return new File([buffer], path.basename(document), {
+        type: DOCUMENT_MIME_TYPES[path.extname(document).toLowerCase()]
+      })
+    }))
+  }
+
+  private static datasetFile(name: string): string {
+    return path.resolve(process.cwd(), EVALUATION_CONFIG.DATASET_DIR, name, 'dataset.json')
+  }
+}
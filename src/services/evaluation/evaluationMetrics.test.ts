@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import type { SearchResult } from '../search/searchService'
+import { EvaluationMetrics } from './evaluationMetrics'
+
+function result(articleNumber: string, clauses?: string[]): SearchResult {
+  return { content: `Điều ${articleNumber}`, metadata: { articleNumber, clauses } }
+}
+
+describe('EvaluationMetrics', () => {
+  const references = EvaluationMetrics.parseReferences(['Điều 5', 'khoản 2 Điều 7'])
+
+  it('parses expected articles as citations', () => {
+    expect(references.map(reference => [reference.article, reference.clause])).toEqual([['5', undefined], ['7', '2']])
+  })
+
+  it('measures recall over the first k results only', () => {
+    const results = [result('5'), result('9'), result('7', ['2'])]
+
+    expect(EvaluationMetrics.recallAtK(references, results, 3)).toEqual({ recall: 1, missing: [] })
+    expect(EvaluationMetrics.recallAtK(references, results, 2)).toEqual({ recall: 0.5, missing: ['khoản 2 Điều 7'] })
+    expect(EvaluationMetrics.recallAtK(references, [result('7', ['1'])], 3).recall).toBe(0)
+    expect(EvaluationMetrics.recallAtK([], results, 3)).toEqual({ missing: [] })
+  })
+
+  it('counts cited sections that hold no expected reference, or do not exist, as inaccurate', () => {
+    const context = [result('5'), result('9')]
+
+    expect(EvaluationMetrics.citationAccuracy('Theo quy định [1, 2] và [4].', context, references)).toBeCloseTo(1 / 3)
+    expect(EvaluationMetrics.citationAccuracy('Không có trích dẫn.', context, references)).toBeUndefined()
+    expect(EvaluationMetrics.citationAccuracy('[1]', context, [])).toBeUndefined()
+  })
+
+  it('finds expected facts in the answer whatever the decimal separator, case and spacing', () => {
+    expect(EvaluationMetrics.factCoverage('Chiều rộng tối thiểu  1.2 M, cửa mở ra ngoài.', ['1,2 m', 'hai lối thoát nạn'])).toEqual({
+      coverage: 0.5,
+      missing: ['hai lối thoát nạn']
+    })
+    expect(EvaluationMetrics.factCoverage('Bất kỳ', [])).toEqual({ missing: [] })
+  })
+})
@@ -0,0 +1,84 @@
+import { CitationParser } from '../search/citationParser'
+import { SearchService } from '../search/searchService'
+import type { SearchResult } from '../search/searchService'
+import type { CitationReference } from '../types'
+
+// Citation markers as the answer prompt asks for them: "[2]" or "[1, 3]"
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+
+/**
+ * Lowercase, with decimal commas as points and single spaces, so "1,2 m" matches "1.2  m"
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function holdsReference(result: SearchResult, references: CitationReference[]): boolean {
+  return references.some(reference => SearchService.matchesCitation(result.metadata || {}, reference))
+}
+
+export class EvaluationMetrics {
+  /**
+   * Parse expected article references the way a question citing them would be parsed
+   */
+  static parseReferences(expectedArticles: string[]): CitationReference[] {
+    return expectedArticles.flatMap(article => CitationParser.parse(article))
+  }
+
+  /**
+   * Share of the expected references held by one of the first k search results
+   */
+  static recallAtK(references: CitationReference[], results: SearchResult[], k: number): { recall?: number; missing: string[] } {
+    if (references.length === 0) {
+      return { missing: [] }
+    }
+    const topK = results.slice(0, k)
+    const missing = references
+      .filter(reference => !topK.some(result => holdsReference(result, [reference])))
+      .map(reference => reference.text)
+    return { recall: (references.length - missing.length) / references.length, missing }
+  }
+
+  /**
+   * Share of the sections an answer cites that hold an expected reference. Markers naming a
+   * section that does not exist count as wrong, so this is measured on the answer as generated.
+   */
+  static citationAccuracy(answer: string, contextResults: SearchResult[], references: CitationReference[]): number | undefined {
+    if (references.length === 0) {
+      return undefined
+    }
+    const cited = new Set<number>()
+    for (const match of Array.from(answer.matchAll(MARKER_PATTERN))) {
+      match[1].split(',').forEach(number => cited.add(parseInt(number, 10)))
+    }
+    if (cited.size === 0) {
+      return undefined
+    }
+
+    let accurate = 0
+    cited.forEach(number => {
+      const result = contextResults[number - 1]
+      if (result && holdsReference(result, references)) {
+        accurate++
+      }
+    })
+    return accurate / cited.size
+  }
+
+  /**
+   * Share of the expected facts the answer states
+   */
+  static factCoverage(answer: string, expectedFacts: string[]): { coverage?: number; missing: string[] } {
+    if (expectedFacts.length === 0) {
+      return { missing: [] }
+    }
+    const normalizedAnswer = normalize(answer)
+    const missing = expectedFacts.filter(fact => !normalizedAnswer.includes(normalize(fact)))
+    return { coverage: (expectedFacts.length - missing.length) / expectedFacts.length, missing }
+  }
+}
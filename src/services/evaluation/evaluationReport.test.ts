@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import type { EvaluationQuestionResult, EvaluationReport } from '../types'
+import { EvaluationReports } from './evaluationReport'
+
+function questionResult(id: string, scores: Partial<EvaluationQuestionResult>): EvaluationQuestionResult {
+  return { id, question: id, retrievedArticles: [], missingArticles: [], missingFacts: [], durationMs: 1, ...scores }
+}
+
+function report(name: string, results: EvaluationQuestionResult[], overrides: Partial<EvaluationReport> = {}): EvaluationReport {
+  return {
+    dataset: { name: 'pccc-golden', version: '1' },
+    configuration: { name },
+    provider: 'mock',
+    k: 5,
+    startedAt: '2024-01-01T00:00:00.000Z',
+    durationMs: 10,
+    summary: EvaluationReports.summarize(results),
+    results,
+    ...overrides
+  }
+}
+
+describe('EvaluationReports.summarize', () => {
+  it('averages each metric over the questions it applies to and counts failures', () => {
+    expect(EvaluationReports.summarize([
+      questionResult('q1', { recallAtK: 1, citationAccuracy: 0.5 }),
+      questionResult('q2', { recallAtK: 0.5 }),
+      questionResult('q3', { error: 'timeout' })
+    ])).toEqual({ questions: 3, failed: 1, recallAtK: 0.75, citationAccuracy: 0.5, factCoverage: undefined })
+  })
+})
+
+describe('EvaluationReports.compare', () => {
+  const baseline = report('baseline', [questionResult('q1', { recallAtK: 0.5 }), questionResult('q2', { recallAtK: 1 })])
+  const candidate = report('rerank', [questionResult('q1', { recallAtK: 1 }), questionResult('q2', { recallAtK: 1 })])
+
+  it('reports metric deltas and the questions whose score changed', () => {
+    const { success, comparison } = EvaluationReports.compare(baseline, candidate)
+
+    expect(success).toBe(true)
+    expect(comparison?.metrics[0]).toEqual({ metric: 'recallAtK', baseline: 0.75, candidate: 1, delta: 0.25 })
+    expect(comparison?.changes).toEqual([{ id: 'q1', metric: 'recallAtK', baseline: 0.5, candidate: 1 }])
+    expect(EvaluationReports.formatComparison(comparison!)).toContain('| Recall@k | 0.750 | 1.000 | +0.250 |')
+  })
+
+  it('rejects reports for another dataset version, depth or provider', () => {
+    expect(EvaluationReports.compare(baseline, { ...candidate, dataset: { name: 'pccc-golden', version: '2' } }).error)
+      .toMatch(/^Reports are for different datasets/)
+    expect(EvaluationReports.compare(baseline, { ...candidate, k: 10 }).error).toBe('Reports score recall at different depths: k=5 and k=10')
+    expect(EvaluationReports.compare(baseline, { ...candidate, provider: 'openai' }).error)
+      .toBe('Reports were run with different providers: mock and openai')
+  })
+
+  it('says so when no question changed', () => {
+    const { comparison } = EvaluationReports.compare(baseline, report('same', baseline.results))
+
+    expect(EvaluationReports.formatComparison(comparison!)).toContain('No question changed score.')
+  })
+})
@@ -0,0 +1,120 @@
+import type {
+  EvaluationComparison,
+  EvaluationMetric,
+  EvaluationQuestionResult,
+  EvaluationReport,
+  EvaluationSummary
+} from '../types'
+
+const METRICS: EvaluationMetric[] = ['recallAtK', 'citationAccuracy', 'factCoverage']
+const METRIC_LABELS: Record<EvaluationMetric, string> = {
+  recallAtK: 'Recall@k',
+  citationAccuracy: 'Citation accuracy',
+  factCoverage: 'Fact coverage'
+}
+
+function mean(values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((value): value is number => value !== undefined)
+  return defined.length > 0 ? defined.reduce((sum, value) => sum + value, 0) / defined.length : undefined
+}
+
+function formatScore(value?: number): string {
+  return value === undefined ? '-' : value.toFixed(3)
+}
+
+function formatDelta(value?: number): string {
+  return value === undefined ? '-' : `${value >= 0 ? '+' : ''}${value.toFixed(3)}`
+}
+
+export class EvaluationReports {
+  /**
+   * Average each metric over the questions it applies to
+   */
+  static summarize(results: EvaluationQuestionResult[]): EvaluationSummary {
+    return {
+      questions: results.length,
+      failed: results.filter(result => result.error).length,
+      recallAtK: mean(results.map(result => result.recallAtK)),
+      citationAccuracy: mean(results.map(result => result.citationAccuracy)),
+      factCoverage: mean(results.map(result => result.factCoverage))
+    }
+  }
+
+  /**
+   * Compare a candidate configuration's report with a baseline's, metric by metric and question by question
+   */
+  static compare(baseline: EvaluationReport, candidate: EvaluationReport): { success: boolean; comparison?: EvaluationComparison; error?: string } {
+    if (baseline.dataset.name !== candidate.dataset.name || baseline.dataset.version !== candidate.dataset.version) {
+      return {
+        success: false,
+        error: `Reports are for different datasets: ${baseline.dataset.name} ${baseline.dataset.version} and ${candidate.dataset.name} ${candidate.dataset.version}`
+      }
+    }
+    // Recall at a different depth, or answers from another model, would show up as score changes
+    if (baseline.k !== candidate.k) {
+      return { success: false, error: `Reports score recall at different depths: k=${baseline.k} and k=${candidate.k}` }
+    }
+    if (baseline.provider !== candidate.provider) {
+      return { success: false, error: `Reports were run with different providers: ${baseline.provider} and ${candidate.provider}` }
+    }
+
+    const metrics = METRICS.map(metric => {
+      const baselineValue = baseline.summary[metric]
+      const candidateValue = candidate.summary[metric]
+      return {
+        metric,
+        baseline: baselineValue,
+        candidate: candidateValue,
+        delta: baselineValue !== undefined && candidateValue !== undefined ? candidateValue - baselineValue : undefined
+      }
+    })
+
+    const baselineResults = new Map(baseline.results.map(result => [result.id, result]))
+    const changes: EvaluationComparison['changes'] = []
+    for (const result of candidate.results) {
+      const previous = baselineResults.get(result.id)
+      for (const metric of METRICS) {
+        if (previous?.[metric] !== result[metric]) {
+          changes.push({ id: result.id, metric, baseline: previous?.[metric], candidate: result[metric] })
+        }
+      }
+    }
+
+    return {
+      success: true,
+      comparison: {
+        dataset: baseline.dataset,
+        baseline: baseline.configuration.name,
+        candidate: candidate.configuration.name,
+        metrics,
+        changes
+      }
+    }
+  }
+
+  /**
+   * Markdown summary of a comparison, for pasting into a pull request
+   */
+  static formatComparison(comparison: EvaluationComparison): string {
+    const lines = [
+      `## ${comparison.dataset.name} ${comparison.dataset.version}: ${comparison.baseline} → ${comparison.candidate}`,
+      '',
+      `| Metric | ${comparison.baseline} | ${comparison.candidate} | Δ |`,
+      '| --- | --- | --- | --- |',
+      ...comparison.metrics.map(({ metric, baseline, candidate, delta }) =>
+        `| ${METRIC_LABELS[metric]} | ${formatScore(baseline)} | ${formatScore(candidate)} | ${formatDelta(delta)} |`
+      )
+    ]
+
+    if (comparison.changes.length > 0) {
+      lines.push('', '| Question | Metric | Before | After |', '| --- | --- | --- | --- |')
+      for (const change of comparison.changes) {
+        lines.push(`| ${change.id} | ${METRIC_LABELS[change.metric]} | ${formatScore(change.baseline)} | ${formatScore(change.candidate)} |`)
+      }
+    } else {
+      lines.push('', 'No question changed score.')
+    }
+
+    return lines.join('\n')
+  }
+}
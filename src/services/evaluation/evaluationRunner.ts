@@ -0,0 +1,161 @@
+import { PdfProcessingService } from '../pdfProcessingService'
+import { SessionService } from '../session/sessionService'
+import { LLMService } from '../llm/llmService'
+import { AnswerCitations } from '../llm/answerCitations'
+import { LLMProviderRegistry } from '../llm/providers/providerRegistry'
+import { SearchService } from '../search/searchService'
+import type { SearchResult } from '../search/searchService'
+import { EVALUATION_CONFIG, PROCESSING_CONFIG } from '../constants'
+import type {
+  EvaluationConfiguration,
+  EvaluationDataset,
+  EvaluationQuestion,
+  EvaluationQuestionResult,
+  EvaluationReport
+} from '../types'
+import { EvaluationMetrics } from './evaluationMetrics'
+import { EvaluationReports } from './evaluationReport'
+
+export class EvaluationRunner {
+  /**
+   * Run a dataset through the RAG pipeline with one configuration: ingest the fixture documents
+   * into a fresh session, answer every question and score retrieval, citations and facts.
+   * The session is deleted afterwards.
+   */
+  static async run(
+    dataset: EvaluationDataset,
+    documents: File[],
+    configuration: EvaluationConfiguration,
+    k: number = EVALUATION_CONFIG.RECALL_K
+  ): Promise<{ success: boolean; report?: EvaluationReport; error?: string }> {
+    const startedAt = new Date()
+    const sessionId = PdfProcessingService.createOrRetrieveUserSession()
+    console.log(`Evaluating ${dataset.name} ${dataset.version} with configuration "${configuration.name}"`)
+
+    try {
+      for (const document of documents) {
+        const upload = await PdfProcessingService.processPDF(document, sessionId, {
+          chunkSize: configuration.chunkSize,
+          chunkOverlap: configuration.chunkOverlap
+        })
+        if (!upload.success) {
+          return { success: false, error: `Fixture ${document.name} could not be ingested: ${upload.error}` }
+        }
+      }
+
+      // Questions are answered one at a time, so runs are reproducible and do not compete for rate limits
+      const results: EvaluationQuestionResult[] = []
+      for (const question of dataset.questions) {
+        results.push(await this.evaluateQuestion(question, sessionId, configuration, k))
+      }
+
+      const report: EvaluationReport = {
+        dataset: { name: dataset.name, version: dataset.version },
+        configuration,
+        provider: LLMProviderRegistry.getProvider().name,
+        k,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        summary: EvaluationReports.summarize(results),
+        results
+      }
+      console.log(`Evaluation "${configuration.name}" finished in ${report.durationMs}ms`)
+      return { success: true, report }
+
+    } catch (error) {
+      console.error(`Evaluation "${configuration.name}" failed:`, error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown evaluation error'
+      }
+    } finally {
+      SessionService.deleteSession(sessionId)
+    }
+  }
+
+  /**
+   * Answer one golden question and score it; failures are recorded on the result
+   */
+  private static async evaluateQuestion(
+    question: EvaluationQuestion,
+    sessionId: string,
+    configuration: EvaluationConfiguration,
+    k: number
+  ): Promise<EvaluationQuestionResult> {
+    const startTime = Date.now()
+    const references = EvaluationMetrics.parseReferences(question.expectedArticles)
+    const failed = (error: string): EvaluationQuestionResult => ({
+      id: question.id,
+      question: question.question,
+      retrievedArticles: [],
+      missingArticles: references.map(reference => reference.text),
+      missingFacts: question.expectedFacts,
+      durationMs: Date.now() - startTime,
+      error
+    })
+
+    const retrieval = await PdfProcessingService.retrieveAnswerContext(question.question, sessionId, {
+      scopes: ['session'],
+      search: configuration.search
+    })
+    if (!retrieval.success) {
+      return failed(retrieval.error || 'Retrieval failed')
+    }
+
+    const sources = retrieval.sources || []
+    let answer = retrieval.answer
+    if (answer === undefined) {
+      const llmResult = await LLMService.generateResponse(retrieval.question!, retrieval.context!, retrieval.subQueries)
+      if (!llmResult.success || !llmResult.response) {
+        return failed(llmResult.error || 'Answer generation failed')
+      }
+      answer = llmResult.response
+    }
+
+    // The answer context is capped below k, so recall is scored on a search that ranks at least k results
+    const ranking = await this.rankForRecall(retrieval.question || question.question, sessionId, configuration, k)
+    if (!ranking.success) {
+      return failed(ranking.error || 'Retrieval failed')
+    }
+
+    // Citations are scored on the answer as generated, before invalid markers are removed
+    const recall = EvaluationMetrics.recallAtK(references, ranking.results, k)
+    const facts = EvaluationMetrics.factCoverage(answer, question.expectedFacts)
+    return {
+      id: question.id,
+      question: question.question,
+      answer: AnswerCitations.resolve(answer, sources).answer,
+      retrievedArticles: ranking.results
+        .slice(0, k)
+        .map(result => typeof result.metadata?.structurePath === 'string' ? result.metadata.structurePath : result.source || ''),
+      recallAtK: recall.recall,
+      citationAccuracy: EvaluationMetrics.citationAccuracy(answer, sources, references),
+      factCoverage: facts.coverage,
+      missingArticles: recall.missing,
+      missingFacts: facts.missing,
+      durationMs: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Search the session for the standalone question with the configuration's options, retrieving at least k results
+   */
+  private static async rankForRecall(
+    question: string,
+    sessionId: string,
+    configuration: EvaluationConfiguration,
+    k: number
+  ): Promise<{ success: boolean; results: SearchResult[]; error?: string }> {
+    const session = SessionService.getSession(sessionId)
+    if (!session?.vectorstore) {
+      return { success: false, results: [], error: 'Evaluation session has no vector store' }
+    }
+
+    const search = await SearchService.smartSearch(session.vectorstore, session.documents, question, {
+      ...configuration.search,
+      maxResults: Math.max(k, configuration.search?.maxResults ?? PROCESSING_CONFIG.MAX_SEARCH_RESULTS),
+      scopes: ['session']
+    })
+    return { success: search.success, results: search.results, error: search.error }
+  }
+}
@@ -0,0 +1,11 @@
+import type { DocumentFormat, ExtractedDocument } from '../types'
+
+/**
+ * Common interface implemented by every format extractor
+ */
+export interface DocumentExtractor {
+  format: DocumentFormat
+  extensions: string[]
+  mimeTypes: string[]
+  extract(buffer: ArrayBuffer, fileName: string): Promise<ExtractedDocument>
+}
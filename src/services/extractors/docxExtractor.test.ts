@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import { docxExtractor } from './docxExtractor'
+
+function paragraph(content: string, style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''
+  return `<w:p>${properties}<w:r>${content}</w:r></w:p>`
+}
+
+async function buildDocx(paragraphs: string[], title?: string): Promise<ArrayBuffer> {
+  const zip = new JSZip()
+  zip.file('word/document.xml', `<w:document xmlns:w="w"><w:body>${paragraphs.join('')}</w:body></w:document>`)
+  if (title !== undefined) {
+    zip.file('docProps/core.xml', `<cp:coreProperties xmlns:cp="cp" xmlns:dc="dc"><dc:title>${title}</dc:title></cp:coreProperties>`)
+  }
+  return zip.generateAsync({ type: 'arraybuffer' })
+}
+
+describe('docxExtractor', () => {
+  it('reads paragraphs as lines, keeping tabs, line breaks and escaped characters', async () => {
+    const buffer = await buildDocx([
+      paragraph('<w:t>Điều 5. Lối thoát nạn</w:t>', 'Heading2'),
+      paragraph('<w:t xml:space="preserve">1. Chiều rộng </w:t><w:t>&gt;= 1,2 m</w:t><w:br/><w:t>2. Cửa</w:t><w:tab/><w:t>mở ra ngoài</w:t>'),
+      paragraph('')
+    ])
+
+    const extracted = await docxExtractor.extract(buffer, 'quy-chuan.docx')
+
+    expect(extracted.pages).toEqual([{ pageNumber: 1, text: 'Điều 5. Lối thoát nạn\n1. Chiều rộng >= 1,2 m\n2. Cửa mở ra ngoài' }])
+    expect(extracted.metadata).toEqual({ title: 'Điều 5. Lối thoát nạn', headings: ['Điều 5. Lối thoát nạn'] })
+  })
+
+  it('prefers the document title from the core properties', async () => {
+    const buffer = await buildDocx([paragraph('<w:t>Nội dung</w:t>', 'Title')], 'QCVN 06:2022/BXD')
+
+    const extracted = await docxExtractor.extract(buffer, 'quy-chuan.docx')
+
+    expect(extracted.metadata?.title).toBe('QCVN 06:2022/BXD')
+  })
+
+  it('rejects files without a document part or without text', async () => {
+    const empty = new JSZip()
+    empty.file('docProps/core.xml', '<cp:coreProperties/>')
+
+    await expect(docxExtractor.extract(await empty.generateAsync({ type: 'arraybuffer' }), 'a.docx'))
+      .rejects.toThrow('DOCX file has no word/document.xml part')
+    await expect(docxExtractor.extract(await buildDocx([paragraph('<w:t> </w:t>')]), 'b.docx'))
+      .rejects.toThrow('DOCX file contains no text')
+  })
+})
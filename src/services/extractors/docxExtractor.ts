@@ -0,0 +1,64 @@
+import type { DocumentExtractor } from './documentExtractor'
+import type { ExtractedDocument } from '../types'
+import { loadZip, readZipEntry, findElements, stripXmlTags, joinLines } from './xmlText'
+
+const HEADING_STYLE_PATTERN = /<w:pStyle\s+w:val="(Title|Heading\d*|Tieude\d*)"/i
+const RUN_CONTENT_PATTERN = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>/g
+
+/**
+ * Text of one Word paragraph, keeping tabs and manual line breaks
+ */
+function paragraphText(paragraphXml: string): string {
+  return Array.from(paragraphXml.matchAll(RUN_CONTENT_PATTERN), match => {
+    if (match[1] !== undefined) {
+      return stripXmlTags(match[1])
+    }
+    return match[0].startsWith('<w:tab') ? '\t' : '\n'
+  }).join('')
+}
+
+export const docxExtractor: DocumentExtractor = {
+  format: 'docx',
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+
+  async extract(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+    const zip = await loadZip(buffer)
+    const documentXml = await readZipEntry(zip, 'word/document.xml')
+    if (!documentXml) {
+      throw new Error('DOCX file has no word/document.xml part')
+    }
+
+    const lines: string[] = []
+    const headings: string[] = []
+
+    for (const paragraph of findElements(documentXml, 'w:p')) {
+      const text = paragraphText(paragraph).trim()
+      if (!text) {
+        continue
+      }
+      if (HEADING_STYLE_PATTERN.test(paragraph)) {
+        headings.push(text)
+      }
+      lines.push(text)
+    }
+
+    const text = joinLines(lines)
+    if (!text) {
+      throw new Error('DOCX file contains no text')
+    }
+
+    const coreXml = await readZipEntry(zip, 'docProps/core.xml')
+    const titleMatch = coreXml?.match(/<dc:title>([\s\S]*?)<\/dc:title>/)
+
+    return {
+      format: 'docx',
+      pageUnit: 'none',
+      pages: [{ pageNumber: 1, text }],
+      metadata: {
+        title: titleMatch ? stripXmlTags(titleMatch[1]).trim() || undefined : headings[0],
+        headings
+      }
+    }
+  }
+}
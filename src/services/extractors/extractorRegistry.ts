@@ -0,0 +1,80 @@
+import type { DocumentExtractor } from './documentExtractor'
+import type { ExtractedDocument } from '../types'
+import { pdfExtractor } from './pdfExtractor'
+import { docxExtractor } from './docxExtractor'
+import { pptxExtractor } from './pptxExtractor'
+import { odtExtractor, odpExtractor } from './openDocumentExtractor'
+
+const EXTRACTORS: DocumentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  pptxExtractor,
+  odtExtractor,
+  odpExtractor
+]
+
+// Legacy binary Office formats that have to be converted before upload
+const LEGACY_EXTENSIONS: Record<string, string> = {
+  '.doc': '.docx',
+  '.ppt': '.pptx'
+}
+
+export class DocumentExtractorRegistry {
+  /**
+   * Find the extractor for a file, by extension first and MIME type second
+   */
+  static getExtractor(fileName: string, mimeType?: string): DocumentExtractor | null {
+    const extension = this.getExtension(fileName)
+    const byExtension = EXTRACTORS.find(extractor => extractor.extensions.includes(extension))
+    if (byExtension) {
+      return byExtension
+    }
+    return mimeType
+      ? EXTRACTORS.find(extractor => extractor.mimeTypes.includes(mimeType)) || null
+      : null
+  }
+
+  /**
+   * Check whether a file can be ingested locally
+   */
+  static isSupported(fileName: string, mimeType?: string): boolean {
+    return this.getExtractor(fileName, mimeType) !== null
+  }
+
+  /**
+   * Extensions supported by the local pipeline
+   */
+  static getSupportedExtensions(): string[] {
+    return EXTRACTORS.flatMap(extractor => extractor.extensions)
+  }
+
+  /**
+   * Explain why a file cannot be ingested
+   */
+  static getUnsupportedReason(fileName: string): string {
+    const extension = this.getExtension(fileName)
+    const replacement = LEGACY_EXTENSIONS[extension]
+    if (replacement) {
+      return `Legacy ${extension} files are not supported. Please save the file as ${replacement} and upload it again.`
+    }
+    return `Unsupported file type. Supported formats: ${this.getSupportedExtensions().join(', ')}.`
+  }
+
+  /**
+   * Extract text and structure from a file with the matching extractor
+   */
+  static async extract(buffer: ArrayBuffer, fileName: string, mimeType?: string): Promise<ExtractedDocument> {
+    const extractor = this.getExtractor(fileName, mimeType)
+    if (!extractor) {
+      throw new Error(this.getUnsupportedReason(fileName))
+    }
+
+    console.log(`Extracting ${fileName} with ${extractor.format} extractor`)
+    return extractor.extract(buffer, fileName)
+  }
+
+  private static getExtension(fileName: string): string {
+    const dotIndex = fileName.lastIndexOf('.')
+    return dotIndex === -1 ? '' : fileName.slice(dotIndex).toLowerCase()
+  }
+}
@@ -0,0 +1,104 @@
+import type { DocumentExtractor } from './documentExtractor'
+import type { ExtractedDocument, ExtractedPage } from '../types'
+import { loadZip, readZipEntry, findElements, stripXmlTags, joinLines } from './xmlText'
+
+const PARAGRAPH_PATTERN = /<text:(p|h)(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/text:\1>)/g
+const TITLE_FRAME_PATTERN = /<draw:frame\s[^>]*presentation:class="title"/
+
+/**
+ * Read content.xml, the part holding the body of every OpenDocument file
+ */
+async function readContent(buffer: ArrayBuffer, format: string): Promise<string> {
+  const zip = await loadZip(buffer)
+  const contentXml = await readZipEntry(zip, 'content.xml')
+  if (!contentXml) {
+    throw new Error(`${format.toUpperCase()} file has no content.xml part`)
+  }
+  return contentXml
+}
+
+/**
+ * Text of OpenDocument paragraphs and headings, expanding spacing and break elements
+ */
+function paragraphs(xml: string): Array<{ text: string; isHeading: boolean }> {
+  return Array.from(xml.matchAll(PARAGRAPH_PATTERN), match => {
+    const body = (match[2] || '')
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count?: string) => ' '.repeat(count ? parseInt(count, 10) : 1))
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+    return { text: stripXmlTags(body).trim(), isHeading: match[1] === 'h' }
+  }).filter(paragraph => paragraph.text)
+}
+
+export const odtExtractor: DocumentExtractor = {
+  format: 'odt',
+  extensions: ['.odt'],
+  mimeTypes: ['application/vnd.oasis.opendocument.text'],
+
+  async extract(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+    const contentXml = await readContent(buffer, 'odt')
+    const items = paragraphs(contentXml)
+    const text = joinLines(items.map(item => item.text))
+    if (!text) {
+      throw new Error('ODT file contains no text')
+    }
+
+    const headings = items.filter(item => item.isHeading).map(item => item.text)
+
+    return {
+      format: 'odt',
+      pageUnit: 'none',
+      pages: [{ pageNumber: 1, text }],
+      metadata: {
+        title: headings[0],
+        headings
+      }
+    }
+  }
+}
+
+export const odpExtractor: DocumentExtractor = {
+  format: 'odp',
+  extensions: ['.odp'],
+  mimeTypes: ['application/vnd.oasis.opendocument.presentation'],
+
+  async extract(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+    const contentXml = await readContent(buffer, 'odp')
+    const slides = findElements(contentXml, 'draw:page')
+    if (slides.length === 0) {
+      throw new Error('ODP file contains no slides')
+    }
+
+    const headings: string[] = []
+    const pages: ExtractedPage[] = slides.map((slideXml, index) => {
+      let title: string | undefined
+      const lines: string[] = []
+      for (const frame of findElements(slideXml, 'draw:frame')) {
+        const text = joinLines(paragraphs(frame).map(item => item.text))
+        if (!text) {
+          continue
+        }
+        if (!title && TITLE_FRAME_PATTERN.test(frame)) {
+          title = text.replace(/\n/g, ' ')
+          headings.push(title)
+        }
+        lines.push(text)
+      }
+      return { pageNumber: index + 1, text: joinLines(lines), title }
+    })
+
+    if (pages.every(page => !page.text)) {
+      throw new Error('ODP file contains no text')
+    }
+
+    return {
+      format: 'odp',
+      pageUnit: 'slide',
+      pages,
+      metadata: {
+        title: headings[0],
+        headings
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { OCRService } from '../ocr/ocrService'
+import { pdfExtractor } from './pdfExtractor'
+
+/**
+ * A PDF whose pages show the given lines of text; an empty list makes a page without a text layer
+ */
+function buildPdf(pages: string[][]): ArrayBuffer {
+  const objects: string[] = []
+  const pageIds = pages.map((_, index) => 4 + index * 2)
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  pages.forEach((lines, index) => {
+    const stream = lines.map((line, row) => `BT /F1 12 Tf 72 ${720 - row * 20} Td (${line}) Tj ET`).join('\n')
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    objects[pageIds[index] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+  })
+
+  // pdf.js misreads buffers small enough for Node's shared pool (under 4 KB), so pad with a comment
+  let pdf = `%PDF-1.4\n%${' '.repeat(4096)}\n`
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  pdf += offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  const bytes = new TextEncoder().encode(pdf)
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+}
+
+describe('pdfExtractor', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the text of each page apart, one line per text row', async () => {
+    vi.spyOn(OCRService, 'isAvailable').mockResolvedValue(false)
+
+    const extracted = await pdfExtractor.extract(buildPdf([
+      ['Dieu 1. Pham vi dieu chinh', 'Quy chuan nay quy dinh ve an toan chay.'],
+      ['Dieu 2. Doi tuong ap dung cua quy chuan nay.']
+    ]), 'qcvn.pdf')
+
+    expect(extracted.pages).toEqual([
+      { pageNumber: 1, text: 'Dieu 1. Pham vi dieu chinh\nQuy chuan nay quy dinh ve an toan chay.' },
+      { pageNumber: 2, text: 'Dieu 2. Doi tuong ap dung cua quy chuan nay.' }
+    ])
+  })
+
+  it('recognises pages without a text layer with OCR and records its confidence', async () => {
+    vi.spyOn(OCRService, 'isAvailable').mockResolvedValue(true)
+    const recognize = vi.spyOn(OCRService, 'recognizePdfPages')
+      .mockResolvedValue([{ pageNumber: 2, text: 'Điều 2. Đối tượng áp dụng của quy chuẩn này.', confidence: 0.87 }])
+
+    const extracted = await pdfExtractor.extract(buildPdf([
+      ['Dieu 1. Pham vi dieu chinh cua quy chuan nay.'],
+      []
+    ]), 'qcvn.pdf')
+
+    expect(recognize).toHaveBeenCalledWith(expect.any(ArrayBuffer), [2])
+    expect(extracted.pages[0].ocrConfidence).toBeUndefined()
+    expect(extracted.pages[1]).toEqual({ pageNumber: 2, text: 'Điều 2. Đối tượng áp dụng của quy chuẩn này.', ocrConfidence: 0.87 })
+  })
+
+  it('fails on a PDF with no text when OCR is not available', async () => {
+    vi.spyOn(OCRService, 'isAvailable').mockResolvedValue(false)
+
+    await expect(pdfExtractor.extract(buildPdf([[]]), 'scan.pdf')).rejects.toThrow(/contains only images/)
+  })
+})
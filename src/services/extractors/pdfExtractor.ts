@@ -0,0 +1,116 @@
+import pdfParse from 'pdf-parse'
+import type { DocumentExtractor } from './documentExtractor'
+import type { ExtractedDocument, ExtractedPage } from '../types'
+import { OCR_CONFIG } from '../constants'
+import { OCRService } from '../ocr/ocrService'
+
+// Minimal shape of the pdf.js page object handed to pdf-parse's render callback
+interface PdfPageData {
+  pageIndex: number
+  getTextContent(options: {
+    normalizeWhitespace: boolean
+    disableCombineTextItems: boolean
+  }): Promise<{ items: Array<{ str: string; transform: number[] }> }>
+}
+
+/**
+ * Render the text content of a single page, keeping line breaks between text rows
+ */
+async function renderPageText(pageData: PdfPageData): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  })
+
+  let lastY: number | undefined
+  let text = ''
+  for (const item of textContent.items) {
+    const y = item.transform[5]
+    text += lastY === undefined || lastY === y ? item.str : '\n' + item.str
+    lastY = y
+  }
+
+  return text.normalize('NFC')
+}
+
+/**
+ * Replace the text of pages without a text layer by OCR output, when an OCR engine is installed
+ */
+async function applyOcrFallback(buffer: ArrayBuffer, pages: ExtractedPage[]): Promise<void> {
+  const scannedPages = pages.filter(page => page.text.trim().length < OCR_CONFIG.MIN_PAGE_TEXT_LENGTH)
+  if (scannedPages.length === 0) {
+    return
+  }
+
+  if (!await OCRService.isAvailable()) {
+    console.warn(`${scannedPages.length} pages have no text layer and OCR is not available`)
+    return
+  }
+
+  console.log(`Running OCR on ${scannedPages.length} pages without a text layer`)
+  const results = await OCRService.recognizePdfPages(buffer, scannedPages.map(page => page.pageNumber))
+
+  for (const result of results) {
+    const page = pages.find(candidate => candidate.pageNumber === result.pageNumber)
+    if (page && result.text.trim().length > page.text.trim().length) {
+      page.text = result.text
+      page.ocrConfidence = result.confidence
+    }
+  }
+}
+
+export const pdfExtractor: DocumentExtractor = {
+  format: 'pdf',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+
+  async extract(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+    console.log('Starting PDF text extraction...')
+
+    // Collect text page by page through the render callback
+    // pdf.js may take ownership of the data it is given, so keep the original buffer for OCR
+    const renderedText = new Map<number, string>()
+    const data = await pdfParse(Buffer.from(buffer.slice(0)), {
+      pagerender: async (pageData: PdfPageData) => {
+        const text = await renderPageText(pageData)
+        renderedText.set(pageData.pageIndex + 1, text)
+        return text
+      }
+    })
+
+    if (!data || data.numpages === 0) {
+      throw new Error('No text could be extracted from the PDF')
+    }
+
+    // Pages that failed to render are kept empty so OCR can still pick them up
+    const pages: ExtractedPage[] = Array.from({ length: data.numpages }, (_, index) => ({
+      pageNumber: index + 1,
+      text: renderedText.get(index + 1) || ''
+    }))
+
+    await applyOcrFallback(buffer, pages)
+
+    const totalLength = pages.reduce((sum, page) => sum + page.text.trim().length, 0)
+
+    if (totalLength === 0) {
+      throw new Error(
+        OCR_CONFIG.ENABLED
+          ? 'PDF appears to be empty or contains only images, and OCR could not recognise any text (is tesseract with Vietnamese data installed?)'
+          : 'PDF appears to be empty or contains only images'
+      )
+    }
+
+    const ocrPageCount = pages.filter(page => page.ocrConfidence !== undefined).length
+    console.log(`Total extracted text length: ${totalLength} characters from ${data.numpages} pages (${ocrPageCount} via OCR)`)
+
+    return {
+      format: 'pdf',
+      pageUnit: 'page',
+      pages,
+      metadata: {
+        title: typeof data.info?.Title === 'string' && data.info.Title.trim() ? data.info.Title.trim() : undefined,
+        headings: []
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import { pptxExtractor } from './pptxExtractor'
+
+function slideXml(title: string, body: string): string {
+  return `<p:sld xmlns:a="a" xmlns:p="p"><p:cSld><p:spTree>` +
+    `<p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>` +
+    `<p:sp><p:txBody><a:p><a:r><a:t>${body}</a:t></a:r></a:p></p:txBody></p:sp>` +
+    `</p:spTree></p:cSld></p:sld>`
+}
+
+async function buildPptx(slides: Array<[string, string]>, order?: number[]): Promise<ArrayBuffer> {
+  const zip = new JSZip()
+  slides.forEach(([title, body], index) => zip.file(`ppt/slides/slide${index + 1}.xml`, slideXml(title, body)))
+  if (order) {
+    zip.file('ppt/presentation.xml',
+      `<p:presentation xmlns:p="p" xmlns:r="r"><p:sldIdLst>` +
+      order.map((slide, index) => `<p:sldId id="${256 + index}" r:id="rId${slide + 10}"/>`).join('') +
+      `</p:sldIdLst></p:presentation>`)
+    zip.file('ppt/_rels/presentation.xml.rels',
+      `<?xml version="1.0"?><Relationships xmlns="rels">` +
+      `<Relationship Id="rId1" Type="slideMaster" Target="slideMasters/slideMaster1.xml"/>` +
+      slides.map((_, index) => `<Relationship Id="rId${index + 11}" Type="slide" Target="slides/slide${index + 1}.xml"/>`).join('') +
+      `</Relationships>`)
+  }
+  return zip.generateAsync({ type: 'arraybuffer' })
+}
+
+describe('pptxExtractor', () => {
+  it('reads slides in the order of the presentation slide list', async () => {
+    const buffer = await buildPptx([['Lối thoát nạn', 'Chiều rộng 1,2 m'], ['Giới thiệu', 'Nội dung chính']], [2, 1])
+
+    const document = await pptxExtractor.extract(buffer, 'slides.pptx')
+
+    expect(document.pages.map(page => [page.pageNumber, page.title])).toEqual([[1, 'Giới thiệu'], [2, 'Lối thoát nạn']])
+    expect(document.metadata.title).toBe('Giới thiệu')
+  })
+
+  it('falls back to part numbers without a presentation part', async () => {
+    const buffer = await buildPptx([['Một', 'a'], ['Hai', 'b']])
+
+    const document = await pptxExtractor.extract(buffer, 'slides.pptx')
+
+    expect(document.pages.map(page => page.title)).toEqual(['Một', 'Hai'])
+    expect(document.pages[0].text).toBe('Một\na')
+  })
+})
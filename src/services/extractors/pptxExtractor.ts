@@ -0,0 +1,110 @@
+import type JSZip from 'jszip'
+import type { DocumentExtractor } from './documentExtractor'
+import type { ExtractedDocument, ExtractedPage } from '../types'
+import { loadZip, readZipEntry, findElements, stripXmlTags, joinLines } from './xmlText'
+
+const SLIDE_PATH_PATTERN = /^ppt\/slides\/slide(\d+)\.xml$/
+const TITLE_PLACEHOLDER_PATTERN = /<p:ph\s[^>]*type="(title|ctrTitle)"/
+const RELATIONSHIP_ID_PATTERN = /\sr:id="([^"]+)"/
+const ATTRIBUTE_PATTERN = /\s(Id|Target)="([^"]*)"/g
+
+/**
+ * Slide parts in presentation order. The order is the slide list of ppt/presentation.xml, whose
+ * relationship IDs resolve to parts through presentation.xml.rels; part numbers keep the order
+ * slides were created in, which no longer holds once they are reordered.
+ */
+async function slidePathsInOrder(zip: JSZip): Promise<string[]> {
+  const slideParts = Object.keys(zip.files)
+    .map(path => ({ path, match: path.match(SLIDE_PATH_PATTERN) }))
+    .filter((entry): entry is { path: string; match: RegExpMatchArray } => entry.match !== null)
+    .sort((a, b) => parseInt(a.match[1], 10) - parseInt(b.match[1], 10))
+    .map(entry => entry.path)
+
+  const presentationXml = await readZipEntry(zip, 'ppt/presentation.xml')
+  const relsXml = await readZipEntry(zip, 'ppt/_rels/presentation.xml.rels')
+  if (!presentationXml || !relsXml) {
+    return slideParts
+  }
+
+  const targets = new Map<string, string>()
+  for (const relationship of findElements(relsXml, 'Relationship')) {
+    const attributes = Object.fromEntries(Array.from(relationship.matchAll(ATTRIBUTE_PATTERN), match => [match[1], match[2]]))
+    if (attributes.Id && attributes.Target) {
+      // Targets are relative to ppt/, or absolute within the package
+      targets.set(attributes.Id, attributes.Target.startsWith('/') ? attributes.Target.slice(1) : `ppt/${attributes.Target}`)
+    }
+  }
+
+  const slideList = findElements(presentationXml, 'p:sldIdLst')[0] || ''
+  const ordered = findElements(slideList, 'p:sldId')
+    .map(slideId => targets.get(slideId.match(RELATIONSHIP_ID_PATTERN)?.[1] || ''))
+    .filter((path): path is string => path !== undefined && slideParts.includes(path))
+  return ordered.length > 0 ? ordered : slideParts
+}
+
+/**
+ * Lines of text inside a shape, one per DrawingML paragraph
+ */
+function shapeLines(shapeXml: string): string[] {
+  return findElements(shapeXml, 'a:p').map(paragraph =>
+    findElements(paragraph.replace(/<a:br(\s[^>]*)?\/>/g, '<a:t>\n</a:t>'), 'a:t')
+      .map(run => stripXmlTags(run))
+      .join('')
+  )
+}
+
+export const pptxExtractor: DocumentExtractor = {
+  format: 'pptx',
+  extensions: ['.pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+
+  async extract(buffer: ArrayBuffer): Promise<ExtractedDocument> {
+    const zip = await loadZip(buffer)
+
+    const slidePaths = await slidePathsInOrder(zip)
+
+    if (slidePaths.length === 0) {
+      throw new Error('PPTX file contains no slides')
+    }
+
+    const pages: ExtractedPage[] = []
+    const headings: string[] = []
+
+    for (let i = 0; i < slidePaths.length; i++) {
+      const slideXml = await readZipEntry(zip, slidePaths[i])
+      if (!slideXml) {
+        continue
+      }
+
+      let title: string | undefined
+      const lines: string[] = []
+      for (const shape of findElements(slideXml, 'p:sp')) {
+        const text = joinLines(shapeLines(shape))
+        if (!text) {
+          continue
+        }
+        if (!title && TITLE_PLACEHOLDER_PATTERN.test(shape)) {
+          title = text.replace(/\n/g, ' ')
+          headings.push(title)
+        }
+        lines.push(text)
+      }
+
+      pages.push({ pageNumber: i + 1, text: joinLines(lines), title })
+    }
+
+    if (pages.every(page => !page.text)) {
+      throw new Error('PPTX file contains no text')
+    }
+
+    return {
+      format: 'pptx',
+      pageUnit: 'slide',
+      pages,
+      metadata: {
+        title: headings[0],
+        headings
+      }
+    }
+  }
+}
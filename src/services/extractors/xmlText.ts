@@ -0,0 +1,70 @@
+import JSZip from 'jszip'
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+/**
+ * Open an Office Open XML / OpenDocument container
+ */
+export async function loadZip(buffer: ArrayBuffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(buffer)
+  } catch (error) {
+    throw new Error(`File is not a valid document archive: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Read an XML entry from the archive, or null when it does not exist
+ */
+export async function readZipEntry(zip: JSZip, path: string): Promise<string | null> {
+  const entry = zip.file(path)
+  return entry ? entry.async('string') : null
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint)
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Remove any remaining tags and decode entities
+ */
+export function stripXmlTags(xml: string): string {
+  return decodeXmlEntities(xml.replace(/<[^>]+>/g, ''))
+}
+
+/**
+ * Collect every element with the given qualified name, e.g. "w:p"
+ */
+export function findElements(xml: string, qualifiedName: string): string[] {
+  const escaped = qualifiedName.replace(':', '\\:')
+  const pattern = new RegExp(`<${escaped}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${escaped}>)`, 'g')
+  return Array.from(xml.matchAll(pattern), match => match[0])
+}
+
+/**
+ * Join non-empty lines into page text
+ */
+export function joinLines(lines: string[]): string {
+  return lines
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+    .normalize('NFC')
+}
@@ -1,9 +1,25 @@
 // Export all services
 export { SessionService } from './session/sessionService'
 export { PDFProcessingService } from './pdf/pdfProcessor'
+export { DocumentExtractorRegistry } from './extractors/extractorRegistry'
+export { RerankerRegistry } from './rerank/rerankerRegistry'
+export { ThesaurusService } from './search/thesaurusService'
+export { CitationParser } from './search/citationParser'
+export { SearchFilters } from './search/searchFilter'
+export { QueryPlanner } from './search/queryPlanner'
+export { QuestionCondenser } from './search/questionCondenser'
 export { VectorStoreService } from './vector/vectorStoreService'
+export { IngestionQueue } from './vector/ingestionQueue'
 export { SearchService } from './search/searchService'
+export { LibraryService } from './library/libraryService'
 export { LLMService } from './llm/llmService'
+export { AnswerCitations } from './llm/answerCitations'
+export { GroundingVerifier } from './llm/groundingVerifier'
+export { ExtractiveAnswerer } from './llm/extractiveAnswerer'
+export { EvaluationDatasets } from './evaluation/evaluationDataset'
+export { EvaluationMetrics } from './evaluation/evaluationMetrics'
+export { EvaluationReports } from './evaluation/evaluationReport'
+export { LLMProviderRegistry } from './llm/providers/providerRegistry'
 
 // Export types and constants
 export * from './types'
@@ -12,9 +28,19 @@ export * from './constants'
 // External API client
 export { externalApiClient } from './llm/externalApiClient'
 
+// Export reranker types
+export type { Reranker, RerankerName } from './rerank/reranker'
+export type { LLMProvider, LLMProviderName } from './llm/providers/provider'
+
+// Export extractor types
+export type { DocumentExtractor } from './extractors/documentExtractor'
+
 // Export search types
 export type {
   SearchOptions,
   SearchResult,
-  CombinedSearchResult
+  CombinedSearchResult,
+  Retriever
 } from './search/searchService'
+export type { ContextExpansion } from './search/contextExpander'
+export type { QueryPlan } from './search/queryPlanner'
@@ -0,0 +1,248 @@
+import { createHash } from 'crypto'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { Document } from 'langchain/document'
+import { LIBRARY_CONFIG, STORAGE_CONFIG } from '../constants'
+import type { LibraryCorpus, PersistedSessionIndex, SessionDocument } from '../types'
+import { PDFProcessingService } from '../pdf/pdfProcessor'
+import { VectorStoreService } from '../vector/vectorStoreService'
+import { SearchService } from '../search/searchService'
+import { IngestionQueue } from '../vector/ingestionQueue'
+import {
+  createFileVectorStoreBackend,
+  memoryVectorStoreBackend,
+  type VectorStoreBackend
+} from '../vector/vectorStoreBackend'
+
+// Loaded lazily on first use and shared by every session
+let corpus: LibraryCorpus | null = null
+let loadPromise: Promise<LibraryCorpus> | null = null
+let backend: VectorStoreBackend | null = null
+const INGESTION_KEY = 'library'
+
+type AddDocumentResult = { success: boolean; documentId?: string; duplicate?: boolean; chunkCount?: number; error?: string }
+
+export class LibraryService {
+  /**
+   * Get the shared library, loading it from its persisted index on first use
+   */
+  static async getCorpus(): Promise<LibraryCorpus> {
+    if (corpus) {
+      return corpus
+    }
+    if (!loadPromise) {
+      loadPromise = this.load()
+    }
+    return loadPromise
+  }
+
+  /**
+   * List the documents of the shared library
+   */
+  static async listDocuments(): Promise<SessionDocument[]> {
+    return (await this.getCorpus()).libraryDocuments
+  }
+
+  /**
+   * Whether the library has any searchable document
+   */
+  static async hasDocuments(): Promise<boolean> {
+    const library = await this.getCorpus()
+    return library.vectorstore !== null && library.documents.length > 0
+  }
+
+  /**
+   * Ingest a regulation into the shared library
+   */
+  static async addDocument(file: File): Promise<AddDocumentResult> {
+    return IngestionQueue.run(INGESTION_KEY, () => this.ingestDocument(file))
+  }
+
+  /**
+   * Embed a document into the library; runs one at a time through the ingestion queue
+   */
+  private static async ingestDocument(file: File): Promise<AddDocumentResult> {
+    try {
+      const library = await this.getCorpus()
+
+      const validation = PDFProcessingService.validateDocumentFile(file)
+      if (!validation.valid) {
+        return { success: false, error: validation.error }
+      }
+
+      const buffer = await file.arrayBuffer()
+      const hash = createHash('sha256').update(Buffer.from(buffer)).digest('hex')
+
+      const existing = library.libraryDocuments.find(document => document.hash === hash && document.status === 'ready')
+      if (existing) {
+        console.log(`Library already contains ${file.name} as ${existing.id}, skipping`)
+        return { success: true, documentId: existing.id, duplicate: true, chunkCount: existing.chunkCount }
+      }
+
+      const processingResult = await PDFProcessingService.processDocument(buffer, file.name, { mimeType: file.type })
+      if (!processingResult.success) {
+        return { success: false, error: processingResult.error || 'Document processing failed' }
+      }
+
+      const libraryDocument: SessionDocument = {
+        id: uuidv4(),
+        name: file.name,
+        hash,
+        chunkCount: processingResult.documents.length,
+        status: 'ready',
+        format: processingResult.metadata.format,
+        pageCount: processingResult.metadata.pageCount,
+        documentInfo: processingResult.metadata.documentInfo,
+        uploadedAt: new Date()
+      }
+
+      // Label every chunk with its document and the library scope
+      const chunks = processingResult.documents.map(chunk => {
+        chunk.metadata = {
+          ...chunk.metadata,
+          documentId: libraryDocument.id,
+          documentName: file.name,
+          scope: 'library'
+        }
+        return chunk
+      })
+
+      const config = VectorStoreService.getOptimalConfig(chunks.length)
+      const embeddingResult = library.vectorstore
+        ? await VectorStoreService.addDocuments(library.vectorstore, chunks, config)
+        : await VectorStoreService.createVectorStore(chunks, config)
+
+      if (!embeddingResult.success) {
+        // Batches embedded before the failure must not stay searchable or be persisted with the next upload
+        if (library.vectorstore) {
+          VectorStoreService.removeDocument(library.vectorstore, libraryDocument.id)
+        }
+        return { success: false, error: embeddingResult.error || 'Vector store creation failed' }
+      }
+
+      library.vectorstore = embeddingResult.vectorStore!
+      library.documents = [...library.documents, ...chunks]
+      library.libraryDocuments = [...library.libraryDocuments, libraryDocument]
+      SearchService.indexDocuments(library.documents)
+      await this.persist()
+
+      console.log(`Added ${file.name} to the shared library (${chunks.length} chunks)`)
+      return { success: true, documentId: libraryDocument.id, chunkCount: chunks.length }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error('Library ingestion failed:', errorMessage)
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  /**
+   * Remove a regulation (its chunks and vectors) from the shared library
+   */
+  static async removeDocument(documentId: string): Promise<{ success: boolean; error?: string }> {
+    return IngestionQueue.run(INGESTION_KEY, () => this.deleteDocument(documentId))
+  }
+
+  /**
+   * Drop a document's chunks and vectors; queued behind any ingestion in progress
+   */
+  private static async deleteDocument(documentId: string): Promise<{ success: boolean; error?: string }> {
+    const library = await this.getCorpus()
+    const document = library.libraryDocuments.find(candidate => candidate.id === documentId)
+    if (!document) {
+      return { success: false, error: 'Document not found' }
+    }
+
+    if (library.vectorstore) {
+      VectorStoreService.removeDocument(library.vectorstore, documentId)
+    }
+    const hasVectors = (library.vectorstore?.memoryVectors.length || 0) > 0
+
+    library.vectorstore = hasVectors ? library.vectorstore : null
+    library.documents = library.documents.filter(chunk => chunk.metadata?.documentId !== documentId)
+    library.libraryDocuments = library.libraryDocuments.filter(candidate => candidate.id !== documentId)
+    SearchService.indexDocuments(library.documents)
+    await this.persist()
+
+    console.log(`Removed ${document.name} from the shared library`)
+    return { success: true }
+  }
+
+  /**
+   * Read the persisted library index, or start with an empty library
+   */
+  private static async load(): Promise<LibraryCorpus> {
+    const empty: LibraryCorpus = { vectorstore: null, documents: [], libraryDocuments: [] }
+
+    try {
+      const index = await this.getBackend().load(LIBRARY_CONFIG.INDEX_ID)
+      const restored = index ? await VectorStoreService.restorePersistedIndex(index) : null
+      corpus = index
+        ? {
+            vectorstore: restored!.vectorStore,
+            documents: index.vectors.map(vector => new Document({
+              pageContent: vector.content,
+              metadata: vector.metadata
+            })),
+            libraryDocuments: index.uploadedDocuments.map(document => ({
+              ...document,
+              uploadedAt: new Date(document.uploadedAt)
+            }))
+          }
+        : empty
+      SearchService.indexDocuments(corpus.documents)
+      console.log(`Loaded shared library with ${corpus.libraryDocuments.length} documents`)
+      if (restored?.reembedded) {
+        await this.persist()
+      }
+
+    } catch (error) {
+      console.error('Error loading shared library:', error)
+      corpus = empty
+    }
+
+    return corpus
+  }
+
+  /**
+   * Write the library to its own index, separate from session indexes
+   */
+  private static async persist(): Promise<void> {
+    if (!corpus) {
+      return
+    }
+
+    const now = new Date().toISOString()
+    const index: PersistedSessionIndex = {
+      version: 1,
+      sessionId: LIBRARY_CONFIG.INDEX_ID,
+      createdAt: now,
+      savedAt: now,
+      pdfName: null,
+      embeddingModel: VectorStoreService.embeddingModelName(),
+      uploadedDocuments: corpus.libraryDocuments.map(document => ({
+        ...document,
+        uploadedAt: document.uploadedAt.toISOString()
+      })),
+      vectors: corpus.vectorstore ? VectorStoreService.serializeVectorStore(corpus.vectorstore) : []
+    }
+
+    try {
+      await this.getBackend().save(index)
+    } catch (error) {
+      console.error('Error persisting shared library:', error)
+    }
+  }
+
+  /**
+   * The library lives in its own directory so a session ID can never resolve to it
+   */
+  private static getBackend(): VectorStoreBackend {
+    if (!backend) {
+      backend = STORAGE_CONFIG.VECTOR_STORE_BACKEND === 'memory'
+        ? memoryVectorStoreBackend
+        : createFileVectorStoreBackend(path.resolve(STORAGE_CONFIG.DATA_DIR, LIBRARY_CONFIG.INDEX_DIR))
+    }
+    return backend
+  }
+}
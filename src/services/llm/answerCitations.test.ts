@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import type { SearchResult } from '../search/searchService'
+import { AnswerCitations } from './answerCitations'
+
+const context: SearchResult[] = [
+  {
+    content: 'Điều 5. Lối thoát nạn\n1. Mỗi tầng có ít nhất hai lối thoát nạn.\n2. Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.',
+    documentId: 'qcvn-06',
+    source: 'QCVN 06:2022/BXD.pdf',
+    scope: 'library',
+    metadata: { pageStart: 12, pageEnd: 13, structurePath: 'Điều 5' }
+  },
+  {
+    content: 'Bình chữa cháy xách tay được đặt ở nơi dễ thấy, dễ lấy.',
+    documentId: 'upload-1',
+    source: 'noi-quy.docx',
+    scope: 'session',
+    metadata: {}
+  }
+]
+
+describe('AnswerCitations.resolve', () => {
+  it('lists each cited section once with the sentence the claim relies on', () => {
+    const { answer, sources } = AnswerCitations.resolve(
+      'Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m [1]. Bình chữa cháy đặt ở nơi dễ thấy [2]. Mỗi tầng có hai lối thoát nạn [1].',
+      context
+    )
+
+    expect(answer).toContain('1,2 m [1].')
+    expect(sources).toEqual([
+      {
+        index: 1,
+        documentId: 'qcvn-06',
+        documentName: 'QCVN 06:2022/BXD.pdf',
+        scope: 'library',
+        page: 'trang 12–13',
+        structurePath: 'Điều 5',
+        citation: undefined,
+        quote: 'Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.'
+      },
+      expect.objectContaining({ index: 2, page: undefined, quote: 'Bình chữa cháy xách tay được đặt ở nơi dễ thấy, dễ lấy.' })
+    ])
+  })
+
+  it('keeps a direct quote found in the section', () => {
+    const { sources } = AnswerCitations.resolve('Quy chuẩn ghi: “Mỗi tầng có ít nhất hai lối thoát nạn” [1]', context)
+
+    expect(sources[0].quote).toBe('Mỗi tầng có ít nhất hai lối thoát nạn')
+  })
+
+  it('removes markers that name no section, with the space before them', () => {
+    const { answer, sources } = AnswerCitations.resolve('Phải có hai lối thoát nạn [3]. Cửa mở ra ngoài [0] theo chiều thoát [1, 4].', context)
+
+    expect(answer).toBe('Phải có hai lối thoát nạn. Cửa mở ra ngoài theo chiều thoát [1].')
+    expect(sources.map(source => source.index)).toEqual([1])
+  })
+
+  it('returns an answer without markers unchanged and without sources', () => {
+    expect(AnswerCitations.resolve('Không tìm thấy quy định phù hợp.', context)).toEqual({
+      answer: 'Không tìm thấy quy định phù hợp.',
+      sources: []
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { SearchService } from '../search/searchService'
+import type { SearchResult } from '../search/searchService'
+import { tokenizeVietnamese } from '../search/vietnameseTokenizer'
+import type { AnswerSource } from '../types'
+
+// Citation markers the answer prompt asks for: "[2]", or several sections at once "[1, 3]",
+// with the spaces before them so a removed marker takes its space along
+const MARKER_PATTERN = /([ \t]*)\[(\d+(?:\s*,\s*\d+)*)\]/g
+// A direct quote right before its marker: “...” [2]
+const TRAILING_QUOTE_PATTERN = /["“]([^"“”]{10,})["”]\s*$/u
+// Where the claim a marker supports starts: the end of the previous sentence, line or marker
+const CLAIM_BOUNDARY_PATTERN = /[.!?\n]\s|\]/g
+// Markers right before another one, which cite the same claim: "[1][2]"
+const ADJACENT_MARKERS_PATTERN = /(\s*\[\d+(?:\s*,\s*\d+)*\])+\s*$/
+// Sentences of a chunk, for picking the span a claim relies on
+const SENTENCE_SPLIT_PATTERN = /(?<=[.;:])\s+|\n+/u
+// Longest quote kept from a chunk sentence
+const MAX_QUOTE_LENGTH = 300
+
+function normalize(text: string): string {
+  return text.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function compoundTerms(text: string): Set<string> {
+  return new Set(tokenizeVietnamese(text).filter(term => term.includes('_')))
+}
+
+export class AnswerCitations {
+  /**
+   * Describe a result given to the LLM as context section `index`
+   */
+  static toSource(result: SearchResult, index: number): AnswerSource {
+    return {
+      index,
+      documentId: result.documentId,
+      documentName: result.source,
+      scope: result.scope,
+      page: SearchService.formatPageRange(result.metadata) || undefined,
+      structurePath: typeof result.metadata?.structurePath === 'string' ? result.metadata.structurePath : undefined,
+      citation: result.citation
+    }
+  }
+
+  /**
+   * Check the citation markers of an answer against the context sections it was generated from.
+   * Markers that do not name a section are removed; each cited section is returned once, with the
+   * span of its text the answer relies on.
+   */
+  static resolve(answer: string, contextResults: SearchResult[]): { answer: string; sources: AnswerSource[] } {
+    const quotes = new Map<number, string | undefined>()
+    let stripped = 0
+
+    const resolved = answer.replace(MARKER_PATTERN, (marker: string, space: string, list: string, offset: number) => {
+      const numbers = Array.from(new Set(list.split(',').map(number => parseInt(number, 10))))
+      const valid = numbers.filter(number => number >= 1 && number <= contextResults.length)
+      stripped += numbers.length - valid.length
+
+      const claim = this.claimBefore(answer, offset)
+      for (const number of valid) {
+        if (quotes.get(number) === undefined) {
+          quotes.set(number, this.findQuote(claim, contextResults[number - 1].content))
+        }
+      }
+      if (valid.length > 0) {
+        return `${space}[${valid.join(', ')}]`
+      }
+      // "yêu cầu [9]." becomes "yêu cầu.", while "yêu cầu [9] về" keeps one space between the words
+      const next = answer.charAt(offset + marker.length)
+      return next === '' || /[\s.,;:!?)]/.test(next) ? '' : space
+    })
+
+    if (stripped > 0) {
+      console.log(`Removed ${stripped} citation markers that do not match a retrieved section`)
+    }
+
+    const sources = Array.from(quotes.keys())
+      .sort((a, b) => a - b)
+      .map(number => ({ ...this.toSource(contextResults[number - 1], number), quote: quotes.get(number) }))
+
+    return { answer: resolved, sources }
+  }
+
+  /**
+   * Text of the claim a marker at `offset` supports
+   */
+  private static claimBefore(answer: string, offset: number): string {
+    const before = answer.slice(0, offset).replace(ADJACENT_MARKERS_PATTERN, '')
+    let start = 0
+    for (const match of Array.from(before.matchAll(CLAIM_BOUNDARY_PATTERN))) {
+      start = match.index! + match[0].length
+    }
+    return before.slice(start).trim()
+  }
+
+  /**
+   * The span of a section a claim relies on: its direct quote when the quote really is in the
+   * section, otherwise the section sentence sharing the most terms with the claim
+   */
+  private static findQuote(claim: string, content: string): string | undefined {
+    const quoted = claim.match(TRAILING_QUOTE_PATTERN)?.[1]?.trim()
+    if (quoted && normalize(content).includes(normalize(quoted))) {
+      return quoted
+    }
+
+    const claimTerms = compoundTerms(claim)
+    let best: { sentence: string; shared: number } | null = null
+    for (const sentence of content.split(SENTENCE_SPLIT_PATTERN)) {
+      const trimmed = sentence.trim()
+      if (!trimmed) {
+        continue
+      }
+      let shared = 0
+      compoundTerms(trimmed).forEach(term => {
+        if (claimTerms.has(term)) {
+          shared++
+        }
+      })
+      if (shared > 0 && (!best || shared > best.shared)) {
+        best = { sentence: trimmed, shared }
+      }
+    }
+
+    if (!best) {
+      return undefined
+    }
+    return best.sentence.length > MAX_QUOTE_LENGTH
+      ? `${best.sentence.substring(0, MAX_QUOTE_LENGTH - 3)}...`
+      : best.sentence
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { ExtractiveAnswerer, NO_EXTRACTIVE_ANSWER } from './extractiveAnswerer'
+
+const context = [
+  '--- Relevant Section 1 ---',
+  'Điều 5. Lối thoát nạn',
+  'Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m. Cửa trên lối thoát nạn phải mở theo chiều thoát.',
+  '[Source: QCVN 06:2022/BXD, trang 12]',
+  '',
+  '--- Relevant Section 2 ---',
+  'Bình chữa cháy xách tay được đặt ở nơi dễ thấy, dễ lấy.',
+  '[Source: noi-quy.docx]'
+].join('\n')
+
+describe('ExtractiveAnswerer.answer', () => {
+  it('quotes the sentences sharing the most terms with the question, cited by section', () => {
+    expect(ExtractiveAnswerer.answer('Chiều rộng lối thoát nạn là bao nhiêu?', context)).toBe([
+      'Theo tài liệu đã cung cấp:',
+      '- "Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m." [1]',
+      '- "Cửa trên lối thoát nạn phải mở theo chiều thoát." [1]'
+    ].join('\n'))
+  })
+
+  it('never quotes source lines or short headings', () => {
+    const answer = ExtractiveAnswerer.answer('QCVN 06 điều 5 noi quy', context)
+
+    expect(answer).not.toContain('[Source:')
+    expect(answer).not.toContain('"Điều 5. Lối thoát nạn"')
+  })
+
+  it('says there is no information when no sentence shares a term', () => {
+    expect(ExtractiveAnswerer.answer('Thang máy chở người?', context)).toBe(NO_EXTRACTIVE_ANSWER)
+  })
+})
+
+describe('ExtractiveAnswerer.scorePassage', () => {
+  it('grades term overlap on a 0-10 scale', () => {
+    expect(ExtractiveAnswerer.scorePassage('bình chữa cháy', 'Bình chữa cháy xách tay.')).toBe(10)
+    expect(ExtractiveAnswerer.scorePassage('bình chữa cháy', 'Lối thoát nạn.')).toBe(0)
+  })
+})
@@ -0,0 +1,102 @@
+import { tokenizeVietnamese } from '../search/vietnameseTokenizer'
+import { OFFLINE_CONFIG } from '../constants'
+
+// "--- Relevant Section 2 ---" headings of the answer context built by SearchService
+const SECTION_HEADING_PATTERN = /^--- Relevant Section (\d+) ---$/gm
+// The "[Source: ...]" line closing each section, and the "=== Ý 1: ... ===" group headings of planned searches
+const SECTION_NOISE_PATTERN = /^\[Source:.*$|^=== .* ===$/gm
+const SENTENCE_SPLIT_PATTERN = /(?<=[.;:!?])\s+|\n+/u
+// Shorter sentences are headings or list labels, not statements worth quoting
+const MIN_SENTENCE_LENGTH = 20
+
+export const NO_EXTRACTIVE_ANSWER = 'Không có thông tin liên quan trong tài liệu đã cung cấp.'
+
+/**
+ * Terms of a text, with compounds ("lối_thoát") counted twice so phrases outweigh shared syllables
+ */
+function weightedTerms(text: string): Map<string, number> {
+  const terms = new Map<string, number>()
+  for (const term of tokenizeVietnamese(text)) {
+    terms.set(term, term.includes('_') ? 2 : 1)
+  }
+  return terms
+}
+
+/**
+ * Share of the question's terms a text contains, from 0 to 1
+ */
+function overlap(questionTerms: Map<string, number>, text: string): number {
+  const textTerms = new Set(tokenizeVietnamese(text))
+  let total = 0
+  let shared = 0
+  questionTerms.forEach((weight, term) => {
+    total += weight
+    if (textTerms.has(term)) {
+      shared += weight
+    }
+  })
+  return total > 0 ? shared / total : 0
+}
+
+/**
+ * Answers built from the context alone, without a language model: the sentences sharing the most
+ * terms with the question, quoted and cited. Used by the offline provider, so the whole pipeline
+ * gives deterministic answers with no network.
+ */
+export class ExtractiveAnswerer {
+  /**
+   * Answer a question from an answer context made of "Relevant Section" passages
+   */
+  static answer(question: string, context: string): string {
+    const questionTerms = weightedTerms(question)
+    const candidates: Array<{ sentence: string; section: number; score: number }> = []
+
+    for (const { section, content } of this.parseSections(context)) {
+      for (const sentence of content.split(SENTENCE_SPLIT_PATTERN)) {
+        const trimmed = sentence.trim()
+        if (trimmed.length < MIN_SENTENCE_LENGTH) {
+          continue
+        }
+        const score = overlap(questionTerms, trimmed)
+        if (score > 0) {
+          candidates.push({ sentence: trimmed, section, score })
+        }
+      }
+    }
+
+    // Stable sort keeps context order among equal scores, so the answer is the same on every run
+    const selected = candidates
+      .sort((a, b) => b.score - a.score)
+      .slice(0, OFFLINE_CONFIG.MAX_ANSWER_SENTENCES)
+    if (selected.length === 0) {
+      return NO_EXTRACTIVE_ANSWER
+    }
+
+    return [
+      'Theo tài liệu đã cung cấp:',
+      ...selected.map(candidate => `- "${candidate.sentence}" [${candidate.section}]`)
+    ].join('\n')
+  }
+
+  /**
+   * Grade a passage against a question on the 0-10 scale of the relevance prompt
+   */
+  static scorePassage(question: string, passage: string): number {
+    return Math.round(overlap(weightedTerms(question), passage) * 10)
+  }
+
+  /**
+   * Split an answer context into its numbered passages
+   */
+  private static parseSections(context: string): Array<{ section: number; content: string }> {
+    const headings = Array.from(context.matchAll(SECTION_HEADING_PATTERN))
+    return headings.map((heading, index) => {
+      const start = heading.index! + heading[0].length
+      const end = index + 1 < headings.length ? headings[index + 1].index! : context.length
+      return {
+        section: parseInt(heading[1], 10),
+        content: context.slice(start, end).replace(SECTION_NOISE_PATTERN, '').trim()
+      }
+    })
+  }
+}
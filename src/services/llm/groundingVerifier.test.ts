@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { API_CONFIG } from '../constants'
+import { GroundingVerifier } from './groundingVerifier'
+import { LLMService } from './llmService'
+
+const context = [
+  '[1] QCVN 06:2022/BXD > Điều 5 > Khoản 2',
+  'Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m. Mỗi tầng có ít nhất 2 lối thoát nạn.',
+  '[2] Nghị định 136/2020/NĐ-CP > Điều 15',
+  'Cơ sở thông báo trong thời hạn 05 ngày làm việc kể từ ngày 15 tháng 5.'
+].join('\n')
+
+function statuses(answer: string, against = context): Record<string, string> {
+  return Object.fromEntries(GroundingVerifier.verify(answer, against).claims.map(claim => [claim.text, claim.status]))
+}
+
+describe('GroundingVerifier.verify', () => {
+  it('finds figures written with another decimal separator, unit spelling or leading zero', () => {
+    expect(statuses('Lối thoát nạn rộng tối thiểu 1.2 mét [1], thông báo trong 5 ngày làm việc [2].')).toEqual({
+      '1.2 mét': 'supported',
+      '5 ngày làm việc': 'supported'
+    })
+  })
+
+  it('reports figures that are not in the context', () => {
+    const report = GroundingVerifier.verify('Chiều rộng không nhỏ hơn 1,5 m và mỗi tầng có 3 lối thoát nạn.', context)
+
+    expect(report.unsupportedCount).toBe(2)
+    expect(report.claims.map(claim => claim.type)).toEqual(['measurement', 'count'])
+  })
+
+  it('checks article and document numbers without matching them inside longer ones', () => {
+    expect(statuses('Theo khoản 2 Điều 5 QCVN 06:2022/BXD và Điều 1 Nghị định 36/2020/NĐ-CP')).toEqual({
+      'khoản 2 Điều 5': 'supported',
+      'Điều 1': 'unsupported',
+      '06:2022/BXD': 'supported',
+      '36/2020/NĐ-CP': 'unsupported'
+    })
+  })
+
+  it('does not read citation markers, dates or millimetres as claims', () => {
+    expect(statuses('Áp dụng từ ngày 15 tháng 5 [2], ống dày 12 mm.')).toEqual({ '12 mm': 'unsupported' })
+  })
+
+  it('only supports figures within the context the model was given', () => {
+    const longContext = `${'x'.repeat(API_CONFIG.MAX_SEARCH_RESULTS_LENGTH)}\nKhoảng cách không quá 45 m.`
+
+    expect(statuses('Khoảng cách không quá 45 m.', longContext)).toEqual({ '45 m': 'supported' })
+    expect(statuses('Khoảng cách không quá 45 m.', LLMService.promptContext(longContext))).toEqual({ '45 m': 'unsupported' })
+  })
+})
+
+describe('GroundingVerifier.formatNotice', () => {
+  it('lists the unsupported claims, or nothing when all are supported', () => {
+    expect(GroundingVerifier.formatNotice(GroundingVerifier.verify('rộng 1,2 m', context))).toBeUndefined()
+    expect(GroundingVerifier.formatNotice(GroundingVerifier.verify('rộng 1,5 m', context))).toMatch(/^Không tìm thấy "1,5 m"/)
+  })
+})
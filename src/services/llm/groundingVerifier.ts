@@ -0,0 +1,117 @@
+import type { ClaimType, GroundedClaim, GroundingReport } from '../types'
+
+// A number as written in Vietnamese regulations: "1,2", "1.200", "05"; not part of an identifier such as "136/2020"
+// nor the day or month of a date ("ngày 15 tháng 5 năm 2020")
+const NUMBER = String.raw`(?<![\p{L}\p{N}.,/:])(?<!(?:ngày|tháng)\s+)\d+(?:[.,]\d+)*`
+// Units whose figures are checked; the spellings of one unit are interchangeable. Longest first, so "mm" is not read as "m"
+const UNITS: Array<{ pattern: string; type: ClaimType }> = [
+  ...['mét vuông|m²|m2', 'mét khối|m³|m3', 'mm', 'cm', 'km', 'mét|m', '%', '°c|độ c', 'lux', 'mpa', 'kpa', 'bar', 'kw', 'kg', 'lít', 'l/s']
+    .map(pattern => ({ pattern, type: 'measurement' as const })),
+  ...['ngày làm việc', 'ngày', 'giờ', 'phút', 'giây', 'tháng', 'năm']
+    .map(pattern => ({ pattern, type: 'deadline' as const })),
+  ...['tầng', 'người', 'lối', 'cửa', 'bình', 'họng', 'lần']
+    .map(pattern => ({ pattern, type: 'count' as const }))
+]
+const QUANTITY_PATTERN = new RegExp(`(${NUMBER})\\s*(${UNITS.map(unit => unit.pattern).join('|')})(?![\\p{L}\\p{N}²³])`, 'giu')
+// "Điều 15", "khoản 2 Điều 5", "điểm a khoản 1 Điều 3", "Điều 3.2.1"
+const ARTICLE_PATTERN = /(?:điểm\s+[a-zđ]\s+)?(?:khoản\s+\d+\s+)?điều\s+(\d+(?:\.\d+)*)/giu
+// "136/2020/NĐ-CP", "06:2022/BXD", "QCVN 06:2022"
+const DOCUMENT_NUMBER_PATTERN = /\d+\/\d{4}\/[\p{L}-]+|\d+:\d{4}(?:\/[\p{L}-]+)?/gu
+// Citation markers added to the answer, not claims
+const MARKER_PATTERN = /\[\d+(?:\s*,\s*\d+)*\]/g
+
+/**
+ * Lowercase, with decimal commas as points and without leading zeros ("05 ngày"), so figures compare as written
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/(?<![\d.])0+(\d)/g, '$1')
+    .replace(/\s+/g, ' ')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export class GroundingVerifier {
+  /**
+   * Check the figures and references of an answer against the context it was generated from:
+   * measurements, deadlines, counts, article numbers and document numbers must appear there too
+   */
+  static verify(answer: string, context: string): GroundingReport {
+    const normalizedContext = normalize(context)
+    const claims: GroundedClaim[] = []
+    const seen = new Set<string>()
+
+    for (const claim of this.extractClaims(answer.replace(MARKER_PATTERN, ''))) {
+      const key = `${claim.type}:${normalize(claim.text)}`
+      if (seen.has(key)) {
+        continue
+      }
+      seen.add(key)
+      claims.push({
+        text: claim.text,
+        type: claim.type,
+        status: claim.matcher.test(normalizedContext) ? 'supported' : 'unsupported'
+      })
+    }
+
+    const unsupportedCount = claims.filter(claim => claim.status === 'unsupported').length
+    if (unsupportedCount > 0) {
+      console.log(`Grounding check: ${unsupportedCount} of ${claims.length} claims not found in the context`)
+    }
+    return { claims, unsupportedCount }
+  }
+
+  /**
+   * Warning shown with an answer whose figures could not all be found in the documents
+   */
+  static formatNotice(report: GroundingReport): string | undefined {
+    const unsupported = report.claims.filter(claim => claim.status === 'unsupported')
+    if (unsupported.length === 0) {
+      return undefined
+    }
+    return `Không tìm thấy ${unsupported.map(claim => `"${claim.text}"`).join(', ')} trong các đoạn tài liệu được trích dẫn. Vui lòng đối chiếu với văn bản gốc trước khi áp dụng.`
+  }
+
+  /**
+   * Find the claims of an answer, each with the pattern that finds it in normalized context
+   */
+  private static extractClaims(answer: string): Array<{ text: string; type: ClaimType; matcher: RegExp }> {
+    const claims: Array<{ text: string; type: ClaimType; matcher: RegExp }> = []
+    const text = answer.normalize('NFC')
+
+    for (const match of Array.from(text.matchAll(QUANTITY_PATTERN))) {
+      const unit = UNITS.find(candidate => new RegExp(`^(${candidate.pattern})$`, 'iu').test(match[2]))!
+      const number = escapeRegExp(normalize(match[1]))
+      claims.push({
+        text: match[0].trim(),
+        type: unit.type,
+        matcher: new RegExp(`(?<![\\p{L}\\p{N}.])${number}\\s*(${unit.pattern})(?![\\p{L}\\p{N}²³])`, 'u')
+      })
+    }
+
+    for (const match of Array.from(text.matchAll(ARTICLE_PATTERN))) {
+      // Context labels carry the article ("Điều 5 > Khoản 2"), so the article number is what is checked
+      claims.push({
+        text: match[0].trim(),
+        type: 'article',
+        matcher: new RegExp(`điều ${escapeRegExp(match[1])}(?![\\d.]*\\d)`, 'u')
+      })
+    }
+
+    for (const match of Array.from(text.matchAll(DOCUMENT_NUMBER_PATTERN))) {
+      claims.push({
+        text: match[0],
+        type: 'document',
+        // Anchored on the left, so "36/2020/nđ-cp" is not found inside "136/2020/nđ-cp"
+        matcher: new RegExp(`(?<![\\p{L}\\p{N}./:])${escapeRegExp(normalize(match[0]))}`, 'u')
+      })
+    }
+
+    return claims
+  }
+}
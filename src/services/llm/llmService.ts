@@ -1,16 +1,20 @@
-import { ChatOpenAI } from '@langchain/openai'
-import { API_CONFIG, PROCESSING_CONFIG } from '../constants'
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { API_CONFIG, CONVERSATION_CONFIG, PROCESSING_CONFIG } from '../constants'
+import type { ChatTurn } from '../types'
+import { LLMProviderRegistry } from './providers/providerRegistry'
 
 // Global LLM instance
-let llm: ChatOpenAI | null = null
+let llm: BaseChatModel | null = null
 
-export class LLMService {
-  private static readonly OPENAI_API_KEY = process.env.OPENAI_API_KEY
+const NO_CONTEXT_RESPONSE = "Tôi không tìm thấy thông tin liên quan trong tài liệu PDF đã tải lên để trả lời câu hỏi của bạn. Vui lòng thử diễn đạt lại câu hỏi hoặc tải lên tài liệu khác có chứa thông tin liên quan."
+const GENERIC_RESPONSE_NOTE = "\n\n*Lưu ý: Câu trả lời này dựa trên thông tin có trong tài liệu đã tải lên. Nếu bạn cần thông tin chi tiết hơn, vui lòng tham khảo trực tiếp tài liệu gốc.*"
+const TRUNCATED_RESPONSE_NOTE = "...\n\n[Câu trả lời đã được rút gọn]"
 
+export class LLMService {
   /**
    * Initialize the LLM instance
    */
-  static async initializeLLM(): Promise<ChatOpenAI> {
+  static async initializeLLM(): Promise<BaseChatModel> {
     if (!llm) {
       llm = await this._createLLMInstance()
     }
@@ -20,7 +24,7 @@ export class LLMService {
   /**
    * Get current LLM instance
    */
-  static getLLM(): ChatOpenAI | null {
+  static getLLM(): BaseChatModel | null {
     return llm
   }
 
@@ -31,26 +35,38 @@ export class LLMService {
     return llm !== null
   }
 
+  /**
+   * The part of the search context that fits in the prompt
+   */
+  static promptContext(searchResults: string): string {
+    return searchResults.substring(0, API_CONFIG.MAX_SEARCH_RESULTS_LENGTH)
+  }
+
   /**
    * Generate response using LLM with RAG context
    */
-  static async generateResponse(question: string, searchResults: string): Promise<{ success: boolean; response?: string; error?: string }> {
+  static async generateResponse(
+    question: string,
+    searchResults: string,
+    subQuestions: string[] = [],
+    history: ChatTurn[] = []
+  ): Promise<{ success: boolean; response?: string; error?: string }> {
     if (!llm) {
       await this.initializeLLM()
     }
 
     const trimmedQuestion = question.trim().substring(0, API_CONFIG.MAX_QUESTION_LENGTH)
-    const trimmedSearchResults = searchResults.substring(0, API_CONFIG.MAX_SEARCH_RESULTS_LENGTH)
+    const trimmedSearchResults = this.promptContext(searchResults)
 
     // Validate that we have context from search results
-    if (!trimmedSearchResults || trimmedSearchResults.trim() === 'No relevant information found in the uploaded document.') {
+    if (!this._hasContext(trimmedSearchResults)) {
       return {
         success: true,
-        response: "Tôi không tìm thấy thông tin liên quan trong tài liệu PDF đã tải lên để trả lời câu hỏi của bạn. Vui lòng thử diễn đạt lại câu hỏi hoặc tải lên tài liệu khác có chứa thông tin liên quan."
+        response: NO_CONTEXT_RESPONSE
       }
     }
 
-    const prompt = this._createRAGPrompt(trimmedQuestion, trimmedSearchResults)
+    const prompt = this._createRAGPrompt(trimmedQuestion, trimmedSearchResults, subQuestions, history)
 
     try {
       const timeoutPromise = new Promise<never>((_, reject) => {
@@ -75,7 +91,7 @@ export class LLMService {
       if (this._isGenericResponse(cleanedResponse)) {
         return {
           success: true,
-          response: cleanedResponse + "\n\n*Lưu ý: Câu trả lời này dựa trên thông tin có trong tài liệu đã tải lên. Nếu bạn cần thông tin chi tiết hơn, vui lòng tham khảo trực tiếp tài liệu gốc.*"
+          response: cleanedResponse + GENERIC_RESPONSE_NOTE
         }
       }
 
@@ -93,6 +109,196 @@ export class LLMService {
     }
   }
 
+  /**
+   * Stream the RAG answer as text deltas. The LLM timeout applies to each wait for the next
+   * delta rather than to the whole answer; aborting `signal` stops the upstream request.
+   */
+  static async *streamResponse(
+    question: string,
+    searchResults: string,
+    subQuestions: string[] = [],
+    history: ChatTurn[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    if (!llm) {
+      await this.initializeLLM()
+    }
+
+    const trimmedQuestion = question.trim().substring(0, API_CONFIG.MAX_QUESTION_LENGTH)
+    const trimmedSearchResults = this.promptContext(searchResults)
+    if (!this._hasContext(trimmedSearchResults)) {
+      yield NO_CONTEXT_RESPONSE
+      return
+    }
+
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort)
+    let timedOut = false
+    let timer = setTimeout(() => { timedOut = true; controller.abort() }, PROCESSING_CONFIG.LLM_TIMEOUT)
+
+    let response = ''
+    try {
+      const stream = await llm!.stream(this._createRAGPrompt(trimmedQuestion, trimmedSearchResults, subQuestions, history), {
+        signal: controller.signal
+      })
+
+      for await (const chunk of stream) {
+        clearTimeout(timer)
+        timer = setTimeout(() => { timedOut = true; controller.abort() }, PROCESSING_CONFIG.LLM_TIMEOUT)
+
+        const delta = typeof chunk.content === 'string' ? chunk.content : ''
+        if (!delta) {
+          continue
+        }
+        if (response.length + delta.length > API_CONFIG.MAX_RESPONSE_LENGTH) {
+          yield delta.substring(0, API_CONFIG.MAX_RESPONSE_LENGTH - response.length) + TRUNCATED_RESPONSE_NOTE
+          return
+        }
+        response += delta
+        yield delta
+      }
+
+      if (this._isGenericResponse(response)) {
+        yield GENERIC_RESPONSE_NOTE
+      }
+
+    } catch (error) {
+      if (signal?.aborted) {
+        return
+      }
+      console.error('LLM streaming failed:', error)
+      throw new Error(this._handleLLMError(timedOut ? new Error('LLM response timeout') : error))
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', abort)
+      // Stop the upstream request when the consumer stops reading early
+      controller.abort()
+    }
+  }
+
+  /**
+   * Ask the LLM to grade how well each passage answers the question, on a 0-1 scale
+   */
+  static async judgeRelevance(question: string, passages: string[]): Promise<{ success: boolean; scores?: number[]; error?: string }> {
+    try {
+      if (!llm) {
+        await this.initializeLLM()
+      }
+
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('LLM response timeout')), PROCESSING_CONFIG.LLM_TIMEOUT)
+      })
+      const llmResponse = await Promise.race([
+        llm!.invoke(this._createRelevancePrompt(question, passages)),
+        timeoutPromise
+      ])
+
+      // Expect a JSON array of {"id": n, "score": 0-10}; ignore any text around it
+      const content = String(llmResponse.content)
+      const json = content.match(/\[[\s\S]*\]/)
+      if (!json) {
+        return { success: false, error: 'Relevance judgement was not valid JSON' }
+      }
+
+      const judgements = JSON.parse(json[0]) as Array<{ id: number; score: number }>
+      const scores = passages.map(() => 0)
+      for (const judgement of judgements) {
+        const index = Number(judgement.id) - 1
+        if (index >= 0 && index < passages.length && Number.isFinite(Number(judgement.score))) {
+          scores[index] = Math.max(0, Math.min(10, Number(judgement.score))) / 10
+        }
+      }
+
+      return { success: true, scores }
+
+    } catch (error) {
+      console.error('LLM relevance judgement failed:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown relevance judgement error'
+      }
+    }
+  }
+
+  /**
+   * Ask the LLM to split a compound question into self-contained sub-questions
+   */
+  static async planQueries(question: string, maxQueries: number): Promise<{ success: boolean; queries?: string[]; error?: string }> {
+    try {
+      if (!llm) {
+        await this.initializeLLM()
+      }
+
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('LLM response timeout')), PROCESSING_CONFIG.LLM_TIMEOUT)
+      })
+      const llmResponse = await Promise.race([
+        llm!.invoke(this._createPlanningPrompt(question, maxQueries)),
+        timeoutPromise
+      ])
+
+      // Expect a JSON array of strings; ignore any text around it
+      const content = String(llmResponse.content)
+      const json = content.match(/\[[\s\S]*\]/)
+      if (!json) {
+        return { success: false, error: 'Query plan was not valid JSON' }
+      }
+
+      const queries = (JSON.parse(json[0]) as unknown[])
+        .filter((query): query is string => typeof query === 'string' && query.trim().length > 0)
+        .map(query => query.trim())
+        .slice(0, maxQueries)
+
+      return { success: true, queries }
+
+    } catch (error) {
+      console.error('LLM query planning failed:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown query planning error'
+      }
+    }
+  }
+
+  /**
+   * Ask the LLM to rewrite a follow-up question so it can be understood without the conversation
+   */
+  static async condenseQuestion(question: string, history: ChatTurn[]): Promise<{ success: boolean; question?: string; error?: string }> {
+    try {
+      if (!llm) {
+        await this.initializeLLM()
+      }
+
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('LLM response timeout')), PROCESSING_CONFIG.LLM_TIMEOUT)
+      })
+      const llmResponse = await Promise.race([
+        llm!.invoke(this._createCondensePrompt(question, history)),
+        timeoutPromise
+      ])
+
+      // Expect the question alone; drop quotes or a label the model may add
+      const condensed = String(llmResponse.content)
+        .trim()
+        .replace(/^(câu hỏi( độc lập)?\s*:\s*)/iu, '')
+        .replace(/^["“']|["”']$/gu, '')
+        .trim()
+      if (!condensed || condensed.length > API_CONFIG.MAX_QUESTION_LENGTH) {
+        return { success: false, error: 'Condensed question was empty or too long' }
+      }
+
+      return { success: true, question: condensed }
+
+    } catch (error) {
+      console.error('LLM question condensation failed:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown question condensation error'
+      }
+    }
+  }
+
   /**
    * Health check
    */
@@ -116,21 +322,14 @@ export class LLMService {
   }
 
   /**
-   * Create LLM instance with proper configuration
+   * Create the chat model of the configured provider
    */
-  private static async _createLLMInstance(): Promise<ChatOpenAI> {
+  private static async _createLLMInstance(): Promise<BaseChatModel> {
     try {
-      if (!this.OPENAI_API_KEY) {
-        throw new Error("OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.")
-      }
-
-      const instance = new ChatOpenAI({
-        modelName: API_CONFIG.OPENAI_MODEL,
-        maxTokens: API_CONFIG.MAX_TOKENS,
-        openAIApiKey: this.OPENAI_API_KEY,
-      })
+      const provider = LLMProviderRegistry.getProvider()
+      const instance = provider.createChatModel()
 
-      console.log(`Using ${API_CONFIG.OPENAI_MODEL} model`)
+      console.log(`Using ${provider.chatModelName()} model from the ${provider.name} provider`)
       return instance
 
     } catch (error) {
@@ -138,11 +337,11 @@ export class LLMService {
       
       if (error instanceof Error) {
         if (error.message.includes('API key')) {
-          throw new Error("OpenAI API configuration error: " + error.message)
+          throw new Error("LLM provider configuration error: " + error.message)
         } else if (error.message.includes('quota')) {
-          throw new Error("OpenAI API quota exceeded. Please check your billing and usage limits.")
+          throw new Error("LLM provider quota exceeded. Please check your billing and usage limits.")
         } else if (error.message.includes('authentication')) {
-          throw new Error("OpenAI API authentication failed. Please check your API key.")
+          throw new Error("LLM provider authentication failed. Please check your API key.")
         }
       }
       throw error
@@ -152,7 +351,27 @@ export class LLMService {
   /**
    * Create enhanced RAG prompt for LLM with better context structure
    */
-  private static _createRAGPrompt(question: string, searchResults: string): string {
+  private static _createRAGPrompt(
+    question: string,
+    searchResults: string,
+    subQuestions: string[] = [],
+    history: ChatTurn[] = []
+  ): string {
+    // Compound questions were searched part by part; ask for every part to be covered
+    const subQuestionSection = subQuestions.length > 1
+      ? `
+CÂU HỎI GỒM CÁC Ý SAU (thông tin cho từng ý được nhóm riêng ở trên):
+${subQuestions.map((subQuestion, index) => `${index + 1}. ${subQuestion}`).join('\n')}
+`
+      : ''
+    // Earlier turns only help interpret the question; the documents remain the only source of facts
+    const historySection = history.length > 0
+      ? `
+LỊCH SỬ HỘI THOẠI GẦN ĐÂY (chỉ dùng để hiểu câu hỏi, không phải nguồn thông tin):
+${this._formatHistory(history)}
+`
+      : ''
+
     return `
 Bạn là một Chuyên gia Tuân thủ An toàn Phòng cháy chữa cháy (PCCC), am hiểu sâu sắc về Luật Phòng cháy chữa cháy Việt Nam, các quy định, tiêu chuẩn an toàn và lịch trình kiểm tra PCCC.
 
@@ -160,21 +379,103 @@ NHIỆM VỤ: Trả lời câu hỏi của người dùng dựa chính xác và
 
 THÔNG TIN TỪ TÀI LIỆU PCCC:
 ${searchResults}
-
+${historySection}
 CÂU HỎI CỦA NGƯỜI DÙNG:
 ${question}
-
+${subQuestionSection}
 HƯỚNG DẪN TRẢ LỜI:
 1. Chỉ sử dụng thông tin có trong phần "THÔNG TIN TỪ TÀI LIỆU PCCC" ở trên
 2. Trả lời bằng tiếng Việt, rõ ràng và chi tiết
 3. Nếu tài liệu không có đủ thông tin để trả lời đầy đủ, hãy nêu rõ điều này
-4. Trích dẫn trực tiếp từ tài liệu khi cần thiết
+4. Sau mỗi ý lấy từ tài liệu, ghi số của phần "Relevant Section" chứa thông tin đó trong ngoặc vuông, ví dụ [1] hoặc [1, 3]. Khi trích dẫn nguyên văn, đặt đoạn trích trong dấu ngoặc kép ngay trước số đó, ví dụ: "Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m" [2]. Chỉ dùng số của các phần có ở trên
 5. Không bịa đặt thông tin không có trong tài liệu
-6. Nếu không tìm thấy thông tin liên quan, thành thật nói rằng không có thông tin trong tài liệu
+6. Nếu không tìm thấy thông tin liên quan, thành thật nói rằng không có thông tin trong tài liệu${subQuestions.length > 1 ? `
+7. Trả lời lần lượt từng ý, sau đó tổng hợp hoặc so sánh các ý nếu câu hỏi yêu cầu` : ''}
 
 CÂU TRẢ LỜI:`
   }
 
+  /**
+   * Create the prompt grading candidate passages for reranking
+   */
+  private static _createRelevancePrompt(question: string, passages: string[]): string {
+    const numberedPassages = passages
+      .map((passage, index) => `[${index + 1}]\n${passage}`)
+      .join('\n\n')
+
+    return `
+Bạn là chuyên gia pháp luật về Phòng cháy chữa cháy (PCCC). Hãy chấm điểm mức độ mỗi đoạn trích dưới đây trả lời trực tiếp câu hỏi.
+
+CÂU HỎI:
+${question}
+
+CÁC ĐOẠN TRÍCH:
+${numberedPassages}
+
+HƯỚNG DẪN CHẤM ĐIỂM:
+- 10: đoạn trích chứa đúng điều khoản trả lời câu hỏi
+- 5: đoạn trích liên quan nhưng không trả lời trực tiếp
+- 0: đoạn trích không liên quan
+- Chú ý số Điều, Khoản và văn bản được hỏi; đoạn trích thuộc điều khác phải bị chấm thấp
+
+Chỉ trả về một mảng JSON, không giải thích, ví dụ: [{"id": 1, "score": 8}, {"id": 2, "score": 0}]`
+  }
+
+  /**
+   * Create the prompt splitting a compound question into sub-questions for retrieval
+   */
+  private static _createPlanningPrompt(question: string, maxQueries: number): string {
+    return `
+Bạn hỗ trợ tìm kiếm trong văn bản pháp luật về Phòng cháy chữa cháy (PCCC). Nếu câu hỏi dưới đây gồm nhiều ý cần tìm ở các phần khác nhau của văn bản (ví dụ so sánh hai loại công trình, hoặc hỏi nhiều yêu cầu khác nhau), hãy tách thành tối đa ${maxQueries} câu hỏi phụ.
+
+CÂU HỎI:
+${question}
+
+HƯỚNG DẪN:
+- Mỗi câu hỏi phụ phải đầy đủ nghĩa khi đứng riêng, giữ nguyên thuật ngữ, số hiệu văn bản và số Điều trong câu hỏi gốc
+- Nếu câu hỏi chỉ có một ý, trả về mảng chỉ gồm câu hỏi gốc
+- Không trả lời câu hỏi
+
+Chỉ trả về một mảng JSON các chuỗi, không giải thích, ví dụ: ["Yêu cầu lối thoát nạn cho nhà chung cư", "Yêu cầu lối thoát nạn cho nhà xưởng"]`
+  }
+
+  /**
+   * Create the prompt rewriting a follow-up question into a standalone one
+   */
+  private static _createCondensePrompt(question: string, history: ChatTurn[]): string {
+    return `
+Bạn hỗ trợ tìm kiếm trong văn bản pháp luật về Phòng cháy chữa cháy (PCCC). Dựa vào lịch sử hội thoại, hãy viết lại câu hỏi tiếp theo của người dùng thành một câu hỏi đầy đủ nghĩa khi đứng riêng.
+
+LỊCH SỬ HỘI THOẠI:
+${this._formatHistory(history)}
+
+CÂU HỎI TIẾP THEO:
+${question}
+
+HƯỚNG DẪN:
+- Thay các từ như "nó", "đó", "trường hợp này" bằng đối tượng cụ thể đã nhắc đến trong hội thoại
+- Giữ nguyên thuật ngữ, số hiệu văn bản và số Điều; bổ sung những gì câu hỏi ngầm kế thừa từ câu hỏi trước
+- Nếu câu hỏi đã đầy đủ nghĩa, trả về nguyên văn
+- Không trả lời câu hỏi
+
+Chỉ trả về câu hỏi đã viết lại, không giải thích.`
+  }
+
+  /**
+   * Format the most recent turns of a conversation for a prompt, shortening long answers
+   */
+  private static _formatHistory(history: ChatTurn[]): string {
+    return history
+      .slice(-CONVERSATION_CONFIG.PROMPT_TURNS)
+      .map(turn => {
+        const answer = turn.answer.length > CONVERSATION_CONFIG.MAX_TURN_ANSWER_LENGTH
+          ? `${turn.answer.substring(0, CONVERSATION_CONFIG.MAX_TURN_ANSWER_LENGTH)}...`
+          : turn.answer
+        return `Người dùng: ${turn.standaloneQuestion || turn.question}\nTrợ lý: ${answer}`
+      })
+      .join('\n\n')
+  }
+
   /**
    * Create prompt for LLM (legacy method for backward compatibility)
    */
@@ -182,6 +483,13 @@ CÂU TRẢ LỜI:`
     return this._createRAGPrompt(question, searchResults)
   }
 
+  /**
+   * Check that search produced context to answer from
+   */
+  private static _hasContext(searchResults: string): boolean {
+    return Boolean(searchResults) && searchResults.trim() !== 'No relevant information found in the uploaded document.'
+  }
+
   /**
    * Check if response is too generic and might not be based on document content
    */
@@ -205,7 +513,7 @@ CÂU TRẢ LỜI:`
     const cleanedResponse = response.trim()
     
     if (cleanedResponse.length > API_CONFIG.MAX_RESPONSE_LENGTH) {
-      return cleanedResponse.substring(0, API_CONFIG.MAX_RESPONSE_LENGTH) + "...\n\n[Câu trả lời đã được rút gọn]"
+      return cleanedResponse.substring(0, API_CONFIG.MAX_RESPONSE_LENGTH) + TRUNCATED_RESPONSE_NOTE
     }
 
     return cleanedResponse
@@ -0,0 +1,50 @@
+import { AzureChatOpenAI, AzureOpenAIEmbeddings } from '@langchain/openai'
+import type { LLMProvider } from './provider'
+import { API_CONFIG, LLM_PROVIDER_CONFIG } from '../../constants'
+
+const { AZURE } = LLM_PROVIDER_CONFIG
+
+function requireSettings(deployment: string, deploymentVariable: string): void {
+  if (!AZURE.API_KEY || !AZURE.ENDPOINT || !deployment) {
+    throw new Error(`Azure OpenAI is not configured. Please set AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT and ${deploymentVariable}.`)
+  }
+}
+
+/**
+ * Azure OpenAI deployments, addressed by the resource endpoint and deployment names
+ */
+export const azureOpenAIProvider: LLMProvider = {
+  name: 'azure',
+
+  chatModelName(): string {
+    return AZURE.CHAT_DEPLOYMENT
+  },
+
+  embeddingModelName(): string {
+    return `azure-${AZURE.EMBEDDING_DEPLOYMENT}`
+  },
+
+  createChatModel() {
+    requireSettings(AZURE.CHAT_DEPLOYMENT, 'AZURE_OPENAI_CHAT_DEPLOYMENT')
+    return new AzureChatOpenAI({
+      azureOpenAIApiKey: AZURE.API_KEY,
+      azureOpenAIEndpoint: AZURE.ENDPOINT,
+      azureOpenAIApiDeploymentName: AZURE.CHAT_DEPLOYMENT,
+      azureOpenAIApiVersion: AZURE.API_VERSION,
+      maxTokens: API_CONFIG.MAX_TOKENS,
+    })
+  },
+
+  createEmbeddings() {
+    requireSettings(AZURE.EMBEDDING_DEPLOYMENT, 'AZURE_OPENAI_EMBEDDING_DEPLOYMENT')
+    return new AzureOpenAIEmbeddings({
+      azureOpenAIApiKey: AZURE.API_KEY,
+      azureOpenAIEndpoint: AZURE.ENDPOINT,
+      azureOpenAIApiEmbeddingsDeploymentName: AZURE.EMBEDDING_DEPLOYMENT,
+      azureOpenAIApiVersion: AZURE.API_VERSION,
+      // Azure rejects larger embedding batches on older API versions
+      batchSize: 16,
+      maxRetries: 3,
+    })
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { LLM_PROVIDER_CONFIG } from '../../constants'
+import { mockProvider } from './mockProvider'
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0)
+}
+
+describe('mockProvider embeddings', () => {
+  const embeddings = mockProvider.createEmbeddings()
+
+  it('gives the same unit vector for the same text on every call', async () => {
+    const [first] = await embeddings.embedDocuments(['Chiều rộng lối thoát nạn'])
+    const second = await embeddings.embedQuery('Chiều rộng lối thoát nạn')
+
+    expect(first).toHaveLength(LLM_PROVIDER_CONFIG.MOCK_EMBEDDING_DIMENSIONS)
+    expect(second).toEqual(first)
+    expect(cosine(first, first)).toBeCloseTo(1)
+  })
+
+  it('places texts sharing terms closer than unrelated texts', async () => {
+    const [query, related, unrelated] = await embeddings.embedDocuments([
+      'chiều rộng lối thoát nạn',
+      'Lối thoát nạn có chiều rộng không nhỏ hơn 1,2 m',
+      'Bình chữa cháy xách tay đặt ở hành lang'
+    ])
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+  })
+})
+
+describe('mockProvider chat model', () => {
+  const model = mockProvider.createChatModel()
+
+  it('answers an answer prompt from its context', async () => {
+    const prompt = [
+      'THÔNG TIN TỪ TÀI LIỆU PCCC:',
+      '--- Relevant Section 1 ---',
+      'Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.',
+      'CÂU HỎI CỦA NGƯỜI DÙNG:',
+      'Chiều rộng lối thoát nạn?',
+      ''
+    ].join('\n')
+
+    const reply = await model.invoke(prompt)
+
+    expect(reply.content).toContain('"Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m." [1]')
+  })
+
+  it('keeps the question whole when asked to plan sub-queries', async () => {
+    const reply = await model.invoke('CÂU HỎI:\nSo sánh A và B\nChỉ trả về một mảng JSON các chuỗi')
+
+    expect(JSON.parse(String(reply.content))).toEqual(['So sánh A và B'])
+  })
+
+  it('streams the same reply in pieces', async () => {
+    const prompt = 'CÂU HỎI:\nCòn nhà xưởng thì sao?'
+    const pieces: string[] = []
+    for await (const chunk of await model.stream(prompt)) {
+      pieces.push(String(chunk.content))
+    }
+
+    expect(pieces.length).toBeGreaterThan(1)
+    expect(pieces.join('')).toBe((await model.invoke(prompt)).content)
+  })
+})
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto'
+import { SimpleChatModel } from '@langchain/core/language_models/chat_models'
+import { Embeddings } from '@langchain/core/embeddings'
+import { AIMessageChunk } from '@langchain/core/messages'
+import type { BaseMessage } from '@langchain/core/messages'
+import { ChatGenerationChunk } from '@langchain/core/outputs'
+import type { LLMProvider } from './provider'
+import { LLM_PROVIDER_CONFIG } from '../../constants'
+import { tokenizeVietnamese } from '../../search/vietnameseTokenizer'
+import { ExtractiveAnswerer } from '../extractiveAnswerer'
+
+// Sections of the prompts built by LLMService, which tell the prompts apart
+const RAG_PROMPT_PATTERN = /THÔNG TIN TỪ TÀI LIỆU PCCC:\n([\s\S]*?)\n(?:LỊCH SỬ HỘI THOẠI GẦN ĐÂY|CÂU HỎI CỦA NGƯỜI DÙNG)[^\n]*:\n/
+const RELEVANCE_PROMPT_PATTERN = /CÁC ĐOẠN TRÍCH:\n([\s\S]*?)\n\nHƯỚNG DẪN CHẤM ĐIỂM:/
+const PLANNING_PROMPT_PATTERN = /Chỉ trả về một mảng JSON các chuỗi/
+// "[2]" lines numbering the passages of the relevance prompt
+const PASSAGE_HEADING_PATTERN = /^\[(\d+)\]$/gm
+// Question under the last "CÂU HỎI ...:" heading of a prompt
+const QUESTION_PATTERN = /CÂU HỎI[^\n]*:\n([^\n]+)/g
+
+function messageText(messages: BaseMessage[]): string {
+  return messages.map(message => typeof message.content === 'string' ? message.content : '').join('\n')
+}
+
+function lastQuestion(prompt: string): string | undefined {
+  const questions = Array.from(prompt.matchAll(QUESTION_PATTERN))
+  return questions.length > 0 ? questions[questions.length - 1][1].trim() : undefined
+}
+
+/**
+ * Chat model that answers without a network call, scripted for each prompt LLMService sends:
+ * answer prompts get an extractive answer from their context, relevance prompts get term-overlap
+ * scores, planning prompts keep the question whole and condense prompts get the question back
+ */
+class MockChatModel extends SimpleChatModel {
+  constructor() {
+    super({})
+  }
+
+  _llmType(): string {
+    return 'mock'
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    const prompt = messageText(messages)
+    const question = lastQuestion(prompt) || ''
+
+    const context = prompt.match(RAG_PROMPT_PATTERN)?.[1]
+    if (context !== undefined) {
+      return ExtractiveAnswerer.answer(question, context)
+    }
+
+    const passages = prompt.match(RELEVANCE_PROMPT_PATTERN)?.[1]
+    if (passages !== undefined) {
+      const headings = Array.from(passages.matchAll(PASSAGE_HEADING_PATTERN))
+      const judgements = headings.map((heading, index) => {
+        const end = index + 1 < headings.length ? headings[index + 1].index! : passages.length
+        const passage = passages.slice(heading.index! + heading[0].length, end)
+        return { id: parseInt(heading[1], 10), score: ExtractiveAnswerer.scorePassage(question, passage) }
+      })
+      return JSON.stringify(judgements)
+    }
+
+    if (PLANNING_PROMPT_PATTERN.test(prompt)) {
+      return JSON.stringify([question])
+    }
+
+    return question || 'OK'
+  }
+
+  /**
+   * Send the scripted reply word by word, so streaming clients see it arrive in pieces
+   */
+  async *_streamResponseChunks(messages: BaseMessage[]): AsyncGenerator<ChatGenerationChunk> {
+    const text = await this._call(messages)
+    for (const piece of text.match(/\S+\s*|\s+/g) || []) {
+      yield new ChatGenerationChunk({ text: piece, message: new AIMessageChunk({ content: piece }) })
+    }
+  }
+}
+
+/**
+ * Embeddings that hash each term of a text into a fixed-size vector, so texts sharing terms are
+ * similar. Deterministic and local; good enough to exercise retrieval without a model server.
+ */
+class HashingEmbeddings extends Embeddings {
+  constructor(private readonly dimensions: number) {
+    super({})
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map(document => this.embed(document))
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document)
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    for (const term of tokenizeVietnamese(text)) {
+      const digest = createHash('md5').update(term).digest()
+      const sign = digest[4] & 1 ? 1 : -1
+      vector[digest.readUInt32BE(0) % this.dimensions] += sign
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map(value => value / norm) : vector
+  }
+}
+
+/**
+ * Deterministic provider for development and tests; nothing leaves the machine
+ */
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+
+  chatModelName(): string {
+    return 'mock'
+  },
+
+  embeddingModelName(): string {
+    return `mock-hashing-${LLM_PROVIDER_CONFIG.MOCK_EMBEDDING_DIMENSIONS}`
+  },
+
+  createChatModel() {
+    return new MockChatModel()
+  },
+
+  createEmbeddings() {
+    return new HashingEmbeddings(LLM_PROVIDER_CONFIG.MOCK_EMBEDDING_DIMENSIONS)
+  }
+}
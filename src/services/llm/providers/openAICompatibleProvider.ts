@@ -0,0 +1,48 @@
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai'
+import type { LLMProvider } from './provider'
+import { API_CONFIG, LLM_PROVIDER_CONFIG } from '../../constants'
+
+// Self-hosted servers usually ignore the key, but the OpenAI client requires one
+const PLACEHOLDER_API_KEY = 'not-needed'
+
+function baseURL(): string {
+  if (!LLM_PROVIDER_CONFIG.BASE_URL) {
+    throw new Error("OpenAI-compatible endpoint is not configured. Please set LLM_BASE_URL, e.g. http://localhost:8000/v1.")
+  }
+  return LLM_PROVIDER_CONFIG.BASE_URL
+}
+
+/**
+ * Any server implementing the OpenAI chat and embeddings API, such as vLLM, Ollama or LM Studio,
+ * so documents and questions stay on the organisation's own infrastructure
+ */
+export const openAICompatibleProvider: LLMProvider = {
+  name: 'openai-compatible',
+
+  chatModelName(): string {
+    return LLM_PROVIDER_CONFIG.CHAT_MODEL
+  },
+
+  embeddingModelName(): string {
+    return `compatible-${LLM_PROVIDER_CONFIG.EMBEDDING_MODEL}`
+  },
+
+  createChatModel() {
+    return new ChatOpenAI({
+      modelName: LLM_PROVIDER_CONFIG.CHAT_MODEL,
+      maxTokens: API_CONFIG.MAX_TOKENS,
+      apiKey: LLM_PROVIDER_CONFIG.API_KEY || PLACEHOLDER_API_KEY,
+      configuration: { baseURL: baseURL() },
+    })
+  },
+
+  createEmbeddings() {
+    return new OpenAIEmbeddings({
+      modelName: LLM_PROVIDER_CONFIG.EMBEDDING_MODEL,
+      apiKey: LLM_PROVIDER_CONFIG.API_KEY || PLACEHOLDER_API_KEY,
+      configuration: { baseURL: baseURL() },
+      batchSize: 50,
+      maxRetries: 3,
+    })
+  }
+}
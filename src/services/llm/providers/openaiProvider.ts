@@ -0,0 +1,42 @@
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai'
+import type { LLMProvider } from './provider'
+import { API_CONFIG, LLM_PROVIDER_CONFIG } from '../../constants'
+
+function apiKey(): string {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.")
+  }
+  return process.env.OPENAI_API_KEY
+}
+
+/**
+ * OpenAI's hosted API
+ */
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+
+  chatModelName(): string {
+    return LLM_PROVIDER_CONFIG.CHAT_MODEL
+  },
+
+  embeddingModelName(): string {
+    return LLM_PROVIDER_CONFIG.EMBEDDING_MODEL
+  },
+
+  createChatModel() {
+    return new ChatOpenAI({
+      modelName: LLM_PROVIDER_CONFIG.CHAT_MODEL,
+      maxTokens: API_CONFIG.MAX_TOKENS,
+      openAIApiKey: apiKey(),
+    })
+  },
+
+  createEmbeddings() {
+    return new OpenAIEmbeddings({
+      apiKey: apiKey(),
+      modelName: LLM_PROVIDER_CONFIG.EMBEDDING_MODEL,
+      batchSize: 50,
+      maxRetries: 3,
+    })
+  }
+}
@@ -0,0 +1,17 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import type { EmbeddingsInterface } from '@langchain/core/embeddings'
+
+export type LLMProviderName = 'openai' | 'azure' | 'openai-compatible' | 'mock'
+
+/**
+ * Common interface implemented by every model provider: the chat model that answers questions and
+ * the embeddings model that indexes chunks. Factories throw when the provider's settings are missing.
+ */
+export interface LLMProvider {
+  name: LLMProviderName
+  chatModelName(): string
+  // Identifies the vectors in the embedding cache, so providers never share cached vectors
+  embeddingModelName(): string
+  createChatModel(): BaseChatModel
+  createEmbeddings(): EmbeddingsInterface
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import type { LLMProviderName } from './provider'
+import { LLMProviderRegistry } from './providerRegistry'
+
+describe('LLMProviderRegistry', () => {
+  it('lists every provider', () => {
+    expect(LLMProviderRegistry.getProviderNames()).toEqual(['openai', 'azure', 'openai-compatible', 'mock'])
+  })
+
+  it('finds a provider by name', () => {
+    expect(LLMProviderRegistry.getProvider('mock').embeddingModelName()).toMatch(/^mock-hashing-\d+$/)
+  })
+
+  it('rejects an unknown provider with the names it accepts', () => {
+    expect(() => LLMProviderRegistry.getProvider('ollama' as LLMProviderName))
+      .toThrow('Unknown LLM provider "ollama". Use one of: openai, azure, openai-compatible, mock')
+  })
+})
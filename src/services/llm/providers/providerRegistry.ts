@@ -0,0 +1,33 @@
+import type { LLMProvider, LLMProviderName } from './provider'
+import { LLM_PROVIDER_CONFIG } from '../../constants'
+import { openaiProvider } from './openaiProvider'
+import { azureOpenAIProvider } from './azureOpenAIProvider'
+import { openAICompatibleProvider } from './openAICompatibleProvider'
+import { mockProvider } from './mockProvider'
+
+const PROVIDERS: LLMProvider[] = [
+  openaiProvider,
+  azureOpenAIProvider,
+  openAICompatibleProvider,
+  mockProvider
+]
+
+export class LLMProviderRegistry {
+  /**
+   * The provider selected by LLM_PROVIDER, or the one named
+   */
+  static getProvider(name: LLMProviderName = LLM_PROVIDER_CONFIG.PROVIDER): LLMProvider {
+    const provider = PROVIDERS.find(candidate => candidate.name === name)
+    if (!provider) {
+      throw new Error(`Unknown LLM provider "${name}". Use one of: ${this.getProviderNames().join(', ')}`)
+    }
+    return provider
+  }
+
+  /**
+   * Names of the available providers
+   */
+  static getProviderNames(): LLMProviderName[] {
+    return PROVIDERS.map(provider => provider.name)
+  }
+}
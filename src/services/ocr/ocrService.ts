@@ -0,0 +1,133 @@
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { OCR_CONFIG } from '../constants'
+
+const execFileAsync = promisify(execFile)
+
+export interface OcrPageResult {
+  pageNumber: number
+  text: string
+  confidence: number // Mean word confidence, 0-1
+}
+
+// Cached result of the engine availability check
+let engineAvailable: boolean | null = null
+
+export class OCRService {
+  /**
+   * Check that OCR is enabled and both pdftoppm and tesseract (with the configured language) are installed
+   */
+  static async isAvailable(): Promise<boolean> {
+    if (!OCR_CONFIG.ENABLED) {
+      return false
+    }
+    if (engineAvailable !== null) {
+      return engineAvailable
+    }
+
+    try {
+      await execFileAsync(OCR_CONFIG.PDFTOPPM_PATH, ['-v'], { timeout: 10000 })
+      const { stdout } = await execFileAsync(OCR_CONFIG.TESSERACT_PATH, ['--list-langs'], { timeout: 10000 })
+      const languages = stdout.split(/\s+/)
+      engineAvailable = OCR_CONFIG.LANGUAGE.split('+').every(language => languages.includes(language))
+      if (!engineAvailable) {
+        console.warn(`Tesseract is installed but language data "${OCR_CONFIG.LANGUAGE}" is missing`)
+      }
+    } catch (error) {
+      console.warn('OCR engine not available:', error instanceof Error ? error.message : error)
+      engineAvailable = false
+    }
+
+    return engineAvailable
+  }
+
+  /**
+   * Render the given PDF pages to images and recognise their text
+   */
+  static async recognizePdfPages(buffer: ArrayBuffer, pageNumbers: number[]): Promise<OcrPageResult[]> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pccc-ocr-'))
+    const pdfPath = path.join(workDir, 'input.pdf')
+    const results: OcrPageResult[] = []
+
+    try {
+      await fs.writeFile(pdfPath, Buffer.from(buffer))
+
+      for (const pageNumber of pageNumbers) {
+        try {
+          results.push(await this.recognizePage(pdfPath, workDir, pageNumber))
+        } catch (error) {
+          console.warn(`OCR failed for page ${pageNumber}:`, error instanceof Error ? error.message : error)
+        }
+      }
+
+      console.log(`OCR recognised ${results.filter(result => result.text).length}/${pageNumbers.length} pages`)
+      return results
+
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined)
+    }
+  }
+
+  /**
+   * Rasterise one page with pdftoppm and run tesseract on it
+   */
+  private static async recognizePage(pdfPath: string, workDir: string, pageNumber: number): Promise<OcrPageResult> {
+    const imageBase = path.join(workDir, `page-${pageNumber}`)
+
+    await execFileAsync(OCR_CONFIG.PDFTOPPM_PATH, [
+      '-r', String(OCR_CONFIG.RENDER_DPI),
+      '-f', String(pageNumber),
+      '-l', String(pageNumber),
+      '-png',
+      '-singlefile',
+      pdfPath,
+      imageBase
+    ], { timeout: OCR_CONFIG.PAGE_TIMEOUT })
+
+    const { stdout } = await execFileAsync(OCR_CONFIG.TESSERACT_PATH, [
+      `${imageBase}.png`,
+      'stdout',
+      '-l', OCR_CONFIG.LANGUAGE,
+      'tsv'
+    ], { timeout: OCR_CONFIG.PAGE_TIMEOUT, maxBuffer: 20 * 1024 * 1024 })
+
+    return { pageNumber, ...this.parseTsv(stdout) }
+  }
+
+  /**
+   * Rebuild line text and mean word confidence from tesseract's TSV output
+   */
+  private static parseTsv(tsv: string): { text: string; confidence: number } {
+    const lines = new Map<string, string[]>()
+    const confidences: number[] = []
+
+    for (const row of tsv.split('\n').slice(1)) {
+      // level page block paragraph line word left top width height conf text
+      const columns = row.split('\t')
+      if (columns.length < 12 || columns[0] !== '5') {
+        continue
+      }
+      const word = columns.slice(11).join('\t').trim()
+      const confidence = parseFloat(columns[10])
+      if (!word || Number.isNaN(confidence) || confidence < 0) {
+        continue
+      }
+
+      const lineKey = `${columns[2]}-${columns[3]}-${columns[4]}`
+      const lineWords = lines.get(lineKey) || []
+      lineWords.push(word)
+      lines.set(lineKey, lineWords)
+      confidences.push(confidence)
+    }
+
+    const text = Array.from(lines.values()).map(words => words.join(' ')).join('\n').normalize('NFC')
+    const confidence = confidences.length > 0
+      ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length / 100
+      : 0
+
+    return { text, confidence: Math.round(confidence * 1000) / 1000 }
+  }
+}
@@ -0,0 +1,103 @@
+import type { DocumentInfo, LegalDocumentType } from '../types'
+
+// "Số: 136/2020/NĐ-CP", "Luật số: 40/2013/QH13"
+const DOCUMENT_NUMBER_PATTERN = /số\s*[:.]?\s*(\d{1,4}\/\d{4}\/[A-ZĐ0-9]+(?:-[A-ZĐ0-9]+)*)/iu
+// "TCVN 3890:2023", "QCVN 06:2022/BXD"
+const STANDARD_NUMBER_PATTERN = /\b(TCVN|QCVN)\s*(\d+(?:-\d+)*)\s*:\s*(\d{4})(?:\s*\/\s*([A-ZĐ]+))?/u
+// Issue date line: "Hà Nội, ngày 24 tháng 11 năm 2020"
+const ISSUE_DATE_PATTERN = /ngày\s+\d{1,2}\s+tháng\s+\d{1,2}\s+năm\s+(\d{4})/iu
+// File names such as "136-2020-ND-CP.pdf" or "nghi_dinh_136_2020_nd-cp.pdf"
+const FILE_NAME_NUMBER_PATTERN = /(\d{1,4})[-_ ](\d{4})[-_ ](ND|NĐ|TT|QH|QD|QĐ)(?:[-_ ]?([A-Z]+))?/iu
+
+// Document type from the code after the year in the number
+const TYPE_BY_CODE: Array<[RegExp, LegalDocumentType]> = [
+  [/^QH/i, 'Luật'],
+  [/^(NĐ|ND)(-|$)/i, 'Nghị định'],
+  [/^TT(-|$)/i, 'Thông tư'],
+  [/^(QĐ|QD)(-|$)/i, 'Quyết định']
+]
+
+// Document type from the title line of the header
+const TYPE_BY_TITLE: Array<[RegExp, LegalDocumentType]> = [
+  [/^\s*nghị\s+định\s*$/imu, 'Nghị định'],
+  [/^\s*thông\s+tư\s*$/imu, 'Thông tư'],
+  [/^\s*quyết\s+định\s*$/imu, 'Quyết định'],
+  [/^\s*luật\s*$/imu, 'Luật']
+]
+
+// Issuing bodies by the last code of the number ("CP" in NĐ-CP, "BCA" in TT-BCA)
+const ISSUING_BODY_BY_CODE: Record<string, string> = {
+  QH: 'Quốc hội',
+  CP: 'Chính phủ',
+  TTG: 'Thủ tướng Chính phủ',
+  BCA: 'Bộ Công an',
+  BXD: 'Bộ Xây dựng',
+  BKHCN: 'Bộ Khoa học và Công nghệ'
+}
+
+// How far into the text the header (agency, number, title, date) is searched
+const HEADER_LENGTH = 3000
+
+export class DocumentInfoDetector {
+  /**
+   * Detect the type, number, issue year and issuing body of a regulation from its header,
+   * falling back to its file name
+   */
+  static detect(text: string, fileName: string): DocumentInfo {
+    const header = text.slice(0, HEADER_LENGTH).normalize('NFC')
+
+    const standard = header.match(STANDARD_NUMBER_PATTERN)
+    const numbered = header.match(DOCUMENT_NUMBER_PATTERN)
+    const byTitle = TYPE_BY_TITLE.find(([pattern]) => pattern.test(header))?.[1]
+
+    // A decree's header number comes before any standard it cites, so prefer it when present
+    if (numbered || (!standard && this.fromFileName(fileName).documentNumber)) {
+      const documentNumber = numbered ? numbered[1].toUpperCase() : this.fromFileName(fileName).documentNumber!
+      const [, year, codes = ''] = documentNumber.split('/')
+      const codeParts = codes.split('-')
+      const issuingCode = codeParts[codeParts.length - 1].replace(/\d+$/, '').toUpperCase()
+
+      return this.compact({
+        documentType: TYPE_BY_CODE.find(([pattern]) => pattern.test(codes))?.[1] || byTitle,
+        documentNumber,
+        issueYear: parseInt(year, 10),
+        issuingBody: ISSUING_BODY_BY_CODE[issuingCode]
+      })
+    }
+
+    if (standard) {
+      return this.compact({
+        documentType: standard[1].toUpperCase() as LegalDocumentType,
+        documentNumber: `${standard[2]}:${standard[3]}${standard[4] ? `/${standard[4]}` : ''}`,
+        issueYear: parseInt(standard[3], 10),
+        issuingBody: standard[4] ? ISSUING_BODY_BY_CODE[standard[4].toUpperCase()] : undefined
+      })
+    }
+
+    const issueDate = header.match(ISSUE_DATE_PATTERN)
+    return this.compact({
+      documentType: byTitle,
+      issueYear: issueDate ? parseInt(issueDate[1], 10) : undefined
+    })
+  }
+
+  /**
+   * Rebuild a document number like "136/2020/NĐ-CP" from a file name
+   */
+  private static fromFileName(fileName: string): DocumentInfo {
+    const match = fileName.normalize('NFC').match(FILE_NAME_NUMBER_PATTERN)
+    if (!match) {
+      return {}
+    }
+    const code = match[3].toUpperCase().replace('ND', 'NĐ').replace('QD', 'QĐ')
+    return {
+      documentNumber: `${match[1]}/${match[2]}/${code}${match[4] ? `-${match[4].toUpperCase()}` : ''}`
+    }
+  }
+
+  private static compact(info: DocumentInfo): DocumentInfo {
+    return Object.fromEntries(
+      Object.entries(info).filter(([, value]) => value !== undefined && !Number.isNaN(value))
+    ) as DocumentInfo
+  }
+}
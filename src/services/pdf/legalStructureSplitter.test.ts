@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { Document } from 'langchain/document'
+import { MemoryVectorStore } from 'langchain/vectorstores/memory'
+import { FakeEmbeddings } from '@langchain/core/utils/testing'
+import { LegalStructureSplitter } from './legalStructureSplitter'
+import { SearchService } from '../search/searchService'
+
+describe('LegalStructureSplitter', () => {
+  it('does not read table-of-contents or running text lines as headings', async () => {
+    const text = [
+      'Mục lục',
+      'Chương I',
+      'QUY ĐỊNH CHUNG',
+      'Điều 1. Phạm vi điều chỉnh',
+      'Quy định này áp dụng cho nhà chung cư.',
+      'chương cũ của quy định đã bị bãi bỏ.',
+      'Điều 2. Giải thích từ ngữ',
+      'Lối thoát nạn là lối đi dẫn ra bên ngoài.',
+      'CHƯƠNG II. THOÁT NẠN',
+      'MỤC 1. Lối thoát nạn',
+      'Điều 3. Số lượng lối thoát nạn',
+      'Mỗi tầng phải có ít nhất 2 lối thoát nạn.'
+    ].join('\n')
+
+    const chunks = await LegalStructureSplitter.split(text)
+
+    const article1 = chunks.find(chunk => chunk.metadata.articleNumber === '1')!
+    expect(article1.metadata.chapter).toBe('Chương I')
+    expect(article1.metadata.section).toBeUndefined()
+    expect(article1.text).toContain('chương cũ của quy định')
+    const article3 = chunks.find(chunk => chunk.metadata.articleNumber === '3')!
+    expect(article3.metadata.chapter).toBe('Chương II')
+    expect(article3.metadata.section).toBe('Mục 1')
+    expect(chunks.some(chunk => chunk.metadata.structurePath?.includes('Mục l'))).toBe(false)
+  })
+
+  it('gives clause chunks of an article with a long heading distinct search results', async () => {
+    const clause = (number: number) => `${number}. Khoản ${number} quy định việc kiểm tra an toàn phòng cháy tại cơ sở, được lặp lại để đủ dài cho một chunk riêng.`
+    const text = [
+      'Điều 12. Trách nhiệm của cơ quan, tổ chức, hộ gia đình và cá nhân trong việc bảo đảm an toàn phòng cháy và chữa cháy',
+      clause(1),
+      clause(2),
+      clause(3)
+    ].join('\n')
+
+    const chunks = await LegalStructureSplitter.split(text, 260, 0)
+    expect(chunks.length).toBeGreaterThan(1)
+    // Every chunk starts with the same 100 characters of heading
+    expect(new Set(chunks.map(chunk => chunk.text.slice(0, 100))).size).toBe(1)
+
+    const documents = chunks.map((chunk, chunkIndex) => new Document({
+      pageContent: chunk.text,
+      metadata: { ...chunk.metadata, documentId: 'doc-1', chunkIndex }
+    }))
+    const vectorStore = await MemoryVectorStore.fromDocuments(documents, new FakeEmbeddings())
+    const result = await SearchService.hybridSearch(vectorStore, documents, 'kiểm tra an toàn phòng cháy', { maxResults: chunks.length })
+
+    expect(result.results).toHaveLength(chunks.length)
+  })
+})
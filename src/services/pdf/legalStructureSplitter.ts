@@ -0,0 +1,379 @@
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
+import { PROCESSING_CONFIG } from '../constants'
+
+// Hierarchy of a chunk inside a Vietnamese legal document
+export interface LegalStructureMetadata {
+  chapter?: string
+  chapterTitle?: string
+  section?: string
+  article?: string
+  articleNumber?: string
+  articleTitle?: string
+  clauses?: string[]
+  points?: string[]
+  structurePath?: string
+}
+
+// Chunk produced by the splitter, with offsets into the source text
+export interface LegalChunk {
+  text: string
+  start: number
+  end: number
+  metadata: LegalStructureMetadata
+}
+
+interface Line {
+  text: string
+  start: number
+  end: number
+}
+
+interface Block {
+  kind: 'article' | 'other'
+  start: number
+  end: number
+  context: LegalStructureMetadata
+  heading?: string
+}
+
+interface Segment {
+  start: number
+  end: number
+  clause?: string
+  point?: string
+}
+
+// Headings are case-sensitive with uppercase roman numerals, so "Mục lục" or "chương cũ" in running text are not headings
+const CHAPTER_PATTERN = /^\s*(?:Chương|CHƯƠNG)\s+([IVXLCDM]+|\d+)(?=[\s.:–-]|$)[\s.:–-]*(.*)$/u
+const SECTION_PATTERN = /^\s*(?:Mục|MỤC)\s+([IVXLCDM]+|\d+)(?=[\s.:–-]|$)[\s.:–-]*(.*)$/u
+const ARTICLE_PATTERN = /^\s*điều\s+(\d+[a-z]?)\s*[.:]\s*(.*)$/iu
+const CLAUSE_PATTERN = /^\s*(\d{1,3})\.\s+\S/u
+const POINT_PATTERN = /^\s*([a-zđ])\)\s+\S/u
+
+// Order of lettered points (điểm) in Vietnamese legal drafting
+const POINT_SEQUENCE = ['a', 'b', 'c', 'd', 'đ', 'e', 'g', 'h', 'i', 'k', 'l', 'm', 'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'x', 'y']
+
+// Chapter/section heading blocks shorter than this are treated as headings only
+const HEADING_BLOCK_MAX_LENGTH = 200
+
+export class LegalStructureSplitter {
+  /**
+   * Check whether text looks like a decree, circular or law split into articles
+   */
+  static hasLegalStructure(text: string): boolean {
+    let articleCount = 0
+    for (const line of this.splitLines(text)) {
+      if (ARTICLE_PATTERN.test(line.text)) {
+        articleCount++
+        if (articleCount >= 2) {
+          return true
+        }
+      }
+    }
+    return false
+  }
+
+  /**
+   * Split legal text so that each Điều is one chunk, sub-splitting long articles by khoản and điểm
+   */
+  static async split(
+    text: string,
+    chunkSize: number = PROCESSING_CONFIG.DEFAULT_CHUNK_SIZE,
+    chunkOverlap: number = PROCESSING_CONFIG.DEFAULT_CHUNK_OVERLAP
+  ): Promise<LegalChunk[]> {
+    const chunks: LegalChunk[] = []
+
+    for (const block of this.parseBlocks(text)) {
+      if (block.kind === 'article') {
+        chunks.push(...await this.splitArticle(text, block, chunkSize, chunkOverlap))
+      } else {
+        const segments = await this.splitRecursively(text, { start: block.start, end: block.end }, chunkSize, chunkOverlap)
+        for (const segment of segments) {
+          chunks.push(this.createChunk(text, segment, [segment], block))
+        }
+      }
+    }
+
+    return chunks.filter(chunk => chunk.text.length > 0)
+  }
+
+  /**
+   * Build the structure path label, e.g. "Chương II > Mục 1 > Điều 15 > Khoản 2"
+   */
+  static formatStructurePath(metadata: LegalStructureMetadata): string {
+    const parts: string[] = []
+    if (metadata.chapter) parts.push(metadata.chapter)
+    if (metadata.section) parts.push(metadata.section)
+    if (metadata.article) parts.push(metadata.article)
+    if (metadata.clauses && metadata.clauses.length > 0) {
+      parts.push(`Khoản ${this.formatRange(metadata.clauses)}`)
+    }
+    if (metadata.points && metadata.points.length > 0) {
+      parts.push(`Điểm ${this.formatRange(metadata.points)}`)
+    }
+    return parts.join(' > ')
+  }
+
+  /**
+   * Walk the lines of the text and cut it into article blocks and everything else
+   */
+  private static parseBlocks(text: string): Block[] {
+    const lines = this.splitLines(text)
+    const blocks: Block[] = []
+    const context: LegalStructureMetadata = {}
+    let current: Block | null = null
+
+    const closeCurrent = (end: number) => {
+      if (!current) {
+        return
+      }
+      current.end = end
+      const content = text.slice(current.start, current.end).trim()
+      const isHeadingOnly = current.kind === 'other' &&
+        content.length < HEADING_BLOCK_MAX_LENGTH &&
+        (CHAPTER_PATTERN.test(content) || SECTION_PATTERN.test(content))
+      if (content && !isHeadingOnly) {
+        blocks.push(current)
+      }
+      current = null
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      const chapterMatch = line.text.match(CHAPTER_PATTERN)
+      const sectionMatch = !chapterMatch ? line.text.match(SECTION_PATTERN) : null
+      const articleMatch = !chapterMatch && !sectionMatch ? line.text.match(ARTICLE_PATTERN) : null
+
+      if (chapterMatch) {
+        closeCurrent(line.start)
+        context.chapter = `Chương ${chapterMatch[1].toUpperCase()}`
+        context.chapterTitle = chapterMatch[2].trim() || lines[i + 1]?.text.trim() || undefined
+        delete context.section
+        current = { kind: 'other', start: line.start, end: line.end, context: { ...context } }
+      } else if (sectionMatch) {
+        closeCurrent(line.start)
+        context.section = `Mục ${sectionMatch[1]}`
+        current = { kind: 'other', start: line.start, end: line.end, context: { ...context } }
+      } else if (articleMatch) {
+        closeCurrent(line.start)
+        current = {
+          kind: 'article',
+          start: line.start,
+          end: line.end,
+          heading: line.text.trim(),
+          context: {
+            ...context,
+            article: `Điều ${articleMatch[1]}`,
+            articleNumber: articleMatch[1],
+            articleTitle: articleMatch[2].trim() || undefined
+          }
+        }
+      } else if (!current) {
+        current = { kind: 'other', start: line.start, end: line.end, context: { ...context } }
+      }
+    }
+
+    closeCurrent(text.length)
+    return blocks
+  }
+
+  /**
+   * Keep an article whole when it fits, otherwise pack its clauses (and points) into chunks
+   */
+  private static async splitArticle(
+    text: string,
+    block: Block,
+    chunkSize: number,
+    chunkOverlap: number
+  ): Promise<LegalChunk[]> {
+    const articleSegment: Segment = { start: block.start, end: block.end }
+    if (block.end - block.start <= chunkSize) {
+      return [this.createChunk(text, articleSegment, [], block)]
+    }
+
+    const clauses = this.findNumberedSegments(text, articleSegment, CLAUSE_PATTERN, 'clause')
+    const leaves: Segment[] = []
+
+    for (const clause of clauses) {
+      if (clause.end - clause.start <= chunkSize) {
+        leaves.push(clause)
+        continue
+      }
+
+      const points = clause.clause
+        ? this.findNumberedSegments(text, clause, POINT_PATTERN, 'point')
+        : [clause]
+      for (const point of points) {
+        if (point.end - point.start <= chunkSize) {
+          leaves.push(point)
+        } else {
+          leaves.push(...await this.splitRecursively(text, point, chunkSize, chunkOverlap))
+        }
+      }
+    }
+
+    return this.pack(leaves, chunkSize).map(group => this.createChunk(
+      text,
+      { start: group[0].start, end: group[group.length - 1].end },
+      group,
+      block
+    ))
+  }
+
+  /**
+   * Cut a range at lines matching a numbered pattern (khoản "1." or điểm "a)"), keeping the numbering in order
+   */
+  private static findNumberedSegments(
+    text: string,
+    range: Segment,
+    pattern: RegExp,
+    kind: 'clause' | 'point'
+  ): Segment[] {
+    const starts: Array<{ offset: number; label: string }> = []
+    let previous: string | null = null
+
+    for (const line of this.splitLines(text.slice(range.start, range.end), range.start)) {
+      const match = line.text.match(pattern)
+      if (!match) {
+        continue
+      }
+      const label = match[1].toLowerCase()
+      if (this.isNextInSequence(previous, label, kind)) {
+        starts.push({ offset: line.start, label })
+        previous = label
+      }
+    }
+
+    if (starts.length === 0) {
+      return [{ ...range }]
+    }
+
+    const segments: Segment[] = []
+    if (starts[0].offset > range.start) {
+      // Heading or lead-in text before the first khoản/điểm
+      segments.push({ start: range.start, end: starts[0].offset, clause: range.clause })
+    }
+    starts.forEach((entry, index) => {
+      segments.push({
+        start: entry.offset,
+        end: starts[index + 1]?.offset ?? range.end,
+        clause: kind === 'clause' ? entry.label : range.clause,
+        point: kind === 'point' ? entry.label : undefined
+      })
+    })
+
+    return segments
+  }
+
+  /**
+   * Greedily group consecutive segments while they fit in one chunk
+   */
+  private static pack(segments: Segment[], chunkSize: number): Segment[][] {
+    const groups: Segment[][] = []
+    let group: Segment[] = []
+
+    for (const segment of segments) {
+      if (group.length > 0 && segment.end - group[0].start > chunkSize) {
+        groups.push(group)
+        group = []
+      }
+      group.push(segment)
+    }
+    if (group.length > 0) {
+      groups.push(group)
+    }
+
+    return groups
+  }
+
+  /**
+   * Fall back to the character splitter for text without usable structure
+   */
+  private static async splitRecursively(
+    text: string,
+    range: Segment,
+    chunkSize: number,
+    chunkOverlap: number
+  ): Promise<Segment[]> {
+    const slice = text.slice(range.start, range.end)
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize,
+      chunkOverlap,
+      separators: ['\n\n', '\n', '. ', ' ', ''],
+    })
+
+    const pieces = await splitter.splitText(slice)
+    const segments: Segment[] = []
+    let searchFrom = 0
+
+    for (const piece of pieces) {
+      const index = slice.indexOf(piece, searchFrom)
+      const start = index === -1 ? searchFrom : index
+      segments.push({
+        start: range.start + start,
+        end: range.start + Math.min(start + piece.length, slice.length),
+        clause: range.clause,
+        point: range.point
+      })
+      searchFrom = start + 1
+    }
+
+    return segments
+  }
+
+  /**
+   * Turn a covered range into a chunk, repeating the article heading on continuation chunks
+   */
+  private static createChunk(text: string, range: Segment, parts: Segment[], block: Block): LegalChunk {
+    const clauses = this.unique(parts.map(part => part.clause))
+    const singleClause = clauses.length === 1
+    const metadata: LegalStructureMetadata = {
+      ...block.context,
+      clauses: clauses.length > 0 ? clauses : undefined,
+      points: singleClause ? this.unique(parts.map(part => part.point)) : undefined
+    }
+    if (metadata.points?.length === 0) {
+      delete metadata.points
+    }
+    metadata.structurePath = this.formatStructurePath(metadata) || undefined
+
+    let chunkText = text.slice(range.start, range.end).trim()
+    if (block.heading && range.start > block.start) {
+      chunkText = `${block.heading} (tiếp theo)\n${chunkText}`
+    }
+
+    return { text: chunkText, start: range.start, end: range.end, metadata }
+  }
+
+  private static isNextInSequence(previous: string | null, label: string, kind: 'clause' | 'point'): boolean {
+    if (kind === 'clause') {
+      const number = parseInt(label, 10)
+      return previous === null ? number === 1 : number === parseInt(previous, 10) + 1
+    }
+    const index = POINT_SEQUENCE.indexOf(label)
+    return previous === null ? index === 0 : index === POINT_SEQUENCE.indexOf(previous) + 1
+  }
+
+  private static splitLines(text: string, offset: number = 0): Line[] {
+    const lines: Line[] = []
+    let start = 0
+    while (start <= text.length) {
+      const newline = text.indexOf('\n', start)
+      const end = newline === -1 ? text.length : newline
+      lines.push({ text: text.slice(start, end), start: offset + start, end: offset + end })
+      if (newline === -1) {
+        break
+      }
+      start = newline + 1
+    }
+    return lines
+  }
+
+  private static formatRange(labels: string[]): string {
+    return labels.length === 1 ? labels[0] : `${labels[0]}–${labels[labels.length - 1]}`
+  }
+
+  private static unique(values: Array<string | undefined>): string[] {
+    return Array.from(new Set(values.filter((value): value is string => Boolean(value))))
+  }
+}
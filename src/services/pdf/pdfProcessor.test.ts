@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import type { ExtractedPage } from '../types'
+import { SearchService } from '../search/searchService'
+import { PDFProcessingService } from './pdfProcessor'
+
+// Plain prose without Chương/Điều headings, so the recursive splitter is used
+function page(pageNumber: number, text: string): ExtractedPage {
+  return { pageNumber, text }
+}
+
+describe('PDFProcessingService.splitPagesIntoDocuments', () => {
+  it('records the pages each chunk spans', async () => {
+    const pages = [
+      page(1, 'Nhà ở phải có lối thoát nạn thông thoáng.'),
+      page(2, 'Bình chữa cháy được kiểm tra sáu tháng một lần.'),
+      page(3, 'Hệ thống báo cháy tự động của nhà được bảo dưỡng hằng năm.')
+    ]
+
+    const documents = await PDFProcessingService.splitPagesIntoDocuments(pages, 'noi-quy.pdf', 120, 0)
+
+    expect(documents.map(document => [document.metadata.pageStart, document.metadata.pageEnd])).toEqual([[1, 2], [3, 3]])
+    expect(documents[0].metadata).toMatchObject({ source: 'noi-quy.pdf', pageUnit: 'page', chunkingStrategy: 'recursive' })
+  })
+
+  it('skips blank pages without shifting the numbers of the next ones', async () => {
+    const documents = await PDFProcessingService.splitPagesIntoDocuments(
+      [page(1, 'Trang bìa của quy chuẩn kỹ thuật.'), { pageNumber: 2, text: '  ' }, page(3, 'Nội dung của trang ba.')],
+      'qcvn.pdf',
+      40,
+      0
+    )
+
+    expect(documents.map(document => [document.pageContent, document.metadata.pageStart])).toEqual([
+      ['Trang bìa của quy chuẩn kỹ thuật.', 1],
+      ['Nội dung của trang ba.', 3]
+    ])
+  })
+
+  it('records no page range for formats without pages', async () => {
+    const [document] = await PDFProcessingService.splitPagesIntoDocuments([page(1, 'Nội quy phòng cháy.')], 'noi-quy.docx', 200, 0, {
+      format: 'docx',
+      pageUnit: 'none'
+    })
+
+    expect(document.metadata.pageStart).toBeUndefined()
+    expect(document.metadata.type).toBe('docx')
+  })
+
+  it('marks chunks of OCR pages with the lowest confidence among them', async () => {
+    const documents = await PDFProcessingService.splitPagesIntoDocuments([
+      page(1, 'Nhà ở phải có lối thoát nạn thông thoáng.'),
+      { ...page(2, 'Bình chữa cháy được kiểm tra sáu tháng một lần.'), ocrConfidence: 0.9 },
+      { ...page(3, 'Hệ thống báo cháy tự động của nhà được bảo dưỡng hằng năm.'), ocrConfidence: 0.6 }
+    ], 'scan.pdf', 120, 0)
+
+    expect(documents.map(document => [document.metadata.ocr, document.metadata.ocrConfidence])).toEqual([[true, 0.9], [true, 0.6]])
+
+    const [textLayer] = await PDFProcessingService.splitPagesIntoDocuments([page(1, 'Nhà ở phải có lối thoát nạn.')], 'text.pdf', 120, 0)
+    expect(textLayer.metadata.ocr).toBeUndefined()
+  })
+})
+
+describe('SearchService.formatPageRange', () => {
+  it('formats single pages, ranges and slides', () => {
+    expect(SearchService.formatPageRange({ pageStart: 4, pageEnd: 4 })).toBe('trang 4')
+    expect(SearchService.formatPageRange({ pageStart: 4, pageEnd: 6 })).toBe('trang 4–6')
+    expect(SearchService.formatPageRange({ pageStart: 2, pageUnit: 'slide' })).toBe('slide 2')
+    expect(SearchService.formatPageRange({})).toBeNull()
+  })
+})
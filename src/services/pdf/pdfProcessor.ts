@@ -1,42 +1,43 @@
 import { Document } from 'langchain/document'
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
-import pdfParse from 'pdf-parse'
 import { PROCESSING_CONFIG } from '../constants'
-import type { ProcessingResult, ErrorType } from '../types'
+import { LegalStructureSplitter } from './legalStructureSplitter'
+import { DocumentExtractorRegistry } from '../extractors/extractorRegistry'
+import { pdfExtractor } from '../extractors/pdfExtractor'
+import { DocumentInfoDetector } from './documentInfo'
+import type { ProcessingResult, ErrorType, ExtractedPage, ExtractedDocument, DocumentFormat, PageUnit } from '../types'
+
+interface PageSpan {
+  pageNumber: number
+  start: number
+  end: number
+  ocrConfidence?: number
+}
+
+const PAGE_SEPARATOR = '\n\n'
 
 export class PDFProcessingService {
   /**
-   * Extract text from PDF buffer using pdf-parse
+   * Extract per-page text from PDF buffer using pdf-parse
    */
-  static async extractTextFromPDF(buffer: ArrayBuffer): Promise<string> {
+  static async extractPagesFromPDF(buffer: ArrayBuffer): Promise<ExtractedPage[]> {
     try {
-      console.log('Starting PDF text extraction...')
-      
-      // Convert ArrayBuffer to Buffer
-      const pdfBuffer = Buffer.from(buffer)
-      
-      // Extract text using pdf-parse
-      const data = await pdfParse(pdfBuffer)
-      
-      if (!data || !data.text) {
-        throw new Error('No text could be extracted from the PDF')
-      }
-
-      const fullText = data.text.trim()
-      
-      if (!fullText) {
-        throw new Error('PDF appears to be empty or contains only images')
-      }
-
-      console.log(`Total extracted text length: ${fullText.length} characters from ${data.numpages} pages`)
-      return fullText
-      
+      const extracted = await pdfExtractor.extract(buffer, 'document.pdf')
+      return extracted.pages
     } catch (error) {
       console.error('Error extracting text from PDF:', error)
       throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  /**
+   * Extract text from PDF buffer using pdf-parse
+   */
+  static async extractTextFromPDF(buffer: ArrayBuffer): Promise<string> {
+    const pages = await this.extractPagesFromPDF(buffer)
+    return this.joinPages(pages).text
+  }
+
   /**
    * Split text into documents using text splitter
    */
@@ -74,6 +75,133 @@ export class PDFProcessingService {
     }
   }
 
+  /**
+   * Split extracted pages into documents, recording the page range of every chunk.
+   * Legal documents (Luật, Nghị định, Thông tư, QCVN...) are split by their Chương/Điều/Khoản structure.
+   */
+  static async splitPagesIntoDocuments(
+    pages: ExtractedPage[],
+    pdfName: string,
+    chunkSize: number = PROCESSING_CONFIG.DEFAULT_CHUNK_SIZE,
+    chunkOverlap: number = PROCESSING_CONFIG.DEFAULT_CHUNK_OVERLAP,
+    options: { format?: DocumentFormat; pageUnit?: PageUnit } = {}
+  ): Promise<Document[]> {
+    const { format = 'pdf', pageUnit = 'page' } = options
+    const { text, spans } = this.joinPages(pages)
+    const pageRange = (start: number, end: number) => pageUnit === 'none'
+      ? {}
+      : {
+          pageStart: this.pageAtOffset(spans, start),
+          pageEnd: this.pageAtOffset(spans, Math.max(start, end - 1)),
+          pageUnit,
+          ...this.ocrMetadata(spans, start, end)
+        }
+
+    if (LegalStructureSplitter.hasLegalStructure(text)) {
+      console.log('Detected legal document structure, splitting by article')
+      const legalChunks = await LegalStructureSplitter.split(text, chunkSize, chunkOverlap)
+
+      if (legalChunks.length > 0) {
+        console.log(`Created ${legalChunks.length} article-based document chunks`)
+        return legalChunks.map(chunk => new Document({
+          pageContent: chunk.text,
+          metadata: this.compactMetadata({
+            source: pdfName,
+            type: format,
+            chunkingStrategy: 'legal',
+            ...pageRange(chunk.start, chunk.end),
+            ...chunk.metadata
+          })
+        }))
+      }
+    }
+
+    const splitDocs = await this.splitTextIntoDocuments(text, pdfName, chunkSize, chunkOverlap)
+
+    // Chunks are substrings of the joined text, so locate each one to find its pages.
+    // Overlapping chunks always start after the previous one, which keeps the scan linear.
+    let searchFrom = 0
+    let lastRange = pageRange(0, 1)
+
+    for (const doc of splitDocs) {
+      const start = text.indexOf(doc.pageContent, searchFrom)
+      if (start !== -1) {
+        lastRange = pageRange(start, start + doc.pageContent.length)
+        searchFrom = start + 1
+      }
+      doc.metadata = { ...doc.metadata, type: format, chunkingStrategy: 'recursive', ...lastRange }
+    }
+
+    return splitDocs
+  }
+
+  /**
+   * Mark chunks overlapping OCR-derived pages with the lowest confidence among those pages
+   */
+  private static ocrMetadata(spans: PageSpan[], start: number, end: number): { ocr?: boolean; ocrConfidence?: number } {
+    const confidences = spans
+      .filter(span => span.ocrConfidence !== undefined && span.start < end && span.end > start)
+      .map(span => span.ocrConfidence as number)
+
+    if (confidences.length === 0) {
+      return {}
+    }
+    return { ocr: true, ocrConfidence: Math.min(...confidences) }
+  }
+
+  /**
+   * Drop undefined metadata values so chunks serialize cleanly
+   */
+  private static compactMetadata(metadata: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined))
+  }
+
+  /**
+   * Join page texts into a single string and remember where each page starts and ends
+   */
+  private static joinPages(pages: ExtractedPage[]): { text: string; spans: PageSpan[] } {
+    const spans: PageSpan[] = []
+    let text = ''
+
+    for (const page of pages) {
+      const pageText = page.text.trim()
+      if (!pageText) {
+        continue
+      }
+      if (text) {
+        text += PAGE_SEPARATOR
+      }
+      spans.push({
+        pageNumber: page.pageNumber,
+        start: text.length,
+        end: text.length + pageText.length,
+        ocrConfidence: page.ocrConfidence
+      })
+      text += pageText
+    }
+
+    return { text, spans }
+  }
+
+  /**
+   * Find the page containing a character offset of the joined text
+   */
+  private static pageAtOffset(spans: PageSpan[], offset: number): number {
+    let low = 0
+    let high = spans.length - 1
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (spans[mid].start <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+
+    return spans[low]?.pageNumber ?? 1
+  }
+
   /**
    * Process PDF file - complete pipeline
    */
@@ -84,17 +212,32 @@ export class PDFProcessingService {
       chunkSize?: number
       chunkOverlap?: number
     } = {}
+  ): Promise<ProcessingResult> {
+    return this.processDocument(buffer, fileName, { ...options, mimeType: 'application/pdf' })
+  }
+
+  /**
+   * Process any supported document (PDF, DOCX, PPTX, ODT, ODP) - complete pipeline
+   */
+  static async processDocument(
+    buffer: ArrayBuffer,
+    fileName: string,
+    options: {
+      chunkSize?: number
+      chunkOverlap?: number
+      mimeType?: string
+    } = {}
   ): Promise<ProcessingResult> {
     const startTime = Date.now()
     const errors: Array<{ type: ErrorType; message: string; timestamp: Date }> = []
     
     try {
-      console.log(`Starting PDF processing for: ${fileName}`)
+      console.log(`Starting document processing for: ${fileName}`)
       
-      // Extract text from PDF
-      let extractedText: string
+      // Extract text page by page (or slide by slide) with the extractor for this format
+      let extracted: ExtractedDocument
       try {
-        extractedText = await this.extractTextFromPDF(buffer)
+        extracted = await DocumentExtractorRegistry.extract(buffer, fileName, options.mimeType)
       } catch (error) {
         const errorMsg = `Text extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
         errors.push({
@@ -104,15 +247,18 @@ export class PDFProcessingService {
         })
         throw new Error(errorMsg)
       }
+      const { pages, format, pageUnit } = extracted
+      const extractedText = this.joinPages(pages).text
 
       // Split into documents
       let documents: Document[]
       try {
-        documents = await this.splitTextIntoDocuments(
-          extractedText,
+        documents = await this.splitPagesIntoDocuments(
+          pages,
           fileName,
           options.chunkSize,
-          options.chunkOverlap
+          options.chunkOverlap,
+          { format, pageUnit }
         )
       } catch (error) {
         const errorMsg = `Document splitting failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -124,9 +270,19 @@ export class PDFProcessingService {
         throw new Error(errorMsg)
       }
 
+      // Tag every chunk with the regulation's type, number and year for citation lookup,
+      // and with its ordinal so search can widen a hit with the chunks around it
+      const documentInfo = DocumentInfoDetector.detect(extractedText, fileName)
+      documents.forEach((doc, index) => {
+        doc.metadata = { ...documentInfo, ...doc.metadata, chunkIndex: index }
+      })
+      if (documentInfo.documentNumber) {
+        console.log(`Detected ${documentInfo.documentType || 'document'} ${documentInfo.documentNumber}`)
+      }
+
       const processingTime = Date.now() - startTime
       
-      console.log(`PDF processing completed in ${processingTime}ms`)
+      console.log(`Document processing completed in ${processingTime}ms`)
       console.log(`Created ${documents.length} document chunks`)
       
       return {
@@ -137,6 +293,9 @@ export class PDFProcessingService {
           fileName,
           documentCount: documents.length,
           textLength: extractedText.length,
+          pageCount: pages.length,
+          format,
+          documentInfo,
           processingTimeMs: processingTime,
           chunkSize: options.chunkSize || PROCESSING_CONFIG.DEFAULT_CHUNK_SIZE,
           chunkOverlap: options.chunkOverlap || PROCESSING_CONFIG.DEFAULT_CHUNK_OVERLAP
@@ -146,9 +305,9 @@ export class PDFProcessingService {
       
     } catch (error) {
       const processingTime = Date.now() - startTime
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error during PDF processing'
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error during document processing'
       
-      console.error('PDF processing failed:', errorMessage)
+      console.error('Document processing failed:', errorMessage)
       
       // Add general processing error if not already added
       if (!errors.some(e => e.message === errorMessage)) {
@@ -167,6 +326,7 @@ export class PDFProcessingService {
           fileName,
           documentCount: 0,
           textLength: 0,
+          pageCount: 0,
           processingTimeMs: processingTime,
           chunkSize: options.chunkSize || PROCESSING_CONFIG.DEFAULT_CHUNK_SIZE,
           chunkOverlap: options.chunkOverlap || PROCESSING_CONFIG.DEFAULT_CHUNK_OVERLAP
@@ -217,6 +377,35 @@ export class PDFProcessingService {
     }
   }
 
+  /**
+   * Validate an uploaded document of any supported format
+   */
+  static validateDocumentFile(file: File): { valid: boolean; error?: string } {
+    if (!DocumentExtractorRegistry.isSupported(file.name, file.type)) {
+      return {
+        valid: false,
+        error: DocumentExtractorRegistry.getUnsupportedReason(file.name)
+      }
+    }
+
+    const maxSize = PROCESSING_CONFIG.MAX_FILE_SIZE_MB * 1024 * 1024
+    if (file.size > maxSize) {
+      return {
+        valid: false,
+        error: `File size too large. Maximum allowed size is ${PROCESSING_CONFIG.MAX_FILE_SIZE_MB}MB.`
+      }
+    }
+
+    if (file.size === 0) {
+      return {
+        valid: false,
+        error: 'File is empty.'
+      }
+    }
+
+    return { valid: true }
+  }
+
   /**
    * Get processing configuration for different document sizes
    */
@@ -0,0 +1,74 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import JSZip from 'jszip'
+
+// Offline embeddings and in-memory indexes, set before the services read their configuration
+vi.stubEnv('OFFLINE_MODE', 'true')
+vi.stubEnv('VECTOR_STORE_BACKEND', 'memory')
+vi.stubEnv('EMBEDDING_CACHE', 'off')
+
+let PdfProcessingService: typeof import('./pdfProcessingService').PdfProcessingService
+let SessionService: typeof import('./session/sessionService').SessionService
+
+beforeAll(async () => {
+  PdfProcessingService = (await import('./pdfProcessingService')).PdfProcessingService
+  SessionService = (await import('./session/sessionService')).SessionService
+})
+
+async function docx(name: string, ...paragraphs: string[]): Promise<File> {
+  const zip = new JSZip()
+  zip.file('word/document.xml', `<w:document xmlns:w="w"><w:body>${paragraphs.map(text => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`).join('')}</w:body></w:document>`)
+  return new File([await zip.generateAsync({ type: 'uint8array' })], name, {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  })
+}
+
+const exits = () => docx('loi-thoat-nan.docx', 'Lối thoát nạn của nhà ở phải luôn thông thoáng, không được khóa cửa.')
+const extinguishers = () => docx('binh-chua-chay.docx', 'Bình chữa cháy xách tay phải được kiểm tra định kỳ sáu tháng một lần.')
+
+describe('PdfProcessingService documents of a session', () => {
+  it('keeps every uploaded document and removes one with its chunks', async () => {
+    const sessionId = PdfProcessingService.createSession()
+    const first = await PdfProcessingService.processPDF(await exits(), sessionId)
+    const second = await PdfProcessingService.processPDF(await extinguishers(), sessionId)
+
+    expect((await PdfProcessingService.listDocuments(sessionId))?.map(document => [document.name, document.status])).toEqual([
+      ['loi-thoat-nan.docx', 'ready'],
+      ['binh-chua-chay.docx', 'ready']
+    ])
+
+    expect(await PdfProcessingService.removeDocument(sessionId, first.documentId!)).toEqual({ success: true })
+
+    const session = SessionService.getSession(sessionId)!
+    expect(session.uploadedDocuments.map(document => document.id)).toEqual([second.documentId])
+    expect(session.documents.every(chunk => chunk.metadata.documentId === second.documentId)).toBe(true)
+    expect(session.vectorstore?.memoryVectors.every(vector => vector.metadata.documentId === second.documentId)).toBe(true)
+    expect(session.pdfName).toBe('binh-chua-chay.docx')
+  })
+
+  it('does not ingest the same file twice', async () => {
+    const sessionId = PdfProcessingService.createSession()
+    const first = await PdfProcessingService.processPDF(await exits(), sessionId)
+    const again = await PdfProcessingService.processPDF(await exits(), sessionId)
+
+    expect(again).toMatchObject({ success: true, duplicate: true, documentId: first.documentId })
+    expect(SessionService.getSession(sessionId)?.uploadedDocuments).toHaveLength(1)
+  })
+
+  it('reports removing a document the session does not have', async () => {
+    const sessionId = PdfProcessingService.createSession()
+
+    expect(await PdfProcessingService.removeDocument(sessionId, 'missing')).toEqual({ success: false, error: 'Document not found' })
+  })
+
+  it('resets a session after the uploads already queued for it', async () => {
+    const sessionId = PdfProcessingService.createSession()
+
+    const upload = PdfProcessingService.processPDF(await exits(), sessionId)
+    const reset = PdfProcessingService.resetSession(sessionId)
+    await Promise.all([upload, reset])
+
+    const session = SessionService.getSession(sessionId)!
+    expect(session.uploadedDocuments).toEqual([])
+    expect(session.vectorstore).toBeNull()
+  })
+})
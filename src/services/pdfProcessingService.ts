@@ -1,21 +1,59 @@
 // Legacy PDF Processing Service - Refactored to use modular services
 // This file now orchestrates the new modular services while maintaining API compatibility
 
+import { createHash } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+
 // Import new modular services
 import {
   SessionService,
   PDFProcessingService,
   VectorStoreService,
+  IngestionQueue,
   SearchService,
   LLMService,
+  AnswerCitations,
+  GroundingVerifier,
+  LibraryService,
+  QueryPlanner,
+  QuestionCondenser,
   PROCESSING_CONFIG,
+  PLANNER_CONFIG,
+  CONTEXT_CONFIG,
+  CONVERSATION_CONFIG,
+  GROUNDING_CONFIG,
   API_CONFIG,
   type UserSession,
+  type SessionDocument,
+  type ErrorType,
   type ProcessingResult,
   type EmbeddingResult,
-  type CombinedSearchResult
+  type EmbeddingCacheSummary,
+  type CombinedSearchResult,
+  type SearchScope,
+  type SearchFilter,
+  type SearchOptions,
+  type SearchResult,
+  type ChatTurn,
+  type AnswerSource,
+  type GroundingReport
 } from './index'
 
+/**
+ * Evidence retrieved for a question, ready to be answered by the LLM
+ */
+export interface AnswerContext {
+  success: boolean
+  question?: string // The question searched and answered: standalone form of a follow-up
+  history?: ChatTurn[] // Recent turns given to the LLM with the question
+  context?: string // Formatted evidence for the prompt
+  sources?: SearchResult[] // Results in the context, in section order
+  subQueries?: string[] // Sub-queries of a compound question; empty when it was searched whole
+  searchType?: string
+  answer?: string // Reply to give without the LLM when nothing relevant was found
+  error?: string
+}
+
 /**
  * Legacy PDF Processing Service
  * Orchestrates the new modular services while maintaining existing API
@@ -61,34 +99,39 @@ export class PdfProcessingService {
   }
 
   /**
-   * Process PDF and create vector store
+   * Process an uploaded document and add it to the session's knowledge base
    */
   static async processPDF(
     file: File,
-    sessionId: string
-  ): Promise<{ success: boolean; sessionId: string; error?: string }> {
+    sessionId: string,
+    options: { chunkSize?: number; chunkOverlap?: number } = {}
+  ): Promise<{ success: boolean; sessionId: string; documentId?: string; duplicate?: boolean; cache?: EmbeddingCacheSummary; error?: string }> {
+    return IngestionQueue.run(this.ingestionKey(sessionId), () => this.ingestDocument(file, sessionId, options))
+  }
+
+  /**
+   * Embed a document into a session; uploads to one session run one at a time through the ingestion queue
+   */
+  private static async ingestDocument(
+    file: File,
+    sessionId: string,
+    options: { chunkSize?: number; chunkOverlap?: number }
+  ): Promise<{ success: boolean; sessionId: string; documentId?: string; duplicate?: boolean; cache?: EmbeddingCacheSummary; error?: string }> {
     try {
-      console.log(`Processing PDF: ${file.name} for session: ${sessionId}`)
+      console.log(`Processing document: ${file.name} for session: ${sessionId}`)
       
-      // Validate session
-      let session = SessionService.getSession(sessionId)
+      // Validate session (reloading it from the persisted index after a restart)
+      let session = await SessionService.restoreSession(sessionId)
       if (!session) {
         console.log(`Session ${sessionId} not found, creating new session`)
         sessionId = SessionService.createSession()
         session = SessionService.getSession(sessionId)!
       }
 
-      // Update session status
-      SessionService.updateSession(sessionId, {
-        vectorStoreStatus: 'creating',
-        pdfName: file.name
-      })
-
-      // Validate PDF file
-      const validation = PDFProcessingService.validatePDFFile(file)
+      // Validate document file
+      const validation = PDFProcessingService.validateDocumentFile(file)
       if (!validation.valid) {
         SessionService.updateSession(sessionId, {
-          vectorStoreStatus: 'error',
           processingErrors: [{
             type: 'VALIDATION_ERROR',
             message: validation.error || 'File validation failed',
@@ -103,92 +146,124 @@ export class PdfProcessingService {
         }
       }
 
+      // Convert file to buffer
+      const buffer = await file.arrayBuffer()
+      const hash = createHash('sha256').update(Buffer.from(buffer)).digest('hex')
+
+      // Skip documents that are already part of the knowledge base
+      const existing = SessionService.findDocumentByHash(sessionId, hash)
+      if (existing) {
+        console.log(`Document ${file.name} already uploaded as ${existing.id}, skipping`)
+        return {
+          success: true,
+          sessionId,
+          documentId: existing.id,
+          duplicate: true
+        }
+      }
+
+      const sessionDocument: SessionDocument = {
+        id: uuidv4(),
+        name: file.name,
+        hash,
+        chunkCount: 0,
+        status: 'processing',
+        uploadedAt: new Date()
+      }
+      session.uploadedDocuments.push(sessionDocument)
+      SessionService.updateSession(sessionId, { vectorStoreStatus: 'creating' })
+
+      const failDocument = (type: ErrorType, message: string, errors?: UserSession['processingErrors']) => {
+        // Batches embedded before the failure must not stay searchable or be persisted with the next upload
+        if (session!.vectorstore) {
+          VectorStoreService.removeDocument(session!.vectorstore, sessionDocument.id)
+        }
+        SessionService.updateDocument(sessionId, sessionDocument.id, { status: 'error', error: message })
+        SessionService.updateSession(sessionId, {
+          // Previously ingested documents stay searchable
+          vectorStoreStatus: session!.vectorstore ? 'ready' : 'error',
+          processingErrors: errors || [{ type, message, timestamp: new Date() }]
+        })
+        return {
+          success: false,
+          sessionId,
+          documentId: sessionDocument.id,
+          error: message
+        }
+      }
+
       try {
-        // Convert file to buffer
-        const buffer = await file.arrayBuffer()
-        
-        // Process PDF
-        const processingResult: ProcessingResult = await PDFProcessingService.processPDF(
+        // Extract and split the document with the extractor for its format
+        const processingResult: ProcessingResult = await PDFProcessingService.processDocument(
           buffer,
-          file.name
+          file.name,
+          { ...options, mimeType: file.type }
         )
 
         if (!processingResult.success) {
-          SessionService.updateSession(sessionId, {
-            vectorStoreStatus: 'error',
-            processingErrors: processingResult.errors || []
-          })
-          
-          return {
-            success: false,
-            sessionId,
-            error: processingResult.error || 'PDF processing failed'
-          }
+          return failDocument(
+            'PROCESSING_ERROR',
+            processingResult.error || 'Document processing failed',
+            processingResult.errors
+          )
         }
 
+        // Label every chunk with the document it came from
+        const chunks = processingResult.documents.map(chunk => {
+          chunk.metadata = {
+            ...chunk.metadata,
+            documentId: sessionDocument.id,
+            documentName: file.name
+          }
+          return chunk
+        })
+
         // Get optimal configuration for vector store
-        const config = VectorStoreService.getOptimalConfig(processingResult.documents.length)
+        const config = VectorStoreService.getOptimalConfig(chunks.length)
         
-        // Create vector store
-        const embeddingResult: EmbeddingResult = await VectorStoreService.createVectorStore(
-          processingResult.documents,
-          config
-        )
+        // Append to the session's vector store, or create it for the first document
+        const embeddingResult: EmbeddingResult = session.vectorstore
+          ? await VectorStoreService.addDocuments(session.vectorstore, chunks, config)
+          : await VectorStoreService.createVectorStore(chunks, config)
 
         if (!embeddingResult.success) {
-          SessionService.updateSession(sessionId, {
-            vectorStoreStatus: 'error',
-            processingErrors: [{
-              type: 'VECTORSTORE_ERROR',
-              message: embeddingResult.error || 'Vector store creation failed',
-              timestamp: new Date()
-            }]
-          })
-          
-          return {
-            success: false,
-            sessionId,
-            error: embeddingResult.error || 'Vector store creation failed'
-          }
+          return failDocument('VECTORSTORE_ERROR', embeddingResult.error || 'Vector store creation failed')
         }
 
         // Update session with results
+        SessionService.updateDocument(sessionId, sessionDocument.id, {
+          status: 'ready',
+          chunkCount: chunks.length,
+          format: processingResult.metadata.format,
+          pageCount: processingResult.metadata.pageCount,
+          documentInfo: processingResult.metadata.documentInfo
+        })
         SessionService.updateSession(sessionId, {
           vectorstore: embeddingResult.vectorStore!,
-          documents: processingResult.documents,
+          documents: [...session.documents, ...chunks],
+          pdfName: file.name,
           vectorStoreStatus: 'ready',
           processingErrors: []
         })
+        SearchService.indexDocuments(session.documents)
+        await SessionService.persistSession(sessionId)
 
-        console.log(`PDF processing completed successfully for session: ${sessionId}`)
+        console.log(`Document ${file.name} added to session ${sessionId} (${chunks.length} chunks)`)
         
         return {
           success: true,
-          sessionId
+          sessionId,
+          documentId: sessionDocument.id,
+          cache: embeddingResult.metadata?.cache
         }
 
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown processing error'
-        
-        SessionService.updateSession(sessionId, {
-          vectorStoreStatus: 'error',
-          processingErrors: [{
-            type: 'PROCESSING_ERROR',
-            message: errorMessage,
-            timestamp: new Date()
-          }]
-        })
-        
-        return {
-          success: false,
-          sessionId,
-          error: errorMessage
-        }
+        return failDocument('PROCESSING_ERROR', error instanceof Error ? error.message : 'Unknown processing error')
       }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      console.error('PDF processing failed:', errorMessage)
+      console.error('Document processing failed:', errorMessage)
       
       return {
         success: false,
@@ -198,82 +273,90 @@ export class PdfProcessingService {
     }
   }
 
+  /**
+   * List the documents of a session's knowledge base
+   */
+  static async listDocuments(sessionId: string): Promise<SessionDocument[] | null> {
+    const session = await SessionService.restoreSession(sessionId)
+    return session ? session.uploadedDocuments : null
+  }
+
+  /**
+   * Remove one document (its chunks and vectors) from a session's knowledge base
+   */
+  static async removeDocument(sessionId: string, documentId: string): Promise<{ success: boolean; error?: string }> {
+    return IngestionQueue.run(this.ingestionKey(sessionId), () => this.deleteDocument(sessionId, documentId))
+  }
+
+  /**
+   * Drop a document's chunks and vectors; queued behind any upload to the session in progress
+   */
+  private static async deleteDocument(sessionId: string, documentId: string): Promise<{ success: boolean; error?: string }> {
+    const session = await SessionService.restoreSession(sessionId)
+    if (!session) {
+      return { success: false, error: 'Session not found' }
+    }
+
+    const document = SessionService.getDocument(sessionId, documentId)
+    if (!document) {
+      return { success: false, error: 'Document not found' }
+    }
+
+    if (session.vectorstore) {
+      VectorStoreService.removeDocument(session.vectorstore, documentId)
+    }
+
+    const remainingDocuments = session.uploadedDocuments.filter(candidate => candidate.id !== documentId)
+    const remainingChunks = session.documents.filter(chunk => chunk.metadata?.documentId !== documentId)
+    const latestReady = [...remainingDocuments].reverse().find(candidate => candidate.status === 'ready')
+    const hasVectors = (session.vectorstore?.memoryVectors.length || 0) > 0
+
+    SessionService.updateSession(sessionId, {
+      uploadedDocuments: remainingDocuments,
+      documents: remainingChunks,
+      vectorstore: hasVectors ? session.vectorstore : null,
+      pdfName: latestReady?.name || null,
+      vectorStoreStatus: hasVectors ? 'ready' : 'not_created'
+    })
+    SearchService.indexDocuments(session.documents)
+    await SessionService.persistSession(sessionId)
+
+    console.log(`Removed document ${document.name} from session ${sessionId}`)
+    return { success: true }
+  }
+
   /**
    * Query the processed PDF
    */
   static async queryPDF(
     question: string,
-    sessionId: string
-  ): Promise<{ success: boolean; answer?: string; error?: string }> {
+    sessionId: string,
+    options: { scopes?: SearchScope[]; filter?: SearchFilter } = {}
+  ): Promise<{
+    success: boolean
+    answer?: string
+    sources?: AnswerSource[]
+    grounding?: GroundingReport
+    error?: string
+  }> {
     try {
-      console.log(`Processing query for session: ${sessionId}`)
-      
-      // Validate session
-      const session = SessionService.getSession(sessionId)
-      if (!session) {
-        return {
-          success: false,
-          error: 'Session not found. Please upload a PDF first.'
-        }
-      }
-
-      if (!session.vectorstore || session.vectorStoreStatus !== 'ready') {
-        return {
-          success: false,
-          error: 'PDF not processed yet. Please upload and process a PDF first.'
-        }
+      const retrieval = await this.retrieveAnswerContext(question, sessionId, options)
+      if (!retrieval.success) {
+        return { success: false, error: retrieval.error }
       }
-
-      // Validate question
-      if (!question?.trim()) {
-        return {
-          success: false,
-          error: 'Question cannot be empty.'
-        }
-      }
-
-      if (question.length > API_CONFIG.MAX_QUESTION_LENGTH) {
-        return {
-          success: false,
-          error: `Question is too long. Maximum length is ${API_CONFIG.MAX_QUESTION_LENGTH} characters.`
-        }
+      if (retrieval.answer !== undefined) {
+        this.recordChatTurn(sessionId, question, retrieval.answer, retrieval.question)
+        return { success: true, answer: retrieval.answer }
       }
 
       try {
-        // Perform search
-        const searchResult: CombinedSearchResult = await SearchService.smartSearch(
-          session.vectorstore,
-          session.documents,
-          question,
-          {
-            maxResults: PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
-            includeScores: true,
-            searchType: 'hybrid'
-          }
-        )
-
-        if (!searchResult.success) {
-          return {
-            success: false,
-            error: searchResult.error || 'Search failed'
-          }
-        }
-
-        if (searchResult.results.length === 0) {
-          return {
-            success: true,
-            answer: "I couldn't find relevant information in the uploaded PDF to answer your question. Please try rephrasing your question or upload a different document."
-          }
-        }
-
-        // Format search results for LLM
-        const context = SearchService.formatSearchResults(searchResult.results)
-        
-        console.log(`Search context length: ${context.length} characters`)
-        console.log(`Found ${searchResult.results.length} relevant document sections`)
-        
         // Generate answer using LLM with RAG
-        const llmResult = await LLMService.generateResponse(question, context)
+        const llmResult = await LLMService.generateResponse(
+          retrieval.question!,
+          retrieval.context!,
+          retrieval.subQueries,
+          retrieval.history
+        )
         
         if (!llmResult.success) {
           return {
@@ -282,11 +365,18 @@ export class PdfProcessingService {
           }
         }
 
+        // Keep only the citation markers that point at a context section
+        const cited = AnswerCitations.resolve(llmResult.response!, retrieval.sources || [])
+        const grounding = this.verifyAnswer(cited.answer, retrieval.context!)
+
         console.log(`RAG pipeline completed successfully for session: ${sessionId}`)
+        this.recordChatTurn(sessionId, question, cited.answer, retrieval.question)
         
         return {
           success: true,
-          answer: llmResult.response
+          answer: cited.answer,
+          sources: cited.sources,
+          grounding
         }
 
       } catch (error) {
@@ -310,6 +400,210 @@ export class PdfProcessingService {
     }
   }
 
+  /**
+   * Retrieve the context an answer is generated from: rewrite a follow-up into a standalone question,
+   * plan it, search each sub-query and format the evidence. Sets `answer` instead when nothing
+   * relevant was found.
+   */
+  static async retrieveAnswerContext(
+    question: string,
+    sessionId: string,
+    options: { scopes?: SearchScope[]; filter?: SearchFilter; search?: Omit<SearchOptions, 'scopes' | 'filter'> } = {}
+  ): Promise<AnswerContext> {
+    console.log(`Processing query for session: ${sessionId}`)
+    const scopes = options.scopes || ['session', 'library']
+
+    if (scopes.length === 0) {
+      return {
+        success: false,
+        error: 'Select at least one knowledge source to search.'
+      }
+    }
+
+    // Validate session; the shared library alone is enough to answer
+    const { session, sessionReady, libraryReady, error } = await this.resolveSearchSources(sessionId, scopes)
+    if (error) {
+      return { success: false, error }
+    }
+
+    // Validate question
+    if (!question?.trim()) {
+      return {
+        success: false,
+        error: 'Question cannot be empty.'
+      }
+    }
+
+    if (question.length > API_CONFIG.MAX_QUESTION_LENGTH) {
+      return {
+        success: false,
+        error: `Question is too long. Maximum length is ${API_CONFIG.MAX_QUESTION_LENGTH} characters.`
+      }
+    }
+
+    // Follow-up questions are rewritten with the recent conversation before they are searched
+    const history = session ? SessionService.getChatHistory(sessionId, CONVERSATION_CONFIG.PROMPT_TURNS) : []
+    const standaloneQuestion = await QuestionCondenser.condense(question, history)
+
+    // Compound questions are searched part by part, each with its own share of the context
+    const plan = await QueryPlanner.plan(standaloneQuestion)
+
+    // Perform search
+    const searchResults: CombinedSearchResult[] = await Promise.all(plan.queries.map(query =>
+      SearchService.smartSearch(
+        sessionReady ? session!.vectorstore : null,
+        sessionReady ? session!.documents : [],
+        query,
+        {
+          maxResults: plan.planned ? PLANNER_CONFIG.RESULTS_PER_SUB_QUERY : PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
+          includeScores: true,
+          ...options.search,
+          scopes: [...(sessionReady ? ['session' as const] : []), ...(libraryReady ? ['library' as const] : [])],
+          filter: options.filter
+        }
+      )
+    ))
+
+    const failedSearch = searchResults.find(searchResult => !searchResult.success)
+    if (failedSearch) {
+      return {
+        success: false,
+        error: failedSearch.error || 'Search failed'
+      }
+    }
+
+    const resultCount = searchResults.reduce((count, searchResult) => count + searchResult.results.length, 0)
+    if (resultCount === 0) {
+      return {
+        success: true,
+        question: standaloneQuestion,
+        history,
+        sources: [],
+        searchType: searchResults[0].searchType,
+        answer: "I couldn't find relevant information in the uploaded PDF to answer your question. Please try rephrasing your question or upload a different document."
+      }
+    }
+
+    // Format search results for LLM
+    const { context, results } = plan.planned
+      ? SearchService.formatPlannedSearchResults(plan.queries.map((query, index) => ({
+          query,
+          results: searchResults[index].results
+        })))
+      : {
+          context: SearchService.formatSearchResults(searchResults[0].results),
+          results: searchResults[0].results.slice(0, CONTEXT_CONFIG.MAX_SECTIONS)
+        }
+
+    console.log(`Search context length: ${context.length} characters`)
+    console.log(`Found ${resultCount} relevant document sections`)
+
+    return {
+      success: true,
+      question: standaloneQuestion,
+      history,
+      context,
+      sources: results,
+      subQueries: plan.planned ? plan.queries : [],
+      searchType: searchResults[0].searchType
+    }
+  }
+
+  /**
+   * Check that the figures and references of a generated answer appear in its context
+   */
+  static verifyAnswer(answer: string, context: string): GroundingReport | undefined {
+    // Only the context the model was shown can ground its answer
+    return GROUNDING_CONFIG.ENABLED ? GroundingVerifier.verify(answer, LLMService.promptContext(context)) : undefined
+  }
+
+  /**
+   * Remember a question and its answer so later follow-up questions can refer back to it,
+   * also after a restart
+   */
+  static recordChatTurn(sessionId: string, question: string, answer: string, standaloneQuestion?: string): void {
+    if (!sessionId) {
+      return
+    }
+    SessionService.addChatTurn(sessionId, {
+      question,
+      standaloneQuestion: standaloneQuestion && standaloneQuestion !== question ? standaloneQuestion : undefined,
+      answer,
+      timestamp: new Date()
+    })
+
+    // Queued behind uploads, so a half-embedded document is never written with the history
+    void IngestionQueue.run(this.ingestionKey(sessionId), () => SessionService.persistSession(sessionId))
+  }
+
+  /**
+   * Run retrieval only, returning the ranked chunks without generating an answer
+   */
+  static async searchDocuments(query: string, sessionId: string, options: SearchOptions = {}): Promise<CombinedSearchResult> {
+    const scopes = options.scopes || ['session', 'library']
+    const failure = (error: string): CombinedSearchResult => ({
+      success: false,
+      results: [],
+      totalFound: 0,
+      searchType: 'none',
+      error
+    })
+
+    try {
+      if (scopes.length === 0) {
+        return failure('Select at least one knowledge source to search.')
+      }
+
+      const { session, sessionReady, libraryReady, error } = await this.resolveSearchSources(sessionId, scopes)
+      if (error) {
+        return failure(error)
+      }
+
+      return await SearchService.smartSearch(
+        sessionReady ? session!.vectorstore : null,
+        sessionReady ? session!.documents : [],
+        query,
+        {
+          ...options,
+          scopes: [...(sessionReady ? ['session' as const] : []), ...(libraryReady ? ['library' as const] : [])]
+        }
+      )
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error('Search failed:', errorMessage)
+      return failure(errorMessage)
+    }
+  }
+
+  /**
+   * Find which of the requested scopes can be searched: the session once its index is ready,
+   * the shared library once it has documents
+   */
+  private static async resolveSearchSources(sessionId: string, scopes: SearchScope[]): Promise<{
+    session: UserSession | null
+    sessionReady: boolean
+    libraryReady: boolean
+    error?: string
+  }> {
+    const session = sessionId ? await SessionService.restoreSession(sessionId) : null
+    const sessionReady = scopes.includes('session') &&
+      !!session?.vectorstore && session.vectorStoreStatus === 'ready'
+    const libraryReady = scopes.includes('library') && await LibraryService.hasDocuments()
+
+    if (!sessionReady && !libraryReady) {
+      return {
+        session,
+        sessionReady,
+        libraryReady,
+        error: session
+          ? 'PDF not processed yet. Please upload and process a PDF first.'
+          : 'Session not found. Please upload a PDF first.'
+      }
+    }
+    return { session, sessionReady, libraryReady }
+  }
+
   /**
    * Reset session
    */
@@ -319,7 +613,8 @@ export class PdfProcessingService {
     error?: string;
   }> {
     try {
-      const success = await SessionService.resetSession(sessionId)
+      // Queued behind uploads, which would otherwise put the reset documents back when they finish
+      const success = await IngestionQueue.run(this.ingestionKey(sessionId), () => SessionService.resetSession(sessionId))
       
       if (success) {
         return {
@@ -347,7 +642,8 @@ export class PdfProcessingService {
   /**
    * Get session status
    */
-  static getSessionStatus(sessionId: string) {
+  static async getSessionStatus(sessionId: string) {
+    await SessionService.restoreSession(sessionId)
     return SessionService.getDetailedSessionStatus(sessionId)
   }
 
@@ -415,4 +711,11 @@ export class PdfProcessingService {
   static cleanup() {
     return SessionService.cleanup()
   }
+
+  /**
+   * Ingestion queue key of a session: uploads, removals, resets and saves run one at a time
+   */
+  private static ingestionKey(sessionId: string): string {
+    return `session:${sessionId}`
+  }
 }
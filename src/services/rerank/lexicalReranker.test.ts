@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import type { SearchResult } from '../search/searchService'
+import { RERANK_CONFIG } from '../constants'
+import { lexicalReranker } from './lexicalReranker'
+
+function candidate(content: string, metadata: Record<string, unknown> = {}): SearchResult {
+  return { content, metadata }
+}
+
+describe('lexicalReranker', () => {
+  it('puts the chunk covering the query terms first', async () => {
+    const candidates = [
+      candidate('Hệ thống báo cháy tự động phải được bảo dưỡng.'),
+      candidate('Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.')
+    ]
+
+    const reranked = await lexicalReranker.rerank('chiều rộng lối thoát nạn', candidates)
+
+    expect(reranked[0]).toMatchObject({ content: candidates[1].content })
+    expect(reranked[0].rerankScore).toBeGreaterThan(reranked[1].rerankScore!)
+  })
+
+  it('matches queries typed without accents', async () => {
+    const candidates = [
+      candidate('Hệ thống báo cháy tự động phải được bảo dưỡng.'),
+      candidate('Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.')
+    ]
+
+    const reranked = await lexicalReranker.rerank('chieu rong loi thoat nan', candidates)
+
+    expect(reranked[0].content).toBe(candidates[1].content)
+  })
+
+  it('adds a bonus to the article the query names', async () => {
+    const text = 'Trách nhiệm của người đứng đầu cơ sở.'
+    const candidates = [
+      candidate(text, { articleNumber: '4' }),
+      candidate(text, { articleNumber: '15' })
+    ]
+
+    const reranked = await lexicalReranker.rerank('Điều 15 trách nhiệm', candidates)
+
+    // The bonus outweighs the rank-based semantic score of the first candidate (1 against 1/2)
+    expect(reranked[0].metadata?.articleNumber).toBe('15')
+    expect(reranked[0].rerankScore! - reranked[1].rerankScore!).toBeCloseTo(RERANK_CONFIG.ARTICLE_MATCH_BONUS - 0.3 * 0.5)
+  })
+
+  it('uses the vector score as the semantic signal when the candidate has one', async () => {
+    const text = 'Trang bị phương tiện chữa cháy.'
+    const candidates: SearchResult[] = [
+      { content: text, retrieverScores: { vector: 0.2 } },
+      { content: text, retrieverScores: { vector: 0.9 } }
+    ]
+
+    const reranked = await lexicalReranker.rerank('phương tiện chữa cháy', candidates)
+
+    expect(reranked[0].retrieverScores?.vector).toBe(0.9)
+    expect(reranked[0].rerankScore! - reranked[1].rerankScore!).toBeCloseTo(0.3 * 0.7)
+  })
+})
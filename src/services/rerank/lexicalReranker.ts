@@ -0,0 +1,72 @@
+import type { Reranker } from './reranker'
+import type { SearchResult } from '../search/searchService'
+import { RERANK_CONFIG } from '../constants'
+import { foldDiacritics, tokenizePhrases } from '../search/vietnameseTokenizer'
+
+// "Điều 15", "điều 15a" in the query
+const ARTICLE_REFERENCE_PATTERN = /điều\s+(\d+[a-z]?)/giu
+
+/**
+ * Syllables and adjacent-syllable compounds of a text, diacritic-folded
+ */
+function termSets(text: string): { syllables: Set<string>; compounds: Set<string> } {
+  const syllables = new Set<string>()
+  const compounds = new Set<string>()
+  for (const phrase of tokenizePhrases(text)) {
+    const folded = phrase.syllables.map(syllable => foldDiacritics(syllable))
+    folded.forEach((syllable, index) => {
+      syllables.add(syllable)
+      if (index > 0) {
+        compounds.add(`${folded[index - 1]} ${syllable}`)
+      }
+    })
+  }
+  return { syllables, compounds }
+}
+
+function coverage(queryTerms: Set<string>, chunkTerms: Set<string>): number {
+  if (queryTerms.size === 0) {
+    return 0
+  }
+  let matched = 0
+  queryTerms.forEach(term => {
+    if (chunkTerms.has(term)) {
+      matched++
+    }
+  })
+  return matched / queryTerms.size
+}
+
+/**
+ * Local scorer: share of query syllables and compounds the chunk contains, the first-stage
+ * semantic similarity when available (its rank otherwise), and a bonus when the query names
+ * the chunk's article.
+ */
+export const lexicalReranker: Reranker = {
+  name: 'lexical',
+
+  async rerank(query: string, candidates: SearchResult[]): Promise<SearchResult[]> {
+    const queryTerms = termSets(query)
+    const articles = new Set(
+      Array.from(query.normalize('NFC').matchAll(ARTICLE_REFERENCE_PATTERN)).map(match => match[1].toLowerCase())
+    )
+
+    const scored = candidates.map((candidate, index) => {
+      const chunkTerms = termSets(candidate.content)
+      const semantic = typeof candidate.retrieverScores?.vector === 'number'
+        ? Math.max(0, Math.min(1, candidate.retrieverScores.vector))
+        : 1 / (1 + index)
+      const articleNumber = String(candidate.metadata?.articleNumber || '').toLowerCase()
+
+      const rerankScore =
+        0.45 * coverage(queryTerms.syllables, chunkTerms.syllables) +
+        0.25 * coverage(queryTerms.compounds, chunkTerms.compounds) +
+        0.3 * semantic +
+        (articleNumber && articles.has(articleNumber) ? RERANK_CONFIG.ARTICLE_MATCH_BONUS : 0)
+
+      return { ...candidate, rerankScore: Math.round(rerankScore * 1000) / 1000 }
+    })
+
+    return scored.sort((a, b) => b.rerankScore - a.rerankScore)
+  }
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { SearchResult } from '../search/searchService'
+import { LLMService } from '../llm/llmService'
+import { lexicalReranker } from './lexicalReranker'
+import { llmReranker } from './llmReranker'
+
+const candidates: SearchResult[] = [
+  { content: 'Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.' },
+  { content: 'Hệ thống báo cháy tự động phải được bảo dưỡng.' }
+]
+const query = 'chiều rộng lối thoát nạn'
+
+describe('llmReranker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('orders candidates mainly by the model judgement', async () => {
+    // Scores follow the lexical order the judge is shown
+    const judge = vi.spyOn(LLMService, 'judgeRelevance').mockResolvedValue({ success: true, scores: [0.1, 1] })
+
+    const reranked = await llmReranker.rerank(query, candidates)
+
+    expect(judge).toHaveBeenCalledWith(query, candidates.map(candidate => candidate.content))
+    expect(reranked.map(result => result.content)).toEqual([candidates[1].content, candidates[0].content])
+  })
+
+  it('keeps the lexical order when the model is unavailable', async () => {
+    vi.spyOn(LLMService, 'judgeRelevance').mockResolvedValue({ success: false, error: 'No API key' })
+
+    const reranked = await llmReranker.rerank(query, candidates)
+
+    expect(reranked).toEqual(await lexicalReranker.rerank(query, candidates))
+  })
+
+  it('does not call the model without candidates', async () => {
+    const judge = vi.spyOn(LLMService, 'judgeRelevance')
+
+    expect(await llmReranker.rerank(query, [])).toEqual([])
+    expect(judge).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,40 @@
+import type { Reranker } from './reranker'
+import type { SearchResult } from '../search/searchService'
+import { RERANK_CONFIG } from '../constants'
+import { LLMService } from '../llm/llmService'
+import { lexicalReranker } from './lexicalReranker'
+
+/**
+ * LLM relevance judge: the model grades every candidate in one call and its grade is blended
+ * with the lexical score, which also breaks ties. Falls back to the lexical order when the
+ * LLM is unavailable or answers with something unparseable.
+ */
+export const llmReranker: Reranker = {
+  name: 'llm',
+
+  async rerank(query: string, candidates: SearchResult[]): Promise<SearchResult[]> {
+    const lexical = await lexicalReranker.rerank(query, candidates)
+    if (lexical.length === 0) {
+      return lexical
+    }
+
+    const judgement = await LLMService.judgeRelevance(
+      query,
+      lexical.map(candidate => candidate.content.trim().substring(0, RERANK_CONFIG.LLM_PASSAGE_LENGTH))
+    )
+    if (!judgement.success || !judgement.scores) {
+      console.warn(`LLM reranking unavailable, keeping lexical order: ${judgement.error}`)
+      return lexical
+    }
+
+    return lexical
+      .map((candidate, index) => ({
+        ...candidate,
+        rerankScore: Math.round((
+          RERANK_CONFIG.LLM_WEIGHT * judgement.scores![index] +
+          (1 - RERANK_CONFIG.LLM_WEIGHT) * (candidate.rerankScore || 0)
+        ) * 1000) / 1000
+      }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+  }
+}
@@ -0,0 +1,13 @@
+import type { SearchResult } from '../search/searchService'
+
+export type RerankerName = 'llm' | 'lexical' | 'none'
+
+/**
+ * Common interface implemented by every second-stage reranker.
+ * Rerankers receive the wide first-stage candidate pool and return it reordered,
+ * best first, with `rerankScore` set on each result.
+ */
+export interface Reranker {
+  name: RerankerName
+  rerank(query: string, candidates: SearchResult[]): Promise<SearchResult[]>
+}
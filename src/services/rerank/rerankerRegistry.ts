@@ -0,0 +1,24 @@
+import type { Reranker, RerankerName } from './reranker'
+import { lexicalReranker } from './lexicalReranker'
+import { llmReranker } from './llmReranker'
+
+const RERANKERS: Reranker[] = [
+  lexicalReranker,
+  llmReranker
+]
+
+export class RerankerRegistry {
+  /**
+   * Find a reranker by name; 'none' (or an unknown name) disables reranking
+   */
+  static getReranker(name: RerankerName): Reranker | null {
+    return RERANKERS.find(reranker => reranker.name === name) || null
+  }
+
+  /**
+   * Names of the available rerankers
+   */
+  static getRerankerNames(): RerankerName[] {
+    return RERANKERS.map(reranker => reranker.name)
+  }
+}
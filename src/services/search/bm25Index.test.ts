@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { Document } from 'langchain/document'
+import { Bm25Index } from './bm25Index'
+
+function corpus(...texts: string[]): Document[] {
+  return texts.map((pageContent, index) => new Document({ pageContent, metadata: { chunkIndex: index } }))
+}
+
+describe('Bm25Index', () => {
+  const documents = corpus(
+    'Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.',
+    'Bình chữa cháy xách tay được bố trí tại hành lang.',
+    'Hệ thống báo cháy tự động phải được kiểm tra định kỳ.',
+    'Lối đi trong kho hàng phải thông thoáng; cửa thoát hiểm không được khóa.'
+  )
+
+  it('ranks the chunk containing the query compound first', () => {
+    const results = new Bm25Index(documents).search('lối thoát nạn', 4)
+
+    expect(results[0].document).toBe(documents[0])
+    expect(results[0].score).toBeGreaterThan(results[1].score)
+  })
+
+  it('finds chunks from a query typed without accents, scoring them lower than exact matches', () => {
+    const index = new Bm25Index(documents)
+    const folded = index.search('binh chua chay', 1)
+    const exact = index.search('bình chữa cháy', 1)
+
+    expect(folded[0].document).toBe(documents[1])
+    expect(folded[0].score).toBeLessThan(exact[0].score)
+  })
+
+  it('matches a document number as a whole identifier', () => {
+    const numbered = corpus(
+      'Theo Nghị định 136/2020/NĐ-CP về phòng cháy.',
+      'Năm 2020 ban hành 136 văn bản.'
+    )
+
+    const results = new Bm25Index(numbered).search('136/2020/NĐ-CP', 2)
+
+    expect(results[0].document).toBe(numbered[0])
+  })
+
+  it('applies the filter and the limit', () => {
+    const results = new Bm25Index(documents).search('cháy', 5, document => document.metadata.chunkIndex !== 1)
+
+    expect(results.map(result => result.document.metadata.chunkIndex)).toEqual([2])
+  })
+
+  it('returns nothing for a query without terms', () => {
+    expect(new Bm25Index(documents).search(' ... ', 5)).toEqual([])
+  })
+
+  it('reuses the index of the same corpus array and rebuilds for a new one', () => {
+    const index = Bm25Index.forDocuments(documents)
+
+    expect(Bm25Index.forDocuments(documents)).toBe(index)
+    expect(Bm25Index.forDocuments([...documents])).not.toBe(index)
+  })
+})
@@ -0,0 +1,119 @@
+import { Document } from 'langchain/document'
+import { BM25_CONFIG } from '../constants'
+import { foldDiacritics, tokenizeVietnamese } from './vietnameseTokenizer'
+
+export interface Bm25Match {
+  document: Document
+  score: number
+}
+
+// One inverted index over either the exact or the diacritic-folded terms
+interface Bm25Field {
+  postings: Map<string, Array<{ docIndex: number; termFrequency: number }>>
+  documentLengths: number[]
+  averageLength: number
+}
+
+// Indexes are built once per corpus array; replacing the array (e.g. after an upload) rebuilds it
+const indexCache = new WeakMap<Document[], Bm25Index>()
+
+/**
+ * Okapi BM25 over chunk text with Vietnamese syllable and compound terms.
+ * Exact (accented) matches are the main signal; diacritic-insensitive matches add a smaller
+ * secondary score so queries typed without accents still find their chunks.
+ */
+export class Bm25Index {
+  private readonly exact: Bm25Field
+  private readonly folded: Bm25Field
+
+  constructor(private readonly documents: Document[]) {
+    const exactTerms = documents.map(document => tokenizeVietnamese(document.pageContent))
+    this.exact = Bm25Index.buildField(exactTerms)
+    this.folded = Bm25Index.buildField(exactTerms.map(terms => terms.map(term => foldDiacritics(term))))
+  }
+
+  /**
+   * Get the index of a corpus, building it on first use
+   */
+  static forDocuments(documents: Document[]): Bm25Index {
+    let index = indexCache.get(documents)
+    if (!index) {
+      const startTime = Date.now()
+      index = new Bm25Index(documents)
+      indexCache.set(documents, index)
+      console.log(`Built BM25 index over ${documents.length} chunks in ${Date.now() - startTime}ms`)
+    }
+    return index
+  }
+
+  /**
+   * Rank the corpus for a query, best first, optionally only among chunks passing a filter
+   */
+  search(query: string, limit: number, filter?: (document: Document) => boolean): Bm25Match[] {
+    const queryTerms = Array.from(new Set(tokenizeVietnamese(query)))
+    if (queryTerms.length === 0) {
+      return []
+    }
+
+    const scores = new Map<number, number>()
+    this.accumulate(this.exact, queryTerms, 1, scores)
+    this.accumulate(
+      this.folded,
+      Array.from(new Set(queryTerms.map(term => foldDiacritics(term)))),
+      BM25_CONFIG.FOLDED_WEIGHT,
+      scores
+    )
+
+    return Array.from(scores.entries())
+      .filter(([docIndex]) => !filter || filter(this.documents[docIndex]))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([docIndex, score]) => ({ document: this.documents[docIndex], score }))
+  }
+
+  /**
+   * Add the weighted BM25 contribution of each query term to the per-document scores
+   */
+  private accumulate(field: Bm25Field, queryTerms: string[], weight: number, scores: Map<number, number>): void {
+    const documentCount = field.documentLengths.length
+    const { K1, B } = BM25_CONFIG
+
+    for (const term of queryTerms) {
+      const postings = field.postings.get(term)
+      if (!postings) {
+        continue
+      }
+
+      const idf = Math.log(1 + (documentCount - postings.length + 0.5) / (postings.length + 0.5))
+      for (const { docIndex, termFrequency } of postings) {
+        const lengthNorm = 1 - B + B * (field.documentLengths[docIndex] / field.averageLength)
+        const termScore = idf * (termFrequency * (K1 + 1)) / (termFrequency + K1 * lengthNorm)
+        scores.set(docIndex, (scores.get(docIndex) || 0) + weight * termScore)
+      }
+    }
+  }
+
+  private static buildField(documentTerms: string[][]): Bm25Field {
+    const postings: Bm25Field['postings'] = new Map()
+    const documentLengths = documentTerms.map(terms => terms.length)
+
+    documentTerms.forEach((terms, docIndex) => {
+      const frequencies = new Map<string, number>()
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1)
+      }
+      for (const [term, termFrequency] of Array.from(frequencies.entries())) {
+        const list = postings.get(term) || []
+        list.push({ docIndex, termFrequency })
+        postings.set(term, list)
+      }
+    })
+
+    const totalLength = documentLengths.reduce((sum, length) => sum + length, 0)
+    return {
+      postings,
+      documentLengths,
+      averageLength: documentLengths.length > 0 ? Math.max(1, totalLength / documentLengths.length) : 1
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { CitationParser } from './citationParser'
+
+describe('CitationParser.parse', () => {
+  it('reads point, clause and article in either order', () => {
+    expect(CitationParser.parse('điểm a khoản 2 Điều 5 quy định gì?')).toMatchObject([{ article: '5', clause: '2', point: 'a' }])
+    expect(CitationParser.parse('Điều 5 khoản 2 điểm b')).toMatchObject([{ article: '5', clause: '2', point: 'b' }])
+  })
+
+  it('ties an article to the document named after it', () => {
+    const citations = CitationParser.parse('Điều 5 Nghị định 136 và Điều 7 Thông tư 149')
+
+    expect(citations).toMatchObject([
+      { article: '5', documentType: 'Nghị định', documentNumber: '136' },
+      { article: '7', documentType: 'Thông tư', documentNumber: '149' }
+    ])
+  })
+
+  it('applies a document named after a list of articles to every article in it', () => {
+    const citations = CitationParser.parse('Điều 5 và Điều 7 Thông tư 149/2020/TT-BCA')
+
+    expect(citations).toMatchObject([
+      { article: '5', documentType: 'Thông tư', documentNumber: '149/2020/TT-BCA' },
+      { article: '7', documentType: 'Thông tư', documentNumber: '149/2020/TT-BCA' }
+    ])
+  })
+
+  it('uses the document named before an article when none follows it', () => {
+    const citations = CitationParser.parse('Theo QCVN 06:2022/BXD, Điều 3 yêu cầu gì?')
+
+    expect(citations).toMatchObject([{ article: '3', documentType: 'QCVN', documentNumber: '06:2022' }])
+  })
+
+  it('does not read "pháp luật" as a law', () => {
+    expect(CitationParser.parse('Điều 3 theo quy định của pháp luật')[0].documentType).toBeUndefined()
+  })
+})
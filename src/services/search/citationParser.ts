@@ -0,0 +1,133 @@
+import type { CitationReference, LegalDocumentType } from '../types'
+
+// "Điều 5", "khoản 2 Điều 5", "điểm a khoản 2 Điều 5", "Điều 5 khoản 2 điểm a"
+const ARTICLE_PATTERN = /(?<![\p{L}\d])(?:(?:điểm\s+([a-zđ])\s*,?\s*)?khoản\s+(\d+)\s*,?\s*(?:của\s+)?)?điều\s+(\d+[a-z]?)(?![\p{L}\d])(?:\s*,?\s*khoản\s+(\d+))?(?:\s*,?\s*điểm\s+([a-zđ])(?![\p{L}\d]))?/giu
+
+// "Nghị định 136", "NĐ 136/2020/NĐ-CP", "Thông tư số 149/2020/TT-BCA", "Luật PCCC"
+const TYPED_DOCUMENT_PATTERN = /(?<![\p{L}\d])(luật|nghị\s+định|thông\s+tư|quyết\s+định|nđ|tt|qđ)(?:\s+số)?\s*(\d{1,4}(?:\/\d{4}(?:\/[\p{L}\d]+(?:-[\p{L}\d]+)*)?)?)?/giu
+// "TCVN 3890", "QCVN 06:2022/BXD"
+const STANDARD_PATTERN = /(?<![\p{L}\d])(tcvn|qcvn)\s*(\d+(?:-\d+)*(?::\d{4})?)/giu
+// A bare full number: "136/2020/NĐ-CP"
+const FULL_NUMBER_PATTERN = /(\d{1,4}\/\d{4}\/[\p{L}\d]+(?:-[\p{L}\d]+)*)/gu
+// What separates the articles of a list: "Điều 5, Điều 6 và Điều 7"
+const LIST_JOINER_PATTERN = /^\s*(?:,|,?\s*(?:và|hoặc))\s*$/iu
+
+const TYPE_BY_WORD: Record<string, LegalDocumentType> = {
+  'luật': 'Luật',
+  'nghị định': 'Nghị định',
+  'nđ': 'Nghị định',
+  'thông tư': 'Thông tư',
+  'tt': 'Thông tư',
+  'quyết định': 'Quyết định',
+  'qđ': 'Quyết định',
+  'tcvn': 'TCVN',
+  'qcvn': 'QCVN'
+}
+
+// Abbreviations that only name a document when a number follows ("NĐ 136", not "tt" alone)
+const NUMBER_REQUIRED = new Set(['nđ', 'tt', 'qđ'])
+
+const TYPE_BY_CODE: Array<[RegExp, LegalDocumentType]> = [
+  [/^qh/i, 'Luật'],
+  [/^nđ(-|$)/iu, 'Nghị định'],
+  [/^tt(-|$)/i, 'Thông tư'],
+  [/^qđ(-|$)/iu, 'Quyết định']
+]
+
+interface DocumentMention {
+  index: number
+  documentType?: LegalDocumentType
+  documentNumber?: string
+}
+
+export class CitationParser {
+  /**
+   * Find the article, clause and point references in a question, with the document each one names
+   */
+  static parse(question: string): CitationReference[] {
+    const text = question.normalize('NFC')
+    const mentions = this.findDocumentMentions(text)
+    const articleMatches = Array.from(text.matchAll(ARTICLE_PATTERN))
+
+    // "Điều 5 Nghị định 136" names its document after the article. In a list such as
+    // "Điều 5 và Điều 7 Thông tư 149" the document after the last article applies to all of them.
+    const following: Array<DocumentMention | undefined> = []
+    for (let position = articleMatches.length - 1; position >= 0; position--) {
+      const end = articleMatches[position].index! + articleMatches[position][0].length
+      const nextArticle = articleMatches[position + 1]?.index ?? text.length
+      following[position] =
+        mentions.find(candidate => candidate.index >= end && candidate.index < nextArticle) ||
+        (position + 1 < articleMatches.length && LIST_JOINER_PATTERN.test(text.slice(end, nextArticle))
+          ? following[position + 1]
+          : undefined)
+    }
+
+    const citations: CitationReference[] = []
+    articleMatches.forEach((match, position) => {
+      const start = match.index!
+
+      // Otherwise the article belongs to the last document named before it
+      const mention = following[position] || mentions.filter(candidate => candidate.index < start).pop()
+
+      const citation: CitationReference = {
+        text: match[0].trim(),
+        article: match[3].toLowerCase(),
+        clause: match[2] || match[4],
+        point: (match[1] || match[5])?.toLowerCase(),
+        documentType: mention?.documentType,
+        documentNumber: mention?.documentNumber
+      }
+
+      const isDuplicate = citations.some(existing =>
+        existing.article === citation.article &&
+        existing.clause === citation.clause &&
+        existing.point === citation.point &&
+        existing.documentNumber === citation.documentNumber &&
+        existing.documentType === citation.documentType
+      )
+      if (!isDuplicate) {
+        citations.push(citation)
+      }
+    })
+
+    return citations
+  }
+
+  /**
+   * Find the documents a question names, in order of appearance
+   */
+  private static findDocumentMentions(text: string): DocumentMention[] {
+    const mentions: DocumentMention[] = []
+
+    for (const match of text.matchAll(TYPED_DOCUMENT_PATTERN)) {
+      const word = match[1].toLowerCase().replace(/\s+/g, ' ')
+      if (NUMBER_REQUIRED.has(word) && !match[2]) {
+        continue
+      }
+      // "pháp luật" (the law in general) names no specific law
+      if (word === 'luật' && /pháp\s*$/iu.test(text.slice(0, match.index!))) {
+        continue
+      }
+      mentions.push({ index: match.index!, documentType: TYPE_BY_WORD[word], documentNumber: match[2]?.toUpperCase() })
+    }
+
+    for (const match of text.matchAll(STANDARD_PATTERN)) {
+      mentions.push({ index: match.index!, documentType: TYPE_BY_WORD[match[1].toLowerCase()], documentNumber: match[2] })
+    }
+
+    for (const match of text.matchAll(FULL_NUMBER_PATTERN)) {
+      // Already captured with its type word
+      if (mentions.some(mention => mention.documentNumber === match[1].toUpperCase())) {
+        continue
+      }
+      const code = match[1].split('/')[2]
+      mentions.push({
+        index: match.index!,
+        documentType: TYPE_BY_CODE.find(([pattern]) => pattern.test(code))?.[1],
+        documentNumber: match[1].toUpperCase()
+      })
+    }
+
+    return mentions.sort((a, b) => a.index - b.index)
+  }
+}
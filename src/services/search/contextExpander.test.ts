@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { Document } from 'langchain/document'
+import { ContextExpander } from './contextExpander'
+import type { SearchResult } from './searchService'
+
+// Chunks 0-2 are Điều 5, split into clauses; chunk 3 is Điều 6
+const documents = [
+  { text: 'Điều 5. Lối thoát nạn\n1. Mỗi tầng có ít nhất hai lối thoát nạn.', article: '5', clauses: ['1'], pageStart: 3 },
+  { text: 'Điều 5. Lối thoát nạn (tiếp theo)\n2. Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.', article: '5', clauses: ['2'], pageStart: 3 },
+  { text: 'Điều 5. Lối thoát nạn (tiếp theo)\n3. Cửa trên lối thoát nạn mở theo chiều thoát.', article: '5', clauses: ['3'], pageStart: 4 },
+  { text: 'Điều 6. Chiếu sáng sự cố\n1. Lối thoát nạn được chiếu sáng sự cố.', article: '6', clauses: ['1'], pageStart: 4 }
+].map(({ text, article, clauses, pageStart }, chunkIndex) => new Document({
+  pageContent: text,
+  metadata: {
+    documentId: 'qcvn-06',
+    chunkIndex,
+    article: `Điều ${article}`,
+    articleNumber: article,
+    clauses,
+    pageStart,
+    pageEnd: pageStart
+  }
+}))
+
+function hit(chunkIndex: number, score = 1): SearchResult {
+  return { content: documents[chunkIndex].pageContent, metadata: { ...documents[chunkIndex].metadata }, score }
+}
+
+describe('ContextExpander.expand', () => {
+  it('widens a hit to its whole article, dropping the repeated headings', () => {
+    const [result] = ContextExpander.expand([hit(1)], [documents], 'article')
+
+    expect(result.content).toBe([
+      'Điều 5. Lối thoát nạn',
+      '1. Mỗi tầng có ít nhất hai lối thoát nạn.',
+      '2. Chiều rộng lối thoát nạn không nhỏ hơn 1,2 m.',
+      '3. Cửa trên lối thoát nạn mở theo chiều thoát.'
+    ].join('\n'))
+    expect(result.metadata).toMatchObject({ chunkStart: 0, chunkEnd: 2, pageStart: 3, pageEnd: 4, structurePath: 'Điều 5' })
+    expect(result.metadata?.clauses).toBeUndefined()
+  })
+
+  it('adds one neighbour on each side in neighbours mode, across article boundaries', () => {
+    const [result] = ContextExpander.expand([hit(2)], [documents], 'neighbors')
+
+    expect(result.metadata).toMatchObject({ chunkStart: 1, chunkEnd: 3 })
+  })
+
+  it('merges hits that cover the same article into the better one', () => {
+    const results = ContextExpander.expand([hit(0, 0.9), hit(2, 0.5), hit(3, 0.4)], [documents], 'article')
+
+    expect(results).toHaveLength(2)
+    expect(results[0]).toMatchObject({ score: 0.9, metadata: { chunkStart: 0, chunkEnd: 2 } })
+    expect(results[1].metadata?.articleNumber).toBe('6')
+  })
+
+  it('stops once the limit of passages is reached', () => {
+    const results = ContextExpander.expand([hit(0), hit(3)], [documents], 'article', 1)
+
+    expect(results).toHaveLength(1)
+  })
+
+  it('leaves results unchanged without expansion or without chunk ordinals', () => {
+    const unordered: SearchResult = { content: 'Điều 9. Văn bản cũ', metadata: { documentId: 'qcvn-06' } }
+
+    expect(ContextExpander.expand([hit(1)], [documents], 'none')).toEqual([hit(1)])
+    expect(ContextExpander.expand([unordered], [documents], 'article')).toEqual([unordered])
+  })
+
+  it('only grows hits with chunks of the corpus it is given', () => {
+    const [result] = ContextExpander.expand([hit(1)], [documents.filter(doc => doc.metadata.chunkIndex !== 0)], 'article')
+
+    expect(result.metadata).toMatchObject({ chunkStart: 1, chunkEnd: 2 })
+  })
+})
@@ -0,0 +1,204 @@
+import { Document } from 'langchain/document'
+import { CONTEXT_CONFIG } from '../constants'
+import { LegalStructureSplitter } from '../pdf/legalStructureSplitter'
+import type { SearchResult } from './searchService'
+
+export type ContextExpansion = 'article' | 'neighbors' | 'none'
+
+// Chunks of one document by their ordinal
+type ChunkIndex = Map<string, Map<number, Document>>
+
+// Expanded hit: the chunk range it covers within its document
+interface ExpandedResult {
+  result: SearchResult
+  documentKey: string
+  start: number
+  end: number
+}
+
+// Continuation chunks of a long article repeat its heading: "Điều 5. ... (tiếp theo)"
+const CONTINUATION_HEADING_PATTERN = /^[^\n]*\(tiếp theo\)\n/u
+// Longest text overlap looked for between consecutive chunks
+const MAX_OVERLAP_LENGTH = 1000
+// Shortest suffix/prefix match treated as real overlap rather than a coincidence
+const MIN_OVERLAP_LENGTH = 20
+
+const indexCache = new WeakMap<Document[], ChunkIndex>()
+
+function documentKey(metadata: Record<string, unknown> | undefined): string | null {
+  const key = metadata?.documentId || metadata?.source
+  return typeof key === 'string' ? key : null
+}
+
+export class ContextExpander {
+  /**
+   * Widen each result with the chunks around it, up to its article boundary or by a fixed
+   * number of neighbours, and merge results that end up covering overlapping chunks.
+   * Results are taken best first until `limit` distinct passages are collected.
+   */
+  static expand(
+    results: SearchResult[],
+    corpora: Document[][],
+    mode: ContextExpansion = CONTEXT_CONFIG.EXPANSION,
+    limit: number = results.length
+  ): SearchResult[] {
+    if (mode === 'none' || results.length === 0) {
+      return results.slice(0, limit)
+    }
+
+    const indexes = corpora.map(documents => this.getIndex(documents))
+    const findChunks = (key: string) => indexes.find(index => index.has(key))?.get(key)
+
+    const expanded: Array<ExpandedResult | SearchResult> = []
+    let mergedCount = 0
+    for (const result of results) {
+      if (expanded.length >= limit) {
+        break
+      }
+      const key = documentKey(result.metadata)
+      const ordinal = result.metadata?.chunkIndex
+      const chunks = key ? findChunks(key) : undefined
+      // Chunks stored before ordinals were recorded cannot be expanded
+      if (!key || typeof ordinal !== 'number' || !chunks) {
+        expanded.push(result)
+        continue
+      }
+
+      const [start, end] = this.expandRange(chunks, ordinal, mode)
+      const overlapping = expanded.find((candidate): candidate is ExpandedResult =>
+        'documentKey' in candidate && candidate.documentKey === key && start <= candidate.end && end >= candidate.start
+      )
+
+      // Results arrive best first, so a merged result keeps the better one's place and scores
+      if (overlapping) {
+        overlapping.start = Math.min(overlapping.start, start)
+        overlapping.end = Math.max(overlapping.end, end)
+        mergedCount++
+      } else {
+        expanded.push({ result, documentKey: key, start, end })
+      }
+    }
+
+    const merged = expanded.map(entry => 'documentKey' in entry
+      ? this.buildResult(entry, findChunks(entry.documentKey)!)
+      : entry
+    )
+    if (mergedCount > 0) {
+      console.log(`Merged ${mergedCount} overlapping results after context expansion`)
+    }
+    return merged
+  }
+
+  /**
+   * Chunk range around a hit: the rest of its article, or a fixed number of neighbours,
+   * growing towards the preceding chunks first so headings and lead-in clauses come along
+   */
+  private static expandRange(chunks: Map<number, Document>, ordinal: number, mode: ContextExpansion): [number, number] {
+    const hit = chunks.get(ordinal)!
+    const article = hit.metadata.articleNumber
+    const byArticle = mode === 'article' && article !== undefined
+    const limit = byArticle ? Infinity : CONTEXT_CONFIG.NEIGHBOR_CHUNKS
+
+    const canAdd = (candidate: number, length: number): boolean => {
+      const chunk = chunks.get(candidate)
+      if (!chunk || length + chunk.pageContent.length > CONTEXT_CONFIG.MAX_EXPANDED_LENGTH) {
+        return false
+      }
+      return !byArticle || (chunk.metadata.articleNumber === article && chunk.metadata.article === hit.metadata.article)
+    }
+
+    let start = ordinal
+    let end = ordinal
+    let length = hit.pageContent.length
+    let growing = true
+    while (growing) {
+      growing = false
+      if (ordinal - start < limit && canAdd(start - 1, length)) {
+        start--
+        length += chunks.get(start)!.pageContent.length
+        growing = true
+      }
+      if (end - ordinal < limit && canAdd(end + 1, length)) {
+        end++
+        length += chunks.get(end)!.pageContent.length
+        growing = true
+      }
+    }
+
+    return [start, end]
+  }
+
+  /**
+   * Join a chunk range into one result, spanning the pages and structure of all its chunks
+   */
+  private static buildResult(entry: ExpandedResult, chunks: Map<number, Document>): SearchResult {
+    if (entry.start === entry.end && entry.result.metadata?.chunkIndex === entry.start) {
+      return entry.result
+    }
+
+    const range: Document[] = []
+    for (let ordinal = entry.start; ordinal <= entry.end; ordinal++) {
+      range.push(chunks.get(ordinal)!)
+    }
+
+    const content = range
+      .map(chunk => chunk.pageContent)
+      .reduce((joined, next) => this.joinChunks(joined, next))
+
+    const pageStarts = range.map(chunk => chunk.metadata.pageStart).filter((page): page is number => typeof page === 'number')
+    const pageEnds = range.map(chunk => chunk.metadata.pageEnd).filter((page): page is number => typeof page === 'number')
+    const metadata: Record<string, unknown> = {
+      ...entry.result.metadata,
+      pageStart: pageStarts.length > 0 ? Math.min(...pageStarts) : entry.result.metadata?.pageStart,
+      pageEnd: pageEnds.length > 0 ? Math.max(...pageEnds) : entry.result.metadata?.pageEnd,
+      chunkStart: entry.start,
+      chunkEnd: entry.end
+    }
+
+    // A range inside one article covers several clauses, so label it with the whole article
+    const articles = new Set(range.map(chunk => chunk.metadata.article))
+    if (articles.size === 1 && metadata.article) {
+      delete metadata.clauses
+      delete metadata.points
+      metadata.structurePath = LegalStructureSplitter.formatStructurePath(metadata) || undefined
+    }
+
+    return { ...entry.result, content, metadata }
+  }
+
+  /**
+   * Append a chunk to the text before it, dropping its repeated article heading and the
+   * text it shares with the end of the previous chunk
+   */
+  private static joinChunks(previous: string, next: string): string {
+    const body = next.replace(CONTINUATION_HEADING_PATTERN, '')
+    const maxOverlap = Math.min(previous.length, body.length, MAX_OVERLAP_LENGTH)
+    for (let length = maxOverlap; length >= MIN_OVERLAP_LENGTH; length--) {
+      if (previous.endsWith(body.slice(0, length))) {
+        return previous + body.slice(length)
+      }
+    }
+    return `${previous}\n${body}`
+  }
+
+  /**
+   * Group a corpus's chunks by document and ordinal, once per corpus
+   */
+  private static getIndex(documents: Document[]): ChunkIndex {
+    let index = indexCache.get(documents)
+    if (!index) {
+      index = new Map()
+      for (const doc of documents) {
+        const key = documentKey(doc.metadata)
+        if (key && typeof doc.metadata.chunkIndex === 'number') {
+          if (!index.has(key)) {
+            index.set(key, new Map())
+          }
+          index.get(key)!.set(doc.metadata.chunkIndex, doc)
+        }
+      }
+      indexCache.set(documents, index)
+    }
+    return index
+  }
+}
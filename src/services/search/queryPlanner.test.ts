@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { LLMService } from '../llm/llmService'
+import { QueryPlanner } from './queryPlanner'
+
+describe('QueryPlanner.plan', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('splits a comparison into the sub-queries the model returns', async () => {
+    const queries = ['Chiều rộng lối thoát nạn nhà ở', 'Chiều rộng lối thoát nạn nhà xưởng']
+    const planQueries = vi.spyOn(LLMService, 'planQueries').mockResolvedValue({ success: true, queries })
+
+    const plan = await QueryPlanner.plan('So sánh chiều rộng lối thoát nạn của nhà ở và nhà xưởng')
+
+    expect(planQueries).toHaveBeenCalledOnce()
+    expect(plan).toEqual({ queries, planned: true })
+  })
+
+  it('does not call the model for a simple question', async () => {
+    const planQueries = vi.spyOn(LLMService, 'planQueries')
+
+    const plan = await QueryPlanner.plan('Chiều rộng lối thoát nạn tối thiểu là bao nhiêu?')
+
+    expect(planQueries).not.toHaveBeenCalled()
+    expect(plan).toEqual({ queries: ['Chiều rộng lối thoát nạn tối thiểu là bao nhiêu?'], planned: false })
+  })
+
+  it('does not read a conjunction inside a fixed term as two questions', async () => {
+    const planQueries = vi.spyOn(LLMService, 'planQueries')
+
+    await QueryPlanner.plan('Cơ sở nào phải lập phương án phòng cháy và chữa cháy theo quy định hiện hành?')
+
+    expect(planQueries).not.toHaveBeenCalled()
+  })
+
+  it('searches the question as it is when the model fails or returns one query', async () => {
+    const question = 'Yêu cầu về bình chữa cháy và hệ thống báo cháy tự động trong nhà chung cư cao tầng là gì?'
+    const planQueries = vi.spyOn(LLMService, 'planQueries').mockResolvedValueOnce({ success: false, error: 'timeout' })
+
+    expect(await QueryPlanner.plan(question)).toEqual({ queries: [question], planned: false })
+
+    planQueries.mockResolvedValueOnce({ success: true, queries: [question] })
+    expect(await QueryPlanner.plan(question)).toEqual({ queries: [question], planned: false })
+    expect(planQueries).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,48 @@
+import { PLANNER_CONFIG } from '../constants'
+import { LLMService } from '../llm/llmService'
+
+// Wording that signals a question with several parts: comparisons, enumerations, several questions
+const COMPOUND_CUE_PATTERN = /so sánh|khác nhau|khác biệt|giống nhau|phân biệt|lần lượt|đồng thời|[;?].*\?/iu
+// Conjunctions that may join two separate asks in a longer question
+const CONJUNCTION_PATTERN = /\s(và|hoặc|với|cũng như)\s/iu
+// Fixed terms containing a conjunction, which alone do not make a question compound
+const FIXED_TERM_PATTERN = /phòng cháy (và|,) chữa cháy|cứu nạn,? cứu hộ|thẩm duyệt và nghiệm thu/giu
+// Below this length a conjunction rarely joins two separate questions
+const MIN_CONJUNCTION_QUESTION_LENGTH = 60
+
+export interface QueryPlan {
+  queries: string[] // Sub-queries to search; just the question when it was not split
+  planned: boolean // Whether the question was split into several sub-queries
+}
+
+export class QueryPlanner {
+  /**
+   * Split a compound question into sub-queries with the LLM; simple questions are searched as they are
+   */
+  static async plan(question: string): Promise<QueryPlan> {
+    const single: QueryPlan = { queries: [question], planned: false }
+    if (!PLANNER_CONFIG.ENABLED || !this.looksCompound(question)) {
+      return single
+    }
+
+    const result = await LLMService.planQueries(question, PLANNER_CONFIG.MAX_SUB_QUERIES)
+    if (!result.success || !result.queries || result.queries.length < 2) {
+      return single
+    }
+
+    console.log(`Split question into ${result.queries.length} sub-queries: ${result.queries.join(' | ')}`)
+    return { queries: result.queries, planned: true }
+  }
+
+  /**
+   * Cheap check so that only questions likely to have several parts cost an LLM call
+   */
+  private static looksCompound(question: string): boolean {
+    const text = question.normalize('NFC')
+    if (COMPOUND_CUE_PATTERN.test(text)) {
+      return true
+    }
+    const withoutFixedTerms = text.replace(FIXED_TERM_PATTERN, ' ')
+    return withoutFixedTerms.length >= MIN_CONJUNCTION_QUESTION_LENGTH && CONJUNCTION_PATTERN.test(withoutFixedTerms)
+  }
+}
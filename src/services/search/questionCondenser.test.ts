@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { LLMService } from '../llm/llmService'
+import type { ChatTurn } from '../types'
+import { QuestionCondenser } from './questionCondenser'
+
+const history: ChatTurn[] = [{
+  question: 'Chiều rộng lối thoát nạn của nhà ở tối thiểu là bao nhiêu?',
+  answer: 'Không nhỏ hơn 1,2 m.',
+  timestamp: new Date('2024-01-01T00:00:00Z')
+}]
+
+describe('QuestionCondenser.condense', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('rewrites a follow-up with the recent conversation', async () => {
+    const condense = vi.spyOn(LLMService, 'condenseQuestion')
+      .mockResolvedValue({ success: true, question: 'Chiều rộng lối thoát nạn của nhà xưởng tối thiểu là bao nhiêu?' })
+
+    const question = await QuestionCondenser.condense('Còn nhà xưởng thì sao?', history)
+
+    expect(condense).toHaveBeenCalledWith('Còn nhà xưởng thì sao?', history)
+    expect(question).toBe('Chiều rộng lối thoát nạn của nhà xưởng tối thiểu là bao nhiêu?')
+  })
+
+  it('rewrites questions that point back at an earlier provision', async () => {
+    const condense = vi.spyOn(LLMService, 'condenseQuestion').mockResolvedValue({ success: true, question: 'rewritten' })
+
+    await QuestionCondenser.condense('Quy định đó áp dụng cho nhà chung cư cao tầng không?', history)
+
+    expect(condense).toHaveBeenCalledOnce()
+  })
+
+  it('leaves standalone questions and questions without history alone', async () => {
+    const condense = vi.spyOn(LLMService, 'condenseQuestion')
+
+    await QuestionCondenser.condense('Nhà này có phải trang bị hệ thống báo cháy tự động không?', history)
+    await QuestionCondenser.condense('Còn nhà xưởng thì sao?', [])
+
+    expect(condense).not.toHaveBeenCalled()
+  })
+
+  it('keeps the question when the model fails', async () => {
+    vi.spyOn(LLMService, 'condenseQuestion').mockResolvedValue({ success: false, error: 'No API key' })
+
+    expect(await QuestionCondenser.condense('Còn nhà xưởng thì sao?', history)).toBe('Còn nhà xưởng thì sao?')
+  })
+})
@@ -0,0 +1,39 @@
+import { CONVERSATION_CONFIG } from '../constants'
+import { LLMService } from '../llm/llmService'
+import type { ChatTurn } from '../types'
+
+// Openings and references that lean on an earlier turn: "còn ... thì sao?", "quy định đó", "trường hợp này".
+// "này" and "đó" count only after the nouns they point back with; alone they end ordinary noun phrases
+const FOLLOW_UP_CUE_PATTERN = /^(còn|vậy|thế còn|thế thì|nếu vậy|ngoài ra)\s|(^|\s)(nó|như vậy|thì sao|(quy định|trường hợp|điều|khoản|điểm|yêu cầu|tiêu chuẩn|quy chuẩn|văn bản|vấn đề|mức) (này|đó))(?=$|[\s?.,!])/iu
+// Questions this short rarely name their subject in full
+const MIN_STANDALONE_LENGTH = 25
+
+export class QuestionCondenser {
+  /**
+   * Rewrite a follow-up question into one that can be searched on its own, using the recent
+   * conversation. Questions that already stand alone, or have no history, are returned as they are.
+   */
+  static async condense(question: string, history: ChatTurn[]): Promise<string> {
+    if (!CONVERSATION_CONFIG.CONDENSE_ENABLED || history.length === 0 || !this.looksLikeFollowUp(question)) {
+      return question
+    }
+
+    const result = await LLMService.condenseQuestion(question, history)
+    if (!result.success || !result.question) {
+      return question
+    }
+
+    if (result.question !== question) {
+      console.log(`Condensed follow-up question: "${question}" -> "${result.question}"`)
+    }
+    return result.question
+  }
+
+  /**
+   * Cheap check so that only questions likely to depend on earlier turns cost an LLM call
+   */
+  private static looksLikeFollowUp(question: string): boolean {
+    const text = question.normalize('NFC').trim()
+    return text.length < MIN_STANDALONE_LENGTH || FOLLOW_UP_CUE_PATTERN.test(text)
+  }
+}
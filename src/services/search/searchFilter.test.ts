@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { Document } from 'langchain/document'
+import { SearchFilters } from './searchFilter'
+
+const metadata = {
+  documentId: 'doc-1',
+  documentNumber: '136/2020/NĐ-CP',
+  documentType: 'Nghị định',
+  issuingBody: 'Chính phủ',
+  chapter: 'Chương II',
+  section: 'Mục 1',
+  articleNumber: '15',
+  issueYear: 2020
+}
+
+describe('SearchFilters.parse', () => {
+  it('accepts a filter and drops empty fields', () => {
+    expect(SearchFilters.parse({ articles: ['15'], chapters: [], issueYear: { from: 2015 } })).toEqual({
+      valid: true,
+      filter: { articles: ['15'], issueYear: { from: 2015, to: undefined } }
+    })
+    expect(SearchFilters.parse({ sections: [] })).toEqual({ valid: true, filter: undefined })
+    expect(SearchFilters.parse(undefined)).toEqual({ valid: true })
+  })
+
+  it('rejects malformed fields and unknown document types', () => {
+    expect(SearchFilters.parse([]).valid).toBe(false)
+    expect(SearchFilters.parse({ articles: '15' }).error).toBe('filter.articles must be an array of strings')
+    expect(SearchFilters.parse({ documentTypes: ['Công văn'] }).error).toMatch(/^Unknown document type "Công văn"/)
+    expect(SearchFilters.parse({ issueYear: { from: '2015' } }).valid).toBe(false)
+  })
+})
+
+describe('SearchFilters.matches', () => {
+  it('compares structure labels with or without their leading word and accents', () => {
+    expect(SearchFilters.matches(metadata, { chapters: ['chuong ii'], articles: ['Điều 15'] })).toBe(true)
+    expect(SearchFilters.matches(metadata, { sections: ['Mục 2'] })).toBe(false)
+  })
+
+  it('matches full and leading document numbers, but not a longer number', () => {
+    expect(SearchFilters.matches(metadata, { documentNumbers: ['136/2020/nd-cp'] })).toBe(true)
+    expect(SearchFilters.matches(metadata, { documentNumbers: ['136'] })).toBe(true)
+    expect(SearchFilters.matches(metadata, { documentNumbers: ['13'] })).toBe(false)
+    expect(SearchFilters.matchesDocumentNumber('06:2022/BXD', 'QCVN 06:2022')).toBe(true)
+  })
+
+  it('filters by type, issuing body and issue year range', () => {
+    expect(SearchFilters.matches(metadata, { documentTypes: ['Nghị định'], issuingBodies: ['chinh phu'] })).toBe(true)
+    expect(SearchFilters.matches(metadata, { issueYear: { from: 2015, to: 2020 } })).toBe(true)
+    expect(SearchFilters.matches(metadata, { issueYear: { from: 2021 } })).toBe(false)
+  })
+
+  it('excludes chunks missing a filtered field', () => {
+    expect(SearchFilters.matches({ documentId: 'doc-1' }, { articles: ['15'] })).toBe(false)
+    expect(SearchFilters.matches({ documentId: 'doc-1' }, { issueYear: { to: 2030 } })).toBe(false)
+  })
+})
+
+describe('SearchFilters.toPredicate', () => {
+  it('returns no predicate for an empty filter', () => {
+    expect(SearchFilters.toPredicate(undefined)).toBeUndefined()
+    expect(SearchFilters.toPredicate({ articles: [] })).toBeUndefined()
+  })
+
+  it('tests chunk metadata', () => {
+    const predicate = SearchFilters.toPredicate({ documentIds: ['doc-1'] })!
+
+    expect(predicate(new Document({ pageContent: '', metadata }))).toBe(true)
+    expect(predicate(new Document({ pageContent: '', metadata: { documentId: 'doc-2' } }))).toBe(false)
+  })
+})
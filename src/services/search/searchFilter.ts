@@ -0,0 +1,139 @@
+import { Document } from 'langchain/document'
+import { LEGAL_DOCUMENT_TYPES } from '../constants'
+import type { LegalDocumentType, SearchFilter } from '../types'
+import { foldDiacritics } from './vietnameseTokenizer'
+
+// Structural labels are compared without their leading word: "Chương II" -> "ii", "Điều 15" -> "15"
+const LABEL_PREFIX_PATTERN = /^(chuong|muc|dieu)\s+/
+
+const LIST_FIELDS = ['documentIds', 'documentNumbers', 'documentTypes', 'issuingBodies', 'chapters', 'sections', 'articles'] as const
+
+function normalize(value: string): string {
+  return foldDiacritics(value.normalize('NFC').toLowerCase()).replace(/\s+/g, ' ').trim()
+}
+
+function normalizeLabel(value: string): string {
+  return normalize(value).replace(LABEL_PREFIX_PATTERN, '')
+}
+
+export class SearchFilters {
+  /**
+   * Validate a filter received from a request body
+   */
+  static parse(input: unknown): { valid: boolean; filter?: SearchFilter; error?: string } {
+    if (input === undefined || input === null) {
+      return { valid: true }
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      return { valid: false, error: 'filter must be an object' }
+    }
+
+    const raw = input as Record<string, unknown>
+    const filter: SearchFilter = {}
+
+    for (const field of LIST_FIELDS) {
+      const value = raw[field]
+      if (value === undefined) {
+        continue
+      }
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        return { valid: false, error: `filter.${field} must be an array of strings` }
+      }
+      if (value.length > 0) {
+        (filter as Record<string, string[]>)[field] = value
+      }
+    }
+
+    const unknownType = filter.documentTypes?.find(type => !LEGAL_DOCUMENT_TYPES.includes(type))
+    if (unknownType) {
+      return { valid: false, error: `Unknown document type "${unknownType}". Use one of: ${LEGAL_DOCUMENT_TYPES.join(', ')}` }
+    }
+
+    if (raw.issueYear !== undefined) {
+      const range = raw.issueYear as Record<string, unknown> | null
+      const isYear = (year: unknown) => year === undefined || (typeof year === 'number' && Number.isInteger(year))
+      if (typeof range !== 'object' || range === null || !isYear(range.from) || !isYear(range.to)) {
+        return { valid: false, error: 'filter.issueYear must be { from?: number, to?: number }' }
+      }
+      if (range.from !== undefined || range.to !== undefined) {
+        filter.issueYear = { from: range.from as number | undefined, to: range.to as number | undefined }
+      }
+    }
+
+    return { valid: true, filter: this.isEmpty(filter) ? undefined : filter }
+  }
+
+  /**
+   * Build the chunk predicate both retrievers apply, or undefined when nothing is filtered
+   */
+  static toPredicate(filter?: SearchFilter): ((document: Document) => boolean) | undefined {
+    if (!filter || this.isEmpty(filter)) {
+      return undefined
+    }
+    return (document: Document) => this.matches(document.metadata || {}, filter)
+  }
+
+  /**
+   * Check a chunk's metadata against every field the filter sets; chunks missing a filtered field are excluded
+   */
+  static matches(metadata: Record<string, unknown>, filter: SearchFilter): boolean {
+    const text = (key: string) => typeof metadata[key] === 'string' ? metadata[key] as string : undefined
+
+    if (filter.documentIds && !filter.documentIds.includes(text('documentId') || '')) {
+      return false
+    }
+    if (filter.documentNumbers) {
+      const documentNumber = text('documentNumber')
+      if (!documentNumber || !filter.documentNumbers.some(number => this.matchesDocumentNumber(documentNumber, number))) {
+        return false
+      }
+    }
+    if (filter.documentTypes && !filter.documentTypes.includes(metadata.documentType as LegalDocumentType)) {
+      return false
+    }
+    if (filter.issuingBodies) {
+      const issuingBody = normalize(text('issuingBody') || '')
+      if (!issuingBody || !filter.issuingBodies.some(body => normalize(body) === issuingBody)) {
+        return false
+      }
+    }
+
+    const structure: Array<[string[] | undefined, string | undefined]> = [
+      [filter.chapters, text('chapter')],
+      [filter.sections, text('section')],
+      [filter.articles, text('articleNumber')]
+    ]
+    for (const [wanted, actual] of structure) {
+      if (wanted && (!actual || !wanted.some(label => normalizeLabel(label) === normalizeLabel(actual)))) {
+        return false
+      }
+    }
+
+    if (filter.issueYear) {
+      const year = metadata.issueYear
+      if (typeof year !== 'number') {
+        return false
+      }
+      if ((filter.issueYear.from !== undefined && year < filter.issueYear.from) ||
+          (filter.issueYear.to !== undefined && year > filter.issueYear.to)) {
+        return false
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Match a document number against a full or leading reference, ignoring case, diacritics and a
+   * type prefix: "136" and "136/2020" match "136/2020/NĐ-CP"; "QCVN 06:2022" matches "06:2022/BXD"
+   */
+  static matchesDocumentNumber(documentNumber: string, reference: string): boolean {
+    const number = normalize(documentNumber)
+    const wanted = normalize(reference).replace(/^(tcvn|qcvn)\s*/, '')
+    return number === wanted || (number.startsWith(wanted) && /[/:-]/.test(number[wanted.length]))
+  }
+
+  private static isEmpty(filter: SearchFilter): boolean {
+    return LIST_FIELDS.every(field => !filter[field]?.length) && !filter.issueYear
+  }
+}
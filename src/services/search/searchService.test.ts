@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Document } from 'langchain/document'
+import { MemoryVectorStore } from 'langchain/vectorstores/memory'
+import { FakeEmbeddings } from '@langchain/core/utils/testing'
+import { FUSION_CONFIG } from '../constants'
+import { LibraryService } from '../library/libraryService'
+import { SearchService, type SearchResult } from './searchService'
+
+// Article headings of 100 characters or more start every chunk of the article
+const HEADING = 'Điều 12. Trách nhiệm của cơ quan, tổ chức, hộ gia đình và cá nhân trong việc bảo đảm an toàn phòng cháy và chữa cháy'
+
+function chunk(text: string, chunkIndex: number): Document {
+  return new Document({
+    pageContent: `${HEADING}${chunkIndex > 0 ? ' (tiếp theo)' : ''}\n${text}`,
+    metadata: { documentId: 'doc-1', chunkIndex, articleNumber: '12' }
+  })
+}
+
+describe('SearchService.hybridSearch', () => {
+  it('keeps different chunks that share an article heading apart', async () => {
+    const documents = [
+      chunk('1. Người đứng đầu cơ sở chịu trách nhiệm tổ chức kiểm tra an toàn phòng cháy.', 0),
+      chunk('2. Hộ gia đình phải trang bị bình chữa cháy và kiểm tra an toàn phòng cháy.', 1),
+      chunk('3. Cá nhân phải chấp hành nội quy và kiểm tra an toàn phòng cháy nơi ở.', 2)
+    ]
+    const vectorStore = await MemoryVectorStore.fromDocuments(documents, new FakeEmbeddings())
+
+    const result = await SearchService.hybridSearch(vectorStore, documents, 'kiểm tra an toàn phòng cháy', { maxResults: 3 })
+
+    expect(result.success).toBe(true)
+    expect(result.results).toHaveLength(3)
+    expect(new Set(result.results.map(hit => hit.metadata?.chunkIndex))).toEqual(new Set([0, 1, 2]))
+  })
+
+  it('fuses the same chunk found by both retrievers into one result', async () => {
+    const documents = [chunk('1. Người đứng đầu cơ sở chịu trách nhiệm tổ chức kiểm tra an toàn phòng cháy.', 0)]
+    const vectorStore = await MemoryVectorStore.fromDocuments(documents, new FakeEmbeddings())
+
+    const result = await SearchService.hybridSearch(vectorStore, documents, 'kiểm tra an toàn', { maxResults: 3 })
+
+    expect(result.results).toHaveLength(1)
+    expect(result.results[0].ranks).toEqual({ vector: 1, text: 1 })
+  })
+})
+
+// FakeEmbeddings gives every text the same vector, so the vector ranking follows corpus order.
+// Vector search skips chunks under 50 characters.
+function plain(...texts: string[]): Document[] {
+  return texts.map((pageContent, chunkIndex) => new Document({ pageContent, metadata: { chunkIndex } }))
+}
+
+describe('SearchService.hybridSearch fusion', () => {
+  const documents = plain(
+    'Hệ thống báo cháy tự động của công trình phải được kiểm tra định kỳ hằng năm.',
+    'Họng nước chữa cháy vách tường được bố trí tại hành lang và buồng thang bộ.',
+    'Đèn chiếu sáng sự cố được lắp đặt dọc theo lối thoát nạn của tầng hầm.'
+  )
+  const search = async (fusionWeights?: { vector?: number; text?: number }) => {
+    const vectorStore = await MemoryVectorStore.fromDocuments(documents, new FakeEmbeddings())
+    return SearchService.hybridSearch(vectorStore, documents, 'họng nước vách tường', { maxResults: 3, fusionWeights })
+  }
+
+  it('scores each result by the sum of its reciprocal ranks', async () => {
+    const result = await search()
+
+    expect(result.results[0].metadata?.chunkIndex).toBe(1)
+    expect(result.results[0].ranks).toEqual({ vector: 2, text: 1 })
+    expect(result.results[0].score).toBeCloseTo(1 / (FUSION_CONFIG.RRF_K + 2) + 1 / (FUSION_CONFIG.RRF_K + 1))
+    expect(result.results[1].metadata?.chunkIndex).toBe(0)
+  })
+
+  it('weights each retriever', async () => {
+    const vectorOnly = await search({ text: 0 })
+    const textHeavy = await search({ vector: 0.5, text: 2 })
+
+    expect(vectorOnly.results.map(hit => hit.metadata?.chunkIndex)).toEqual([0, 1, 2])
+    expect(textHeavy.results[0].score).toBeCloseTo(0.5 / (FUSION_CONFIG.RRF_K + 2) + 2 / (FUSION_CONFIG.RRF_K + 1))
+  })
+})
+
+describe('SearchService.smartSearch scope fusion', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('ranks a chunk found in both scopes above chunks found in one, and returns it once', async () => {
+    const shared = 'Bình chữa cháy xách tay được đặt ở nơi dễ thấy, dễ lấy khi có sự cố.'
+    const sessionDocuments = plain('Hộ gia đình trang bị phương tiện chữa cháy phù hợp với nhà ở của mình.', shared)
+    const libraryDocuments = plain(shared, 'Phương tiện chữa cháy phải được kiểm định trước khi đưa vào sử dụng.')
+    vi.spyOn(LibraryService, 'getCorpus').mockResolvedValue({
+      vectorstore: await MemoryVectorStore.fromDocuments(libraryDocuments, new FakeEmbeddings()),
+      documents: libraryDocuments,
+      libraryDocuments: []
+    })
+
+    const result = await SearchService.smartSearch(
+      await MemoryVectorStore.fromDocuments(sessionDocuments, new FakeEmbeddings()),
+      sessionDocuments,
+      'phương tiện chữa cháy',
+      { maxResults: 5, searchType: 'vector', reranker: 'none', expandQuery: false, citationLookup: false, contextExpansion: 'none', diversify: false }
+    )
+
+    expect(result.results.map(hit => hit.content)).toEqual([
+      shared,
+      sessionDocuments[0].pageContent,
+      libraryDocuments[1].pageContent
+    ])
+  })
+})
+
+describe('SearchService.diversifyResults', () => {
+  const exits = 'Chiều rộng lối thoát nạn trong nhà ở không nhỏ hơn 1,2 m và cửa mở theo chiều thoát.'
+  const exitsOverlap = 'Chiều rộng lối thoát nạn trong nhà ở không nhỏ hơn 1,2 m; cửa mở theo chiều thoát ra ngoài.'
+  const alarms = 'Hệ thống báo cháy tự động phải được kiểm tra, bảo dưỡng định kỳ mỗi năm một lần.'
+  const lighting = 'Đèn chiếu sáng sự cố được lắp đặt dọc theo hành lang của tầng hầm.'
+  // Relevance is rescaled to 0-1 over the list, so a weak last result keeps the others close
+  const ranked: SearchResult[] = [
+    { content: exits, score: 0.9 },
+    { content: exitsOverlap, score: 0.85 },
+    { content: alarms, score: 0.8 },
+    { content: lighting, score: 0.1 }
+  ]
+
+  it('moves a near-duplicate of a better result below a different provision', () => {
+    expect(SearchService.diversifyResults(ranked, 0.7).map(result => result.content)).toEqual([exits, alarms, exitsOverlap, lighting])
+  })
+
+  it('keeps the relevance order with lambda 1', () => {
+    expect(SearchService.diversifyResults(ranked, 1)).toEqual(ranked)
+  })
+
+  it('treats pinned results as already picked', () => {
+    const reordered = SearchService.diversifyResults(ranked.slice(1), 0.7, [ranked[0]])
+
+    expect(reordered.map(result => result.content)).toEqual([alarms, exitsOverlap, lighting])
+  })
+
+  it('prefers the reranker score over the retrieval score', () => {
+    const results: SearchResult[] = [
+      { content: exits, score: 0.9, rerankScore: 0.2 },
+      { content: alarms, score: 0.1, rerankScore: 0.8 }
+    ]
+
+    expect(SearchService.diversifyResults(results, 0.7)[0].content).toBe(alarms)
+  })
+})
@@ -1,20 +1,48 @@
+import { createHash } from 'crypto'
 import { Document } from 'langchain/document'
 import { MemoryVectorStore } from 'langchain/vectorstores/memory'
-import { PROCESSING_CONFIG } from '../constants'
+import { API_CONFIG, PROCESSING_CONFIG, OCR_CONFIG, SEARCH_SCOPE_LABELS, FUSION_CONFIG, RERANK_CONFIG, CONTEXT_CONFIG, DIVERSITY_CONFIG } from '../constants'
+import type { CitationReference, QueryExpansion, SearchFilter, SearchScope } from '../types'
 import { VectorStoreService } from '../vector/vectorStoreService'
+import { LibraryService } from '../library/libraryService'
+import { Bm25Index } from './bm25Index'
+import { ThesaurusService } from './thesaurusService'
+import { CitationParser } from './citationParser'
+import { ContextExpander, type ContextExpansion } from './contextExpander'
+import { SearchFilters } from './searchFilter'
+import { foldDiacritics, tokenizeVietnamese } from './vietnameseTokenizer'
+import { RerankerRegistry } from '../rerank/rerankerRegistry'
+import type { RerankerName } from '../rerank/reranker'
 
 export interface SearchOptions {
   maxResults?: number
   includeScores?: boolean
   minScore?: number
-  searchType?: 'vector' | 'text' | 'hybrid'
+  searchType?: 'vector' | 'text' | 'hybrid' // Forces one strategy in smartSearch; chosen per query when omitted
+  scopes?: SearchScope[] // Knowledge scopes to search, both by default
+  filter?: SearchFilter // Only retrieve chunks from these documents, sections, types or years
+  fusionWeights?: Partial<Record<Retriever, number>> // Per-retriever weights in hybrid fusion
+  reranker?: RerankerName // Second-stage reranker applied by smartSearch
+  expandQuery?: boolean // Expand the query with the PCCC thesaurus in smartSearch (default true)
+  citationLookup?: boolean // Fetch the articles a question cites by structure first in smartSearch (default true)
+  contextExpansion?: ContextExpansion // Widen smartSearch hits with surrounding chunks, to the article or by neighbours
+  diversify?: boolean // Reorder smartSearch results by maximal marginal relevance
+  diversityLambda?: number // Relevance weight in diversification, 0-1 (1 = relevance only)
 }
 
+export type Retriever = 'vector' | 'text'
+
 export interface SearchResult {
   content: string
   score?: number
   metadata?: Record<string, unknown>
   source?: string
+  documentId?: string
+  scope?: SearchScope
+  ranks?: Partial<Record<Retriever, number>> // 1-based rank in each retriever that returned the chunk
+  retrieverScores?: Partial<Record<Retriever, number>> // Raw score from each retriever
+  rerankScore?: number // Score given by the second-stage reranker
+  citation?: string // The reference in the question this chunk was looked up for, e.g. "khoản 2 Điều 5"
 }
 
 export interface CombinedSearchResult {
@@ -22,6 +50,10 @@ export interface CombinedSearchResult {
   results: SearchResult[]
   totalFound: number
   searchType: string
+  reranker?: RerankerName
+  expandedQuery?: string // Query actually sent to the retrievers, when the thesaurus expanded it
+  expansions?: QueryExpansion[]
+  citations?: CitationReference[] // Article references found in the question
   error?: string
 }
 
@@ -38,7 +70,8 @@ export class SearchService {
       const {
         maxResults = PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
         includeScores = true,
-        minScore = 0
+        minScore = 0,
+        filter
       } = options
 
       if (!query?.trim()) {
@@ -71,7 +104,8 @@ export class SearchService {
         const result = await VectorStoreService.similaritySearchWithScore(
           vectorStore,
           query,
-          maxResults * 3 // Get more results to filter by score and relevance
+          maxResults * 3, // Get more results to filter by score and relevance
+          SearchFilters.toPredicate(filter)
         )
         
         if (!result.success) {
@@ -89,7 +123,8 @@ export class SearchService {
         const result = await VectorStoreService.similaritySearch(
           vectorStore,
           query,
-          maxResults
+          maxResults,
+          SearchFilters.toPredicate(filter)
         )
         
         if (!result.success) {
@@ -131,17 +166,19 @@ export class SearchService {
           continue
         }
         
-        processedResults.push({
-          content: doc.pageContent,
-          score,
-          metadata: doc.metadata,
-          source: doc.metadata?.source
-        })
-        
-        // Limit results to top matches
-        if (processedResults.length >= maxResults) {
-          break
-        }
+        processedResults.push(this.toSearchResult(
+          doc,
+          score !== undefined ? this.applyOcrWeight(score, doc.metadata) : undefined
+        ))
+      }
+
+      // Re-rank after OCR down-weighting and limit results to top matches
+      if (includeScores) {
+        processedResults.sort((a, b) => (b.score || 0) - (a.score || 0))
+      }
+      processedResults.splice(maxResults)
+      if (includeScores) {
+        this.assignRanks(processedResults, 'vector')
       }
 
       console.log(`Vector search found ${processedResults.length} high-quality results`)
@@ -168,7 +205,16 @@ export class SearchService {
   }
 
   /**
-   * Perform text-based search on documents
+   * Build the BM25 index of a corpus ahead of its first text search
+   */
+  static indexDocuments(documents: Document[]): void {
+    if (documents.length > 0) {
+      Bm25Index.forDocuments(documents)
+    }
+  }
+
+  /**
+   * Perform BM25 text search on documents
    */
   static async textSearch(
     documents: Document[],
@@ -177,7 +223,8 @@ export class SearchService {
   ): Promise<CombinedSearchResult> {
     try {
       const {
-        maxResults = PROCESSING_CONFIG.MAX_SEARCH_RESULTS
+        maxResults = PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
+        filter
       } = options
 
       if (!query?.trim()) {
@@ -202,39 +249,15 @@ export class SearchService {
 
       console.log(`Performing text search for: "${query}" in ${documents.length} documents`)
 
-      const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2)
-      const results: Array<{ doc: Document; score: number }> = []
-
-      for (const doc of documents) {
-        const content = doc.pageContent.toLowerCase()
-        let score = 0
-
-        // Calculate relevance score based on term matches
-        for (const term of queryTerms) {
-          const matches = (content.match(new RegExp(term, 'g')) || []).length
-          score += matches * (term.length / 10) // Weight longer terms more
-        }
-
-        // Add phrase matching bonus
-        if (content.includes(query.toLowerCase())) {
-          score += queryTerms.length * 2
-        }
-
-        if (score > 0) {
-          results.push({ doc, score })
-        }
-      }
-
-      // Sort by score (descending) and limit results
-      results.sort((a, b) => b.score - a.score)
-      const limitedResults = results.slice(0, maxResults)
+      // Rank with the corpus's BM25 index, then re-rank after OCR down-weighting
+      const limitedResults = Bm25Index.forDocuments(documents)
+        .search(query, maxResults * 3, SearchFilters.toPredicate(filter))
+        .map(({ document, score }) => ({ doc: document, score: this.applyOcrWeight(score, document.metadata) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxResults)
 
-      const searchResults: SearchResult[] = limitedResults.map(({ doc, score }) => ({
-        content: doc.pageContent,
-        score,
-        metadata: doc.metadata,
-        source: doc.metadata?.source
-      }))
+      const searchResults: SearchResult[] = limitedResults.map(({ doc, score }) => this.toSearchResult(doc, score))
+      this.assignRanks(searchResults, 'text')
 
       console.log(`Text search found ${searchResults.length} results`)
 
@@ -260,7 +283,7 @@ export class SearchService {
   }
 
   /**
-   * Perform hybrid search (combination of vector and text search)
+   * Perform hybrid search, fusing the vector and BM25 rankings with weighted reciprocal rank fusion
    */
   static async hybridSearch(
     vectorStore: MemoryVectorStore,
@@ -270,50 +293,49 @@ export class SearchService {
   ): Promise<CombinedSearchResult> {
     try {
       const {
-        maxResults = PROCESSING_CONFIG.MAX_SEARCH_RESULTS
+        maxResults = PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
+        fusionWeights = {}
       } = options
+      const weights: Record<Retriever, number> = {
+        vector: fusionWeights.vector ?? FUSION_CONFIG.VECTOR_WEIGHT,
+        text: fusionWeights.text ?? FUSION_CONFIG.TEXT_WEIGHT
+      }
+      const candidateCount = maxResults * FUSION_CONFIG.CANDIDATE_MULTIPLIER
 
       console.log(`Performing hybrid search for: "${query}"`)
 
-      // Perform both searches
+      // Perform both searches over a deeper candidate pool
       const [vectorResult, textResult] = await Promise.all([
-        this.vectorSearch(vectorStore, query, { ...options, maxResults: Math.ceil(maxResults * 0.7) }),
-        this.textSearch(documents, query, { ...options, maxResults: Math.ceil(maxResults * 0.5) })
+        this.vectorSearch(vectorStore, query, { ...options, maxResults: candidateCount }),
+        this.textSearch(documents, query, { ...options, maxResults: candidateCount })
       ])
 
-      // Combine and deduplicate results
+      // Scores are not comparable across retrievers, so only ranks are fused:
+      // score = sum over retrievers of weight / (k + rank)
       const combinedResults = new Map<string, SearchResult>()
-      
-      // Add vector search results with higher weight
-      if (vectorResult.success) {
-        for (const result of vectorResult.results) {
-          const key = this.generateResultKey(result.content)
-          combinedResults.set(key, {
-            ...result,
-            score: (result.score || 0) * 1.2 // Boost vector search scores
-          })
+      const retrieverResults: Array<[Retriever, CombinedSearchResult]> = [
+        ['vector', vectorResult],
+        ['text', textResult]
+      ]
+
+      for (const [retriever, retrieverResult] of retrieverResults) {
+        if (!retrieverResult.success) {
+          continue
         }
-      }
 
-      // Add text search results (merge if duplicate)
-      if (textResult.success) {
-        for (const result of textResult.results) {
+        retrieverResult.results.forEach((result, index) => {
           const key = this.generateResultKey(result.content)
-          const existing = combinedResults.get(key)
-          
-          if (existing) {
-            // Combine scores for duplicate content
-            existing.score = (existing.score || 0) + (result.score || 0) * 0.8
-          } else {
-            combinedResults.set(key, {
-              ...result,
-              score: (result.score || 0) * 0.8 // Text search scores are lower weighted
-            })
-          }
-        }
+          const fused = combinedResults.get(key) || { ...result, score: 0, ranks: {}, retrieverScores: {} }
+          const rank = index + 1
+
+          fused.score = (fused.score || 0) + weights[retriever] / (FUSION_CONFIG.RRF_K + rank)
+          fused.ranks = { ...fused.ranks, [retriever]: rank }
+          fused.retrieverScores = { ...fused.retrieverScores, [retriever]: result.score }
+          combinedResults.set(key, fused)
+        })
       }
 
-      // Sort by combined score and limit results
+      // Sort by fused score and limit results
       const finalResults = Array.from(combinedResults.values())
         .sort((a, b) => (b.score || 0) - (a.score || 0))
         .slice(0, maxResults)
@@ -342,13 +364,274 @@ export class SearchService {
   }
 
   /**
-   * Smart search that automatically chooses the best search method
+   * Smart search over the session's documents and the shared library, merging the results of each scope
    */
   static async smartSearch(
     vectorStore: MemoryVectorStore | null,
     documents: Document[],
     query: string,
     options: SearchOptions = {}
+  ): Promise<CombinedSearchResult> {
+    try {
+      const {
+        maxResults = PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
+        scopes = ['session', 'library'],
+        reranker: rerankerName = RERANK_CONFIG.RERANKER,
+        expandQuery = true,
+        citationLookup = true,
+        contextExpansion = CONTEXT_CONFIG.EXPANSION,
+        diversify = DIVERSITY_CONFIG.ENABLED,
+        diversityLambda = DIVERSITY_CONFIG.LAMBDA,
+        filter
+      } = options
+
+      // Both retrievers search the expanded query; reranking judges against the original one
+      const expansion = expandQuery ? ThesaurusService.expandQuery(query) : { query, expansions: [] }
+
+      // With a reranker, retrieve a wider pool and let it pick the final results
+      const reranker = RerankerRegistry.getReranker(rerankerName)
+      const poolSize = reranker ? Math.max(RERANK_CONFIG.CANDIDATE_POOL, maxResults) : maxResults
+
+      const corpora: Array<{ vectorStore: MemoryVectorStore | null; documents: Document[] }> = []
+      if (scopes.includes('session')) {
+        corpora.push({ vectorStore, documents })
+      }
+      if (scopes.includes('library')) {
+        const library = await LibraryService.getCorpus()
+        corpora.push({ vectorStore: library.vectorstore, documents: library.documents })
+      }
+
+      const searchable = corpora.filter(corpus =>
+        (corpus.vectorStore && VectorStoreService.validateVectorStore(corpus.vectorStore).isValid) ||
+        corpus.documents.length > 0
+      )
+      if (searchable.length === 0) {
+        return {
+          success: false,
+          results: [],
+          totalFound: 0,
+          searchType: 'none',
+          error: 'No search resources available'
+        }
+      }
+
+      // Articles the question cites come first, looked up by their structure rather than by similarity
+      const citations = citationLookup ? CitationParser.parse(query) : []
+      // Context expansion only grows hits with chunks the filter lets through
+      const filterPredicate = SearchFilters.toPredicate(filter)
+      const filteredDocuments = searchable.map(corpus => filterPredicate ? corpus.documents.filter(filterPredicate) : corpus.documents)
+      const citedResults = this.lookupCitations(filteredDocuments.flat(), citations, maxResults)
+      if (citedResults.length >= maxResults) {
+        const results = ContextExpander.expand(citedResults, filteredDocuments, contextExpansion, maxResults)
+        return {
+          success: true,
+          results,
+          totalFound: results.length,
+          searchType: 'citation',
+          citations
+        }
+      }
+
+      const scopeResults = await Promise.all(
+        searchable.map(corpus => this.searchCorpus(
+          corpus.vectorStore,
+          corpus.documents,
+          expansion.query,
+          { ...options, maxResults: poolSize }
+        ))
+      )
+      const successful = scopeResults.filter(result => result.success)
+      if (successful.length === 0 && citedResults.length === 0) {
+        return scopeResults[0]
+      }
+
+      // The rest of the context comes from the regular search, without repeating the cited chunks
+      const citedKeys = new Set(citedResults.map(result => this.generateResultKey(result.content)))
+      const candidates = this.fuseScopeRankings(successful.map(result => result.results))
+        .filter(result => !citedKeys.has(this.generateResultKey(result.content)))
+        .slice(0, poolSize)
+
+      // Keep the whole ranked pool: hits merged by context expansion leave room for the next ones
+      const rankedResults = reranker ? await reranker.rerank(query, candidates) : candidates
+      if (reranker) {
+        console.log(`Reranked ${candidates.length} candidates with the ${reranker.name} reranker`)
+      }
+      const searchedResults = diversify
+        ? this.diversifyResults(rankedResults, diversityLambda, citedResults)
+        : rankedResults
+      const results = ContextExpander.expand(
+        [...citedResults, ...searchedResults],
+        filteredDocuments,
+        contextExpansion,
+        maxResults
+      )
+      const searchTypes = [
+        ...(citedResults.length > 0 ? ['citation'] : []),
+        ...successful.map(result => result.searchType)
+      ]
+
+      return {
+        success: true,
+        results,
+        totalFound: results.length,
+        searchType: Array.from(new Set(searchTypes)).join('+'),
+        reranker: reranker?.name,
+        expandedQuery: expansion.expansions.length > 0 ? expansion.query : undefined,
+        expansions: expansion.expansions,
+        citations: citations.length > 0 ? citations : undefined
+      }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown smart search error'
+      console.error('Smart search failed:', errorMessage)
+      
+      return {
+        success: false,
+        results: [],
+        totalFound: 0,
+        searchType: 'smart',
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Merge the rankings of several scopes. Scores of different corpora are not comparable (BM25
+   * statistics and fused scores depend on the corpus), so each result is scored by reciprocal rank
+   * fusion of its rank in every scope that found it.
+   */
+  private static fuseScopeRankings(rankings: SearchResult[][]): SearchResult[] {
+    if (rankings.length === 1) {
+      return rankings[0]
+    }
+
+    const fusedResults = new Map<string, SearchResult>()
+    for (const ranking of rankings) {
+      ranking.forEach((result, index) => {
+        const key = this.generateResultKey(result.content)
+        const fused = fusedResults.get(key) || { ...result, score: 0 }
+        fused.score = (fused.score || 0) + 1 / (FUSION_CONFIG.RRF_K + index + 1)
+        fusedResults.set(key, fused)
+      })
+    }
+
+    return Array.from(fusedResults.values()).sort((a, b) => (b.score || 0) - (a.score || 0))
+  }
+
+  /**
+   * Reorder results by maximal marginal relevance: each pick trades its relevance against its
+   * similarity to the results picked before it, so overlapping neighbour chunks do not crowd out
+   * other provisions. Pinned results (such as cited articles) count as already picked.
+   */
+  static diversifyResults(
+    results: SearchResult[],
+    lambda: number = DIVERSITY_CONFIG.LAMBDA,
+    pinned: SearchResult[] = []
+  ): SearchResult[] {
+    if (results.length < 2 || lambda >= 1) {
+      return results
+    }
+
+    // Relevance on a 0-1 scale from the reranker's score, or the retrieval score (rank-fused across scopes) without one
+    const relevanceScores = results.map(result => result.rerankScore ?? result.score ?? 0)
+    const best = Math.max(...relevanceScores)
+    const worst = Math.min(...relevanceScores)
+    const relevance = relevanceScores.map(score => best > worst ? (score - worst) / (best - worst) : 1)
+
+    // Chunks compare by their compound terms, which overlapping text shares almost entirely
+    const termSet = (content: string) => new Set(
+      tokenizeVietnamese(content).filter(term => term.includes('_')).map(term => foldDiacritics(term))
+    )
+    const terms = results.map(result => termSet(result.content))
+    const pickedTerms = pinned.map(result => termSet(result.content))
+
+    const remaining = results.map((_, index) => index)
+    const ordered: SearchResult[] = []
+    while (remaining.length > 0) {
+      let bestPosition = 0
+      let bestValue = -Infinity
+      remaining.forEach((index, position) => {
+        const redundancy = Math.max(0, ...pickedTerms.map(picked => this.jaccard(terms[index], picked)))
+        const value = lambda * relevance[index] - (1 - lambda) * redundancy
+        if (value > bestValue) {
+          bestValue = value
+          bestPosition = position
+        }
+      })
+
+      const [picked] = remaining.splice(bestPosition, 1)
+      ordered.push(results[picked])
+      pickedTerms.push(terms[picked])
+    }
+
+    const moved = ordered.filter((result, index) => result !== results[index]).length
+    if (moved > 0) {
+      console.log(`Diversified ${results.length} results (λ=${lambda}), ${moved} reordered`)
+    }
+    return ordered
+  }
+
+  /**
+   * Find the chunks holding each cited article (and clause or point), in citation then document order
+   */
+  private static lookupCitations(documents: Document[], citations: CitationReference[], limit: number): SearchResult[] {
+    const results: SearchResult[] = []
+    const seen = new Set<Document>()
+
+    for (const citation of citations) {
+      const matches = documents.filter(doc => !seen.has(doc) && this.matchesCitation(doc.metadata, citation))
+      for (const doc of matches.slice(0, limit - results.length)) {
+        seen.add(doc)
+        results.push({ ...this.toSearchResult(doc, 1), citation: citation.text })
+      }
+    }
+
+    if (citations.length > 0) {
+      console.log(`Found ${results.length} chunks for ${citations.length} cited articles: ${citations.map(citation => citation.text).join(', ')}`)
+    }
+    return results
+  }
+
+  /**
+   * Check a chunk's structural metadata against a citation. Chunks without clause or point lists
+   * hold the whole article (or clause), so they match any clause or point within it.
+   */
+  static matchesCitation(metadata: Record<string, unknown>, citation: CitationReference): boolean {
+    if (String(metadata.articleNumber || '').toLowerCase() !== citation.article) {
+      return false
+    }
+    const clauses = metadata.clauses as string[] | undefined
+    if (citation.clause && clauses && !clauses.includes(citation.clause)) {
+      return false
+    }
+    const points = metadata.points as string[] | undefined
+    if (citation.point && points && !points.includes(citation.point)) {
+      return false
+    }
+    if (citation.documentType && metadata.documentType && metadata.documentType !== citation.documentType) {
+      return false
+    }
+    if (!citation.documentNumber) {
+      return true
+    }
+
+    // Without a detected document number, look for the number in the file name
+    if (typeof metadata.documentNumber === 'string') {
+      return SearchFilters.matchesDocumentNumber(metadata.documentNumber, citation.documentNumber)
+    }
+    const cited = foldDiacritics(citation.documentNumber.toLowerCase())
+    const name = foldDiacritics(String(metadata.documentName || metadata.source || '').toLowerCase())
+    return name.split(/[^a-z0-9]+/).includes(cited.split(/[/:]/)[0])
+  }
+
+  /**
+   * Search one corpus, automatically choosing the best search method
+   */
+  private static async searchCorpus(
+    vectorStore: MemoryVectorStore | null,
+    documents: Document[],
+    query: string,
+    options: SearchOptions = {}
   ): Promise<CombinedSearchResult> {
     try {
       // Determine best search strategy
@@ -365,6 +648,15 @@ export class SearchService {
         }
       }
 
+      // An explicitly requested search type is used whenever its resources are available
+      if (options.searchType === 'hybrid' && hasVectorStore && hasDocuments) {
+        return await this.hybridSearch(vectorStore!, documents, query, options)
+      } else if (options.searchType === 'vector' && hasVectorStore) {
+        return await this.vectorSearch(vectorStore!, query, options)
+      } else if (options.searchType === 'text' && hasDocuments) {
+        return await this.textSearch(documents, query, options)
+      }
+
       const queryLength = query.trim().length
       const isShortQuery = queryLength < 20
       const isLongQuery = queryLength > 100
@@ -413,16 +705,8 @@ export class SearchService {
 
     // Create a well-structured context for the LLM
     const formattedResults = results
-      .slice(0, 5) // Limit to top 5 most relevant results
-      .map((result, index) => {
-        const content = result.content.trim()
-        const relevanceScore = result.score ? `(Relevance: ${result.score.toFixed(3)})` : ''
-        const sourceInfo = result.source ? `[Source: ${result.source}]` : '[Source: Uploaded PDF]'
-        
-        return `--- Relevant Section ${index + 1} ---
-${content}
-${sourceInfo} ${relevanceScore}`
-      })
+      .slice(0, CONTEXT_CONFIG.MAX_SECTIONS)
+      .map((result, index) => this.formatSection(result, index + 1))
       .join('\n\n')
 
     return `=== RELEVANT INFORMATION FROM DOCUMENT ===
@@ -432,6 +716,65 @@ ${formattedResults}
 === END OF RELEVANT INFORMATION ===`
   }
 
+  /**
+   * Format the evidence of each sub-query of a compound question under its own heading, within an
+   * equal share of the context length. A chunk found for several sub-queries is shown once.
+   * Also returns the results that made it into the context, in section order.
+   */
+  static formatPlannedSearchResults(groups: Array<{ query: string; results: SearchResult[] }>): {
+    context: string
+    results: SearchResult[]
+  } {
+    const included: SearchResult[] = []
+    const seen = new Set<string>()
+    // Leave room for the surrounding headings
+    const budget = Math.floor((API_CONFIG.MAX_SEARCH_RESULTS_LENGTH - 200) / Math.max(1, groups.length))
+    let sectionNumber = 0
+
+    const formattedGroups = groups.map((group, groupIndex) => {
+      const sections: string[] = []
+      let length = 0
+
+      for (const result of group.results) {
+        const key = this.generateResultKey(result.content)
+        if (seen.has(key)) {
+          continue
+        }
+        let section = this.formatSection(result, sectionNumber + 1)
+        if (length + section.length > budget) {
+          // Shorten the first section rather than leave a sub-query without evidence
+          if (sections.length > 0) {
+            break
+          }
+          section = this.formatSection(result, sectionNumber + 1, budget - (section.length - result.content.trim().length))
+        }
+        seen.add(key)
+        sections.push(section)
+        included.push(result)
+        length += section.length
+        sectionNumber++
+      }
+
+      const heading = `=== Ý ${groupIndex + 1}: ${group.query} ===`
+      return sections.length > 0
+        ? `${heading}\n\n${sections.join('\n\n')}`
+        : `${heading}\nKhông tìm thấy thông tin liên quan.`
+    })
+
+    if (sectionNumber === 0) {
+      return { context: 'No relevant information found in the uploaded document.', results: included }
+    }
+
+    return {
+      context: `=== RELEVANT INFORMATION FROM DOCUMENT ===
+
+${formattedGroups.join('\n\n')}
+
+=== END OF RELEVANT INFORMATION ===`,
+      results: included
+    }
+  }
+
   /**
    * Format search results for display only (shorter version)
    */
@@ -442,8 +785,19 @@ ${formattedResults}
 
     return results
       .map((result, index) => {
-        const scoreText = result.score ? ` (Score: ${result.score.toFixed(3)})` : ''
-        const sourceText = result.source ? ` [Source: ${result.source}]` : ''
+        const rankText = [
+          ...Object.entries(result.ranks || {}).map(([retriever, rank]) => `${retriever} #${rank}`),
+          ...(result.rerankScore !== undefined ? [`rerank ${result.rerankScore.toFixed(3)}`] : [])
+        ].join(', ')
+        const scoreText = result.score
+          ? ` (Score: ${result.score.toFixed(3)}${rankText ? `; ${rankText}` : ''})`
+          : ''
+        const pageRange = this.formatPageRange(result.metadata)
+        const sourceParts = [
+          result.source ? `${result.source} (${SEARCH_SCOPE_LABELS[result.scope || 'session']})` : undefined,
+          pageRange
+        ].filter(Boolean)
+        const sourceText = sourceParts.length > 0 ? ` [Source: ${sourceParts.join(', ')}]` : ''
         
         return `${index + 1}. ${result.content.substring(0, 500)}${result.content.length > 500 ? '...' : ''}${scoreText}${sourceText}`
       })
@@ -451,10 +805,101 @@ ${formattedResults}
   }
 
   /**
-   * Generate a unique key for result deduplication
+   * Format the page range recorded in chunk metadata, e.g. "trang 12", "trang 12–13" or "slide 4"
+   */
+  static formatPageRange(metadata?: Record<string, unknown>): string | null {
+    const pageStart = metadata?.pageStart
+    const pageEnd = metadata?.pageEnd
+    if (typeof pageStart !== 'number') {
+      return null
+    }
+    const unitLabel = metadata?.pageUnit === 'slide' ? 'slide' : 'trang'
+    if (typeof pageEnd !== 'number' || pageEnd === pageStart) {
+      return `${unitLabel} ${pageStart}`
+    }
+    return `${unitLabel} ${pageStart}–${pageEnd}`
+  }
+
+  /**
+   * Format one result for the LLM context, with its source line; content beyond maxContentLength is cut
+   */
+  private static formatSection(result: SearchResult, sectionNumber: number, maxContentLength?: number): string {
+    const fullContent = result.content.trim()
+    const content = maxContentLength !== undefined && fullContent.length > maxContentLength
+      ? `${fullContent.substring(0, Math.max(0, maxContentLength - 3))}...`
+      : fullContent
+    const relevanceScore = result.score ? `(Relevance: ${result.score.toFixed(3)})` : ''
+    const locationParts = [
+      `${result.source || 'Uploaded PDF'} (${SEARCH_SCOPE_LABELS[result.scope || 'session']})`,
+      this.formatPageRange(result.metadata),
+      result.metadata?.structurePath as string | undefined,
+      typeof result.metadata?.ocrConfidence === 'number'
+        ? `OCR, độ tin cậy ${Math.round(result.metadata.ocrConfidence * 100)}%`
+        : undefined
+    ].filter(Boolean)
+    const sourceInfo = `[Source: ${locationParts.join(', ')}]`
+
+    return `--- Relevant Section ${sectionNumber} ---
+${content}
+${sourceInfo} ${relevanceScore}`
+  }
+
+  /**
+   * Build a search result labelled with the document the chunk came from
+   */
+  private static toSearchResult(doc: Document, score?: number): SearchResult {
+    return {
+      content: doc.pageContent,
+      score,
+      metadata: doc.metadata,
+      source: doc.metadata?.documentName || doc.metadata?.source,
+      documentId: doc.metadata?.documentId,
+      scope: doc.metadata?.scope === 'library' ? 'library' : 'session'
+    }
+  }
+
+  /**
+   * Record each result's position in a single retriever's ranking
+   */
+  private static assignRanks(results: SearchResult[], retriever: Retriever): void {
+    results.forEach((result, index) => {
+      result.ranks = { [retriever]: index + 1 }
+      result.retrieverScores = { [retriever]: result.score }
+    })
+  }
+
+  /**
+   * Down-weight chunks recognised by OCR in proportion to their confidence
+   */
+  private static applyOcrWeight(score: number, metadata?: Record<string, unknown>): number {
+    const confidence = metadata?.ocrConfidence
+    if (typeof confidence !== 'number') {
+      return score
+    }
+    const weight = OCR_CONFIG.MIN_SEARCH_WEIGHT + (1 - OCR_CONFIG.MIN_SEARCH_WEIGHT) * Math.max(0, Math.min(1, confidence))
+    return score * weight
+  }
+
+  private static jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+      return 0
+    }
+    let shared = 0
+    a.forEach(term => {
+      if (b.has(term)) {
+        shared++
+      }
+    })
+    return shared / (a.size + b.size - shared)
+  }
+
+  /**
+   * Generate a unique key for result deduplication. Chunks of one article all start with its
+   * heading, so the whole content is hashed rather than a prefix; the same chunk found by both
+   * retrievers, or in both scopes, still gets one key.
    */
   private static generateResultKey(content: string): string {
-    // Use first 100 characters as key for deduplication
-    return content.substring(0, 100).toLowerCase().replace(/\s+/g, ' ').trim()
+    const normalized = content.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim()
+    return createHash('sha1').update(normalized).digest('hex')
   }
 }
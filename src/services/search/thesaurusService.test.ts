@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { ThesaurusService } from './thesaurusService'
+
+describe('ThesaurusService.expandQuery', () => {
+  it('expands abbreviations with their spelled-out forms', () => {
+    const { query, expansions } = ThesaurusService.expandQuery('Hồ sơ nghiệm thu PCCC gồm những gì?')
+
+    expect(expansions).toContainEqual(expect.objectContaining({ kind: 'abbreviation', matched: 'PCCC' }))
+    expect(query).toContain('phòng cháy chữa cháy')
+  })
+
+  it('matches regardless of diacritics and punctuation', () => {
+    const { expansions } = ThesaurusService.expandQuery('thay binh cuu hoa bao lau mot lan')
+
+    expect(expansions).toContainEqual(expect.objectContaining({ kind: 'synonym', expansions: expect.arrayContaining(['bình chữa cháy']) }))
+  })
+
+  it('prefers the longest regulation alias', () => {
+    const { expansions } = ThesaurusService.expandQuery('Luật PCCC và CNCH có hiệu lực khi nào?')
+
+    expect(expansions[0]).toMatchObject({ kind: 'regulation', matched: 'Luật PCCC và CNCH' })
+    expect(expansions.some(expansion => expansion.matched === 'Luật PCCC')).toBe(false)
+  })
+
+  it('expands a year-less alias to the current edition', () => {
+    const { expansions } = ThesaurusService.expandQuery('QCVN 06 quy định gì về lối thoát nạn?')
+
+    expect(expansions.flatMap(expansion => expansion.expansions)).toContain('QCVN 06:2022/BXD')
+  })
+
+  it('does not expand a year-less alias when the query names another edition', () => {
+    const qcvn = ThesaurusService.expandQuery('Yêu cầu của QCVN 06:2020/BXD về lối thoát nạn')
+    const tcvn = ThesaurusService.expandQuery('Trang bị bình chữa cháy theo TCVN 3890:2009')
+
+    expect(qcvn.query).not.toContain('QCVN 06:2022/BXD')
+    expect(tcvn.query).not.toContain('TCVN 3890:2023')
+  })
+})
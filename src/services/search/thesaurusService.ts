@@ -0,0 +1,139 @@
+import { readFileSync } from 'fs'
+import { THESAURUS_CONFIG } from '../constants'
+import type { QueryExpansion } from '../types'
+import bundledThesaurus from './pcccThesaurus.json'
+import { foldDiacritics } from './vietnameseTokenizer'
+
+// Shape of the editable thesaurus JSON
+interface ThesaurusData {
+  version: number
+  abbreviations: Record<string, string[]> // Short form -> spelled-out forms
+  synonyms: string[][] // Groups of interchangeable terms
+  regulations: Record<string, string[]> // Canonical citation -> aliases
+}
+
+// Every entry becomes a group of equivalent terms; a match on any member expands to the others
+interface ThesaurusGroup {
+  kind: QueryExpansion['kind']
+  terms: Array<{ text: string; normalized: string }>
+  edition?: string // Year of the regulation edition the group names, e.g. "2022" for QCVN 06:2022/BXD
+}
+
+// Year of a citation's edition: "QCVN 06:2022/BXD", "136/2020/NĐ-CP"
+const EDITION_PATTERN = /[:/]((?:19|20)\d{2})(?!\d)/
+
+let groups: ThesaurusGroup[] | null = null
+
+/**
+ * Lowercase, drop diacritics and punctuation, and pad with spaces so terms match on word boundaries
+ */
+function normalize(text: string): string {
+  const words = foldDiacritics(text.normalize('NFC').toLowerCase()).replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+  return ` ${words} `
+}
+
+/**
+ * Whether the query mentions a term other than as part of another edition's citation. "QCVN 06"
+ * in "QCVN 06:2020/BXD" is followed by the year 2020, so it does not name the 2022 edition.
+ */
+function mentionsEdition(normalizedQuery: string, term: string, edition?: string): boolean {
+  let index = normalizedQuery.indexOf(term)
+  while (index !== -1) {
+    const year = normalizedQuery.slice(index + term.length).match(/^((?:19|20)\d{2}) /)?.[1]
+    if (!edition || !year || year === edition) {
+      return true
+    }
+    index = normalizedQuery.indexOf(term, index + 1)
+  }
+  return false
+}
+
+export class ThesaurusService {
+  /**
+   * Expand a query with the abbreviations, synonyms and regulation aliases it mentions
+   */
+  static expandQuery(query: string): { query: string; expansions: QueryExpansion[] } {
+    const normalizedQuery = normalize(query)
+    const expansions: QueryExpansion[] = []
+    const added = new Set<string>()
+    const matchedTerms: string[] = []
+
+    // Longest matches first, so "Luật PCCC và CNCH" wins over "Luật PCCC"
+    const matches = this.getGroups()
+      .map(group => ({
+        group,
+        matched: group.terms
+          .filter(term => mentionsEdition(normalizedQuery, term.normalized, group.edition))
+          .sort((a, b) => b.normalized.length - a.normalized.length)[0]
+      }))
+      .filter(match => match.matched)
+      .sort((a, b) => b.matched.normalized.length - a.matched.normalized.length)
+
+    for (const { group, matched } of matches) {
+      // Skip terms inside a longer match, e.g. "TCVN" within "TCVN 3890"
+      if (matchedTerms.some(term => term.includes(matched.normalized))) {
+        continue
+      }
+      matchedTerms.push(matched.normalized)
+
+      const newTerms = group.terms
+        .filter(term => !normalizedQuery.includes(term.normalized) && !added.has(term.normalized))
+        .slice(0, THESAURUS_CONFIG.MAX_EXPANSION_TERMS - added.size)
+      if (newTerms.length === 0) {
+        continue
+      }
+
+      newTerms.forEach(term => added.add(term.normalized))
+      expansions.push({ kind: group.kind, matched: matched.text, expansions: newTerms.map(term => term.text) })
+
+      if (added.size >= THESAURUS_CONFIG.MAX_EXPANSION_TERMS) {
+        break
+      }
+    }
+
+    if (expansions.length === 0) {
+      return { query, expansions }
+    }
+
+    const expandedQuery = [query, ...expansions.flatMap(expansion => expansion.expansions)].join(' ')
+    console.log(`Expanded query with ${added.size} thesaurus terms: ${expansions.map(expansion => expansion.matched).join(', ')}`)
+    return { query: expandedQuery, expansions }
+  }
+
+  /**
+   * Load the thesaurus groups, from PCCC_THESAURUS_PATH when set
+   */
+  private static getGroups(): ThesaurusGroup[] {
+    if (groups) {
+      return groups
+    }
+
+    let data = bundledThesaurus as ThesaurusData
+    if (THESAURUS_CONFIG.PATH) {
+      try {
+        data = JSON.parse(readFileSync(THESAURUS_CONFIG.PATH, 'utf8')) as ThesaurusData
+        console.log(`Loaded thesaurus from ${THESAURUS_CONFIG.PATH}`)
+      } catch (error) {
+        console.error(`Failed to load thesaurus from ${THESAURUS_CONFIG.PATH}, using the bundled one:`, error)
+      }
+    }
+
+    // Matching ignores case, diacritics and punctuation, so spelling variants collapse into one term
+    const toGroup = (kind: ThesaurusGroup['kind'], terms: string[]): ThesaurusGroup => ({
+      kind,
+      terms: terms
+        .map(text => ({ text, normalized: normalize(text) }))
+        .filter((term, index, all) =>
+          term.normalized.trim() && all.findIndex(other => other.normalized === term.normalized) === index
+        ),
+      edition: kind === 'regulation' ? terms[0].match(EDITION_PATTERN)?.[1] : undefined
+    })
+
+    groups = [
+      ...Object.entries(data.regulations || {}).map(([citation, aliases]) => toGroup('regulation', [citation, ...aliases])),
+      ...Object.entries(data.abbreviations || {}).map(([abbreviation, forms]) => toGroup('abbreviation', [abbreviation, ...forms])),
+      ...(data.synonyms || []).map(terms => toGroup('synonym', terms))
+    ]
+    return groups
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { foldDiacritics, tokenizePhrases, tokenizeVietnamese } from './vietnameseTokenizer'
+
+describe('tokenizeVietnamese', () => {
+  it('indexes syllables and adjacent-syllable compounds', () => {
+    expect(tokenizeVietnamese('Lối thoát nạn')).toEqual(['lối', 'thoát', 'nạn', 'lối_thoát', 'thoát_nạn'])
+  })
+
+  it('keeps document numbers whole as well as split into parts', () => {
+    const terms = tokenizeVietnamese('Nghị định 136/2020/NĐ-CP')
+
+    expect(terms).toContain('136/2020/nđ-cp')
+    expect(terms).toEqual(expect.arrayContaining(['136', '2020', 'nđ', 'cp', 'nghị_định']))
+  })
+
+  it('does not form compounds across punctuation', () => {
+    const terms = tokenizeVietnamese('lối thoát nạn, bình chữa cháy')
+
+    expect(terms).toContain('thoát_nạn')
+    expect(terms).toContain('bình_chữa')
+    expect(terms).not.toContain('nạn_bình')
+  })
+
+  it('treats decomposed and precomposed accents alike', () => {
+    expect(tokenizeVietnamese('phòng cháy'.normalize('NFD'))).toEqual(tokenizeVietnamese('phòng cháy'))
+  })
+})
+
+describe('tokenizePhrases', () => {
+  it('splits at sentence punctuation but not inside section numbers', () => {
+    expect(tokenizePhrases('Lối thoát nạn. Mục 3.2.1 (bắt buộc)')).toEqual([
+      { syllables: ['lối', 'thoát', 'nạn'], identifiers: [] },
+      { syllables: ['mục', '3', '2', '1'], identifiers: ['3.2.1'] },
+      { syllables: ['bắt', 'buộc'], identifiers: [] }
+    ])
+  })
+})
+
+describe('foldDiacritics', () => {
+  it('removes tone and vowel marks, including đ', () => {
+    expect(foldDiacritics('Phòng cháy Đường đi')).toBe('Phong chay Duong di')
+  })
+})
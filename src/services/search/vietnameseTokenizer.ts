@@ -0,0 +1,66 @@
+/**
+ * Tokenisation for Vietnamese search.
+ * Vietnamese writes one syllable per space-separated token and most words are two-syllable
+ * compounds ("phòng cháy", "lối thoát"), so the index keeps every syllable, however short,
+ * plus adjacent-syllable pairs as compound terms.
+ */
+
+// Letters and digits, optionally joined by "/", "." or "-" as in "136/2020/NĐ-CP" or "3.2.1"
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:[./-][\p{L}\p{N}]+)*/gu
+const CONNECTOR_PATTERN = /[./-]/
+const COMPOUND_SEPARATOR = '_'
+
+/**
+ * Split text into lowercase syllables; sequences broken by punctuation become separate phrases
+ */
+export function tokenizePhrases(text: string): Array<{ syllables: string[]; identifiers: string[] }> {
+  const phrases: Array<{ syllables: string[]; identifiers: string[] }> = []
+  // Punctuation other than the connectors inside identifiers ends a phrase
+  const segments = text.normalize('NFC').toLowerCase().split(/[^\p{L}\p{N}\p{M}\s./-]+|[./-](?![\p{L}\p{N}])|(?<![\p{L}\p{N}])[./-]/u)
+
+  for (const segment of segments) {
+    const syllables: string[] = []
+    const identifiers: string[] = []
+    for (const match of Array.from(segment.matchAll(WORD_PATTERN))) {
+      const word = match[0]
+      if (CONNECTOR_PATTERN.test(word)) {
+        // Index "136/2020/nđ-cp" as a whole and as its parts
+        identifiers.push(word)
+        syllables.push(...word.split(CONNECTOR_PATTERN).filter(Boolean))
+      } else {
+        syllables.push(word)
+      }
+    }
+    if (syllables.length > 0) {
+      phrases.push({ syllables, identifiers })
+    }
+  }
+
+  return phrases
+}
+
+/**
+ * Index terms of a text: syllables, identifiers and adjacent-syllable compounds
+ */
+export function tokenizeVietnamese(text: string): string[] {
+  const terms: string[] = []
+  for (const { syllables, identifiers } of tokenizePhrases(text)) {
+    terms.push(...syllables, ...identifiers)
+    for (let i = 0; i < syllables.length - 1; i++) {
+      terms.push(`${syllables[i]}${COMPOUND_SEPARATOR}${syllables[i + 1]}`)
+    }
+  }
+  return terms
+}
+
+/**
+ * Remove Vietnamese tone and vowel marks ("phòng cháy" -> "phong chay", "đ" -> "d")
+ */
+export function foldDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .normalize('NFC')
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { PersistedSessionIndex } from '../types'
+import { getVectorStoreBackend } from '../vector/vectorStoreBackend'
+import { SessionService } from './sessionService'
+
+function persisted(sessionId: string): PersistedSessionIndex {
+  return {
+    version: 1,
+    sessionId,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    savedAt: '2024-01-01T00:01:00.000Z',
+    pdfName: 'noi-quy.docx',
+    uploadedDocuments: [],
+    vectors: [],
+    history: [{ question: 'Lối thoát nạn?', answer: 'Hai lối.', timestamp: '2024-01-01T00:00:30.000Z' }]
+  }
+}
+
+describe('SessionService.restoreSession', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('rebuilds a session from its persisted index', async () => {
+    vi.spyOn(getVectorStoreBackend(), 'load').mockResolvedValue(persisted('restored-1'))
+
+    const session = await SessionService.restoreSession('restored-1')
+
+    expect(session).toMatchObject({ sessionId: 'restored-1', pdfName: 'noi-quy.docx', vectorStoreStatus: 'not_created' })
+    expect(session?.history[0].timestamp).toEqual(new Date('2024-01-01T00:00:30.000Z'))
+    expect(SessionService.getSession('restored-1')).toBe(session)
+  })
+
+  it('shares one restore between concurrent requests for the same session', async () => {
+    const load = vi.spyOn(getVectorStoreBackend(), 'load').mockResolvedValue(persisted('restored-2'))
+
+    const [first, second] = await Promise.all([
+      SessionService.restoreSession('restored-2'),
+      SessionService.restoreSession('restored-2')
+    ])
+
+    expect(load).toHaveBeenCalledOnce()
+    expect(second).toBe(first)
+  })
+
+  it('returns null for a session that was never persisted', async () => {
+    vi.spyOn(getVectorStoreBackend(), 'load').mockResolvedValue(null)
+
+    expect(await SessionService.restoreSession('unknown')).toBeNull()
+  })
+})
@@ -1,9 +1,16 @@
 import { v4 as uuidv4 } from 'uuid'
+import { Document } from 'langchain/document'
 import { UserSession } from '@/types'
-import { PROCESSING_CONFIG } from '../constants'
+import { CONVERSATION_CONFIG, PROCESSING_CONFIG } from '../constants'
+import type { ChatTurn, SessionDocument, PersistedSessionIndex } from '../types'
+import { VectorStoreService } from '../vector/vectorStoreService'
+import { SearchService } from '../search/searchService'
+import { getVectorStoreBackend } from '../vector/vectorStoreBackend'
 
 // Global sessions storage
 const userSessions: Map<string, UserSession> = new Map()
+// Restores from the vector store backend in progress, by session ID
+const pendingRestores = new Map<string, Promise<UserSession | null>>()
 
 export class SessionService {
   /**
@@ -16,11 +23,13 @@ export class SessionService {
         sessionId,
         vectorstore: null,
         documents: [],
+        uploadedDocuments: [],
         pdfName: null,
         createdAt: new Date(),
         lastAccessed: new Date(),
         processingErrors: [],
-        vectorStoreStatus: 'not_created'
+        vectorStoreStatus: 'not_created',
+        history: []
       }
       
       userSessions.set(sessionId, session)
@@ -59,6 +68,106 @@ export class SessionService {
     }
   }
 
+  /**
+   * Get session by ID, lazily reloading it from the vector store backend after a restart
+   */
+  static async restoreSession(sessionId: string): Promise<UserSession | null> {
+    if (!sessionId?.trim()) {
+      return null
+    }
+    if (userSessions.has(sessionId)) {
+      return this.getSession(sessionId)
+    }
+
+    // Requests arriving together after a restart share one restore, so none of them works on a session object that is replaced
+    let restore = pendingRestores.get(sessionId)
+    if (!restore) {
+      restore = this.loadSession(sessionId).finally(() => pendingRestores.delete(sessionId))
+      pendingRestores.set(sessionId, restore)
+    }
+    return restore
+  }
+
+  /**
+   * Rebuild a session from its persisted index
+   */
+  private static async loadSession(sessionId: string): Promise<UserSession | null> {
+    try {
+      const index = await getVectorStoreBackend().load(sessionId)
+      if (!index) {
+        return null
+      }
+
+      const { vectorStore: vectorstore, reembedded } = await VectorStoreService.restorePersistedIndex(index)
+      const session: UserSession = {
+        sessionId,
+        vectorstore,
+        documents: index.vectors.map(vector => new Document({
+          pageContent: vector.content,
+          metadata: vector.metadata
+        })),
+        uploadedDocuments: index.uploadedDocuments.map(document => ({
+          ...document,
+          uploadedAt: new Date(document.uploadedAt)
+        })),
+        pdfName: index.pdfName,
+        createdAt: new Date(index.createdAt),
+        lastAccessed: new Date(),
+        processingErrors: [],
+        vectorStoreStatus: vectorstore ? 'ready' : 'not_created',
+        history: (index.history || []).map(turn => ({ ...turn, timestamp: new Date(turn.timestamp) }))
+      }
+
+      userSessions.set(sessionId, session)
+      SearchService.indexDocuments(session.documents)
+      console.log(`Restored session ${sessionId} with ${index.vectors.length} vectors`)
+      if (reembedded) {
+        await this.persistSession(sessionId)
+      }
+      return session
+
+    } catch (error) {
+      console.error('Error restoring session:', error)
+      return null
+    }
+  }
+
+  /**
+   * Write the session's knowledge base to the vector store backend
+   */
+  static async persistSession(sessionId: string): Promise<boolean> {
+    const session = userSessions.get(sessionId)
+    if (!session) {
+      return false
+    }
+
+    try {
+      const index: PersistedSessionIndex = {
+        version: 1,
+        sessionId,
+        createdAt: session.createdAt.toISOString(),
+        savedAt: new Date().toISOString(),
+        pdfName: session.pdfName,
+        embeddingModel: VectorStoreService.embeddingModelName(),
+        uploadedDocuments: session.uploadedDocuments
+          .filter(document => document.status !== 'processing')
+          .map(document => ({ ...document, uploadedAt: document.uploadedAt.toISOString() })),
+        vectors: session.vectorstore ? VectorStoreService.serializeVectorStore(session.vectorstore) : [],
+        history: session.history
+          .slice(-CONVERSATION_CONFIG.MAX_STORED_TURNS)
+          .map(turn => ({ ...turn, timestamp: turn.timestamp.toISOString() }))
+      }
+
+      await getVectorStoreBackend().save(index)
+      console.log(`Persisted session ${sessionId} (${index.vectors.length} vectors)`)
+      return true
+
+    } catch (error) {
+      console.error('Error persisting session:', error)
+      return false
+    }
+  }
+
   /**
    * Update session with new data
    */
@@ -86,18 +195,22 @@ export class SessionService {
    */
   static async resetSession(sessionId: string): Promise<boolean> {
     try {
-      const session = this.getSession(sessionId)
+      const session = await this.restoreSession(sessionId)
       if (!session) {
         return false
       }
 
       session.vectorstore = null
       session.documents = []
+      session.uploadedDocuments = []
       session.pdfName = null
       session.vectorStoreStatus = 'not_created'
       session.processingErrors = []
+      session.history = []
       session.lastAccessed = new Date()
       
+      await getVectorStoreBackend().delete(sessionId)
+      
       console.log(`Reset session: ${sessionId}`)
       return true
       
@@ -107,12 +220,63 @@ export class SessionService {
     }
   }
 
+  /**
+   * Get a document of the session's knowledge base
+   */
+  static getDocument(sessionId: string, documentId: string): SessionDocument | null {
+    const session = this.getSession(sessionId)
+    return session?.uploadedDocuments.find(document => document.id === documentId) || null
+  }
+
+  /**
+   * Find a document already uploaded to the session with the same content hash
+   */
+  static findDocumentByHash(sessionId: string, hash: string): SessionDocument | null {
+    const session = this.getSession(sessionId)
+    return session?.uploadedDocuments.find(document => document.hash === hash && document.status === 'ready') || null
+  }
+
+  /**
+   * Update a document record of the session
+   */
+  static updateDocument(sessionId: string, documentId: string, updates: Partial<SessionDocument>): boolean {
+    const document = this.getDocument(sessionId, documentId)
+    if (!document) {
+      return false
+    }
+    Object.assign(document, updates)
+    return true
+  }
+
+  /**
+   * Record a question and its answer, keeping only the most recent turns
+   */
+  static addChatTurn(sessionId: string, turn: ChatTurn): boolean {
+    const session = this.getSession(sessionId)
+    if (!session) {
+      return false
+    }
+    session.history = [...session.history, turn].slice(-CONVERSATION_CONFIG.MAX_STORED_TURNS)
+    return true
+  }
+
+  /**
+   * Most recent turns of the session's conversation, oldest first
+   */
+  static getChatHistory(sessionId: string, limit: number = CONVERSATION_CONFIG.MAX_STORED_TURNS): ChatTurn[] {
+    const session = this.getSession(sessionId)
+    return session ? session.history.slice(-limit) : []
+  }
+
   /**
    * Delete session
    */
   static deleteSession(sessionId: string): boolean {
     try {
       const deleted = userSessions.delete(sessionId)
+      getVectorStoreBackend().delete(sessionId).catch(error => {
+        console.error('Error deleting persisted session:', error)
+      })
       if (deleted) {
         console.log(`Deleted session: ${sessionId}`)
       }
@@ -159,6 +323,7 @@ export class SessionService {
         current_pdf: null,
         vector_store_status: 'not_created',
         documents_count: 0,
+        uploaded_documents: [],
         last_accessed: null,
         processing_errors: []
       }
@@ -171,13 +336,14 @@ export class SessionService {
       current_pdf: session.pdfName,
       vector_store_status: session.vectorStoreStatus || 'unknown',
       documents_count: session.documents?.length || 0,
+      uploaded_documents: session.uploadedDocuments || [],
       last_accessed: session.lastAccessed,
       processing_errors: session.processingErrors || []
     }
   }
 
   /**
-   * Clean up old sessions
+   * Evict sessions not accessed recently from memory (persisted sessions reload on next access)
    */
   static cleanup(): number {
     const now = new Date()
@@ -1,5 +1,31 @@
 import { Document } from 'langchain/document'
 import { MemoryVectorStore } from 'langchain/vectorstores/memory'
+import type { SearchOptions } from './search/searchService'
+
+// Text of a single page or slide (1-based number)
+export interface ExtractedPage {
+  pageNumber: number
+  text: string
+  title?: string
+  ocrConfidence?: number // Set when the text was recognised by OCR (0-1)
+}
+
+// Formats the local pipeline can ingest
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'odt' | 'odp'
+
+// What the page numbers of an extracted document refer to
+export type PageUnit = 'page' | 'slide' | 'none'
+
+// Output of a format extractor
+export interface ExtractedDocument {
+  format: DocumentFormat
+  pageUnit: PageUnit
+  pages: ExtractedPage[]
+  metadata: {
+    title?: string
+    headings: string[]
+  }
+}
 
 // Processing result interface
 export interface ProcessingResult {
@@ -10,6 +36,9 @@ export interface ProcessingResult {
     fileName: string
     documentCount: number
     textLength: number
+    pageCount: number
+    format?: DocumentFormat
+    documentInfo?: DocumentInfo
     processingTimeMs: number
     chunkSize: number
     chunkOverlap: number
@@ -34,19 +63,222 @@ export interface EmbeddingResult {
     documentsProcessed: number
     processingTimeMs: number
     batchSize: number
+    cache?: EmbeddingCacheSummary
   }
 }
 
+// Embedding cache hits and misses of one ingestion
+export interface EmbeddingCacheStats {
+  hits: number
+  misses: number
+}
+
+export type EmbeddingCacheSummary = EmbeddingCacheStats & { hitRate: number }
+
+// A document uploaded into a session's knowledge base
+export interface SessionDocument {
+  id: string
+  name: string
+  hash: string // SHA-256 of the file contents
+  chunkCount: number
+  status: 'processing' | 'ready' | 'error'
+  format?: DocumentFormat
+  pageCount?: number
+  documentInfo?: DocumentInfo
+  uploadedAt: Date
+  error?: string
+}
+
+// Knowledge scopes a search can cover: the session's own uploads and the shared library
+export type SearchScope = 'session' | 'library'
+
+// Kinds of regulation the library holds
+export type LegalDocumentType = 'Luật' | 'Nghị định' | 'Thông tư' | 'Quyết định' | 'TCVN' | 'QCVN'
+
+// Identity of a regulation, detected from its header or file name
+export interface DocumentInfo {
+  documentType?: LegalDocumentType
+  documentNumber?: string // "136/2020/NĐ-CP", "06:2022/BXD"
+  issueYear?: number
+  issuingBody?: string
+}
+
+// Restricts retrieval to chunks matching every field that is set
+export interface SearchFilter {
+  documentIds?: string[]
+  documentNumbers?: string[] // "06:2022/BXD", "136/2020/NĐ-CP", or a leading part such as "136"
+  documentTypes?: LegalDocumentType[]
+  issuingBodies?: string[]
+  chapters?: string[] // "Chương II" or "II"
+  sections?: string[] // "Mục 1" or "1"
+  articles?: string[] // "15" or "Điều 15"
+  issueYear?: { from?: number; to?: number }
+}
+
+// An article reference found in a question, e.g. "điểm a khoản 2 Điều 5 Nghị định 136"
+export interface CitationReference {
+  text: string
+  article: string
+  clause?: string
+  point?: string
+  documentType?: LegalDocumentType
+  documentNumber?: string // As written: "136", "136/2020/NĐ-CP", "06:2022"
+}
+
+// A thesaurus entry applied to a query: the term found and what was added for it
+export interface QueryExpansion {
+  kind: 'abbreviation' | 'synonym' | 'regulation'
+  matched: string
+  expansions: string[]
+}
+
+// A context section an answer cites with its marker "[index]"
+export interface AnswerSource {
+  index: number
+  documentId?: string
+  documentName?: string
+  scope?: SearchScope
+  page?: string // "trang 12–13"
+  structurePath?: string // "Chương II > Điều 15 > Khoản 2"
+  citation?: string
+  quote?: string // Span of the section's text the answer relies on
+}
+
+// Kinds of factual claim the grounding check looks for in an answer
+export type ClaimType = 'measurement' | 'deadline' | 'count' | 'article' | 'document'
+
+// A figure or reference in an answer, and whether the answer context contains it
+export interface GroundedClaim {
+  text: string // As written in the answer: "1,2 m", "05 ngày", "khoản 2 Điều 5"
+  type: ClaimType
+  status: 'supported' | 'unsupported'
+}
+
+export interface GroundingReport {
+  claims: GroundedClaim[]
+  unsupportedCount: number
+}
+
+// A golden question: the articles retrieval must find and the facts the answer must state
+export interface EvaluationQuestion {
+  id: string
+  question: string
+  expectedArticles: string[] // References as written in a question: "Điều 4", "khoản 2 Điều 3"
+  expectedFacts: string[] // Figures or phrases the answer must contain: "1,2 m", "6 tháng"
+}
+
+// A versioned set of golden questions and the fixture documents they are asked against
+export interface EvaluationDataset {
+  formatVersion: number // Layout of the dataset file
+  name: string
+  version: string // Revision of the questions; only reports of the same version are comparable
+  description?: string
+  documents: string[] // Fixture files, relative to the dataset file
+  questions: EvaluationQuestion[]
+}
+
+// Settings an evaluation run applies to ingestion and retrieval; unset ones keep the app defaults
+export interface EvaluationConfiguration {
+  name: string
+  chunkSize?: number
+  chunkOverlap?: number
+  search?: Omit<SearchOptions, 'scopes' | 'filter'>
+}
+
+export type EvaluationMetric = 'recallAtK' | 'citationAccuracy' | 'factCoverage'
+
+// Metrics are left unset when they do not apply, e.g. citation accuracy for an answer without markers
+export interface EvaluationQuestionResult {
+  id: string
+  question: string
+  answer?: string
+  retrievedArticles: string[] // Structure paths of the first k context sections
+  recallAtK?: number
+  citationAccuracy?: number
+  factCoverage?: number
+  missingArticles: string[]
+  missingFacts: string[]
+  durationMs: number
+  error?: string
+}
+
+// Means over the questions each metric applies to
+export interface EvaluationSummary {
+  questions: number
+  failed: number
+  recallAtK?: number
+  citationAccuracy?: number
+  factCoverage?: number
+}
+
+export interface EvaluationReport {
+  dataset: { name: string; version: string }
+  configuration: EvaluationConfiguration
+  provider: string
+  k: number
+  startedAt: string
+  durationMs: number
+  summary: EvaluationSummary
+  results: EvaluationQuestionResult[]
+}
+
+export interface EvaluationComparison {
+  dataset: { name: string; version: string }
+  baseline: string
+  candidate: string
+  metrics: Array<{ metric: EvaluationMetric; baseline?: number; candidate?: number; delta?: number }>
+  // Questions whose score changed on some metric
+  changes: Array<{ id: string; metric: EvaluationMetric; baseline?: number; candidate?: number }>
+}
+
+// One question and answer of a session's conversation
+export interface ChatTurn {
+  question: string // As the user asked it
+  standaloneQuestion?: string // Rewritten to stand on its own, when it was a follow-up
+  answer: string
+  timestamp: Date
+}
+
+// The shared regulation library, kept in memory once loaded
+export interface LibraryCorpus {
+  vectorstore: MemoryVectorStore | null
+  documents: Document[]
+  libraryDocuments: SessionDocument[]
+}
+
 // User session interface
 export interface UserSession {
   sessionId: string
   vectorstore: MemoryVectorStore | null
-  documents: Document[]
+  documents: Document[] // Chunks of every ready document
+  uploadedDocuments: SessionDocument[]
   pdfName: string | null
   createdAt: Date
   lastAccessed: Date
   processingErrors: Array<{ type: ErrorType; message: string; timestamp: Date }>
   vectorStoreStatus: 'not_created' | 'creating' | 'ready' | 'error'
+  history: ChatTurn[] // Recent conversation turns, oldest first
+}
+
+// Vector as stored by MemoryVectorStore, in serializable form
+export interface SerializedVector {
+  content: string
+  embedding: number[]
+  metadata: Record<string, unknown>
+  id?: string
+}
+
+// Snapshot of a session's knowledge base written by a vector store backend
+export interface PersistedSessionIndex {
+  version: 1
+  sessionId: string
+  createdAt: string
+  savedAt: string
+  pdfName: string | null
+  embeddingModel?: string // Model the vectors were embedded with; missing in indexes written before it was recorded
+  uploadedDocuments: Array<Omit<SessionDocument, 'uploadedAt'> & { uploadedAt: string }>
+  vectors: SerializedVector[]
+  history?: Array<Omit<ChatTurn, 'timestamp'> & { timestamp: string }> // Recent conversation turns, oldest first
 }
 
 // Error types enum
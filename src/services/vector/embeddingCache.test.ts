@@ -0,0 +1,96 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { FakeEmbeddings } from '@langchain/core/utils/testing'
+import { CachedEmbeddings } from './embeddingCache'
+
+class CountingEmbeddings extends FakeEmbeddings {
+  embedded: string[] = []
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    this.embedded.push(...documents)
+    return documents.map(document => [document.length, this.embedded.length])
+  }
+}
+
+describe('CachedEmbeddings', () => {
+  const dirs: string[] = []
+
+  afterEach(() => {
+    dirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }))
+  })
+
+  function cacheFile(): string {
+    const dir = mkdtempSync(path.join(tmpdir(), 'embedding-cache-'))
+    dirs.push(dir)
+    return path.join(dir, 'model.jsonl')
+  }
+
+  it('embeds each distinct text once', async () => {
+    const underlying = new CountingEmbeddings()
+    const cache = new CachedEmbeddings(underlying, 'model', null)
+
+    const first = await cache.embedDocumentsWithStats(['Điều 1', 'Điều 2', 'Điều 1'])
+    const second = await cache.embedDocumentsWithStats(['Điều  2', 'Điều 3'])
+
+    expect(underlying.embedded).toEqual(['Điều 1', 'Điều 2', 'Điều 3'])
+    expect(first.stats).toEqual({ hits: 1, misses: 2 })
+    expect(second.stats).toEqual({ hits: 1, misses: 1 })
+    expect(second.embeddings[0]).toEqual(first.embeddings[1])
+  })
+
+  it('keeps only the most recently used entries in memory', async () => {
+    const underlying = new CountingEmbeddings()
+    const cache = new CachedEmbeddings(underlying, 'model', null, 2)
+
+    await cache.embedDocuments(['a', 'b'])
+    await cache.embedDocuments(['a'])
+    await cache.embedDocuments(['c'])
+    await cache.embedDocuments(['a', 'b'])
+
+    expect(underlying.embedded).toEqual(['a', 'b', 'c', 'b'])
+  })
+
+  it('returns every vector of a batch larger than the limit', async () => {
+    const cache = new CachedEmbeddings(new CountingEmbeddings(), 'model', null, 1)
+
+    const embeddings = await cache.embedDocuments(['a', 'bb', 'ccc'])
+
+    expect(embeddings.map(embedding => embedding[0])).toEqual([1, 2, 3])
+  })
+
+  it('reads entries dropped from memory back from the file', async () => {
+    const file = cacheFile()
+    const underlying = new CountingEmbeddings()
+    const cache = new CachedEmbeddings(underlying, 'model', file, 1)
+
+    const [first] = await cache.embedDocuments(['a', 'b'])
+    const result = await cache.embedDocumentsWithStats(['a'])
+
+    expect(underlying.embedded).toEqual(['a', 'b'])
+    expect(result.stats).toEqual({ hits: 1, misses: 0 })
+    expect(result.embeddings[0]).toEqual(first)
+  })
+
+  it('loads at most the limit from the file on restart', async () => {
+    const file = cacheFile()
+    await new CachedEmbeddings(new CountingEmbeddings(), 'model', file).embedDocuments(['a', 'b', 'c'])
+
+    const underlying = new CountingEmbeddings()
+    const restarted = new CachedEmbeddings(underlying, 'model', file, 2)
+    const result = await restarted.embedDocumentsWithStats(['a', 'b', 'c', 'd'])
+
+    expect(underlying.embedded).toEqual(['d'])
+    expect(result.stats).toEqual({ hits: 3, misses: 1 })
+  })
+
+  it('starts empty when the cache file does not exist yet', async () => {
+    const underlying = new CountingEmbeddings()
+    const cache = new CachedEmbeddings(underlying, 'model', cacheFile(), 2)
+
+    await cache.embedDocuments(['a'])
+
+    expect(underlying.embedded).toEqual(['a'])
+  })
+})
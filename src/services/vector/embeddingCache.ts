@@ -0,0 +1,193 @@
+import { createHash } from 'crypto'
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import { createInterface } from 'readline'
+import { Embeddings, type EmbeddingsInterface } from '@langchain/core/embeddings'
+import { STORAGE_CONFIG } from '../constants'
+import type { EmbeddingCacheStats } from '../types'
+
+interface CacheEntry {
+  key: string
+  embedding: number[]
+}
+
+/**
+ * Embeddings wrapper that reuses vectors of chunks already embedded with the same model.
+ * Entries are keyed by (model name, hash of the normalised chunk text) and, with the file
+ * cache, appended to a JSON-lines file per model so they survive restarts. Only the most
+ * recently used entries stay in memory; the file is searched for the others before re-embedding.
+ */
+export class CachedEmbeddings extends Embeddings {
+  // Insertion order doubles as recency: the first key is the least recently used
+  private readonly entries = new Map<string, number[]>()
+  private loadPromise: Promise<void> | null = null
+  // Whether the file holds entries that were dropped from memory
+  private evicted = false
+
+  constructor(
+    private readonly underlying: EmbeddingsInterface,
+    private readonly modelName: string,
+    private readonly cacheFile: string | null = STORAGE_CONFIG.EMBEDDING_CACHE === 'file'
+      ? path.resolve(STORAGE_CONFIG.DATA_DIR, STORAGE_CONFIG.EMBEDDING_CACHE_DIR, `${modelName.replace(/[^a-zA-Z0-9._-]/g, '_')}.jsonl`)
+      : null,
+    private readonly maxEntries: number = STORAGE_CONFIG.EMBEDDING_CACHE_MAX_ENTRIES
+  ) {
+    super({})
+  }
+
+  /**
+   * Embed chunks, calling the underlying model only for texts not seen before
+   */
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return (await this.embedDocumentsWithStats(documents)).embeddings
+  }
+
+  /**
+   * Embed chunks and count how many of them this call found in the cache
+   */
+  async embedDocumentsWithStats(documents: string[]): Promise<{ embeddings: number[][]; stats: EmbeddingCacheStats }> {
+    await this.ensureLoaded()
+
+    const keys = documents.map(document => this.cacheKey(document))
+    const found = new Map<string, number[]>()
+    const missing = new Map<string, string>()
+    keys.forEach((key, index) => {
+      const cached = this.entries.get(key)
+      if (cached) {
+        found.set(key, cached)
+      } else if (!missing.has(key)) {
+        missing.set(key, documents[index])
+      }
+    })
+
+    if (missing.size > 0 && this.evicted) {
+      for (const entry of await this.readFromFile(new Set(missing.keys()))) {
+        found.set(entry.key, entry.embedding)
+        missing.delete(entry.key)
+      }
+    }
+
+    if (missing.size > 0) {
+      const missingKeys = Array.from(missing.keys())
+      const vectors = await this.underlying.embedDocuments(Array.from(missing.values()))
+      const newEntries = missingKeys.map((key, index) => ({ key, embedding: vectors[index] }))
+      for (const entry of newEntries) {
+        found.set(entry.key, entry.embedding)
+      }
+      await this.append(newEntries)
+    }
+
+    for (const [key, embedding] of found) {
+      this.remember(key, embedding)
+    }
+
+    return {
+      embeddings: keys.map(key => found.get(key) as number[]),
+      stats: { hits: documents.length - missing.size, misses: missing.size }
+    }
+  }
+
+  /**
+   * Queries are short and rarely repeated verbatim, so they go straight to the model
+   */
+  async embedQuery(document: string): Promise<number[]> {
+    return this.underlying.embedQuery(document)
+  }
+
+  private cacheKey(text: string): string {
+    const normalised = text.normalize('NFC').replace(/\s+/g, ' ').trim()
+    return createHash('sha256').update(`${this.modelName}\u0000${normalised}`).digest('hex')
+  }
+
+  /**
+   * Store an entry as the most recently used one, dropping the least recently used beyond the limit
+   */
+  private remember(key: string, embedding: number[]): void {
+    this.entries.delete(key)
+    this.entries.set(key, embedding)
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string)
+      this.evicted = this.cacheFile !== null
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load()
+    }
+    return this.loadPromise
+  }
+
+  private async load(): Promise<void> {
+    if (!this.cacheFile) {
+      return
+    }
+
+    try {
+      // Stream the file so a cache larger than the in-memory limit is never held whole
+      const lines = createInterface({ input: createReadStream(this.cacheFile, 'utf8'), crlfDelay: Infinity })
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue
+        }
+        try {
+          const entry = JSON.parse(line) as CacheEntry
+          this.remember(entry.key, entry.embedding)
+        } catch {
+          // Skip a partially written last line
+        }
+      }
+      console.log(`Loaded ${this.entries.size} cached embeddings for ${this.modelName}`)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load embedding cache:', error)
+      }
+    }
+  }
+
+  /**
+   * Scan the cache file line by line for the given keys, without loading the whole file
+   */
+  private async readFromFile(keys: Set<string>): Promise<CacheEntry[]> {
+    if (!this.cacheFile) {
+      return []
+    }
+
+    const matches = new Map<string, CacheEntry>()
+    try {
+      const lines = createInterface({ input: createReadStream(this.cacheFile, 'utf8'), crlfDelay: Infinity })
+      for await (const line of lines) {
+        // Keys are fixed-length hex at the start of each line, so most lines are skipped unparsed
+        const key = line.slice(8, 72)
+        if (!keys.has(key)) {
+          continue
+        }
+        try {
+          const entry = JSON.parse(line) as CacheEntry
+          matches.set(entry.key, entry)
+        } catch {
+          // Skip a partially written last line
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read embedding cache:', error)
+      }
+    }
+    return Array.from(matches.values())
+  }
+
+  private async append(entries: CacheEntry[]): Promise<void> {
+    if (!this.cacheFile || entries.length === 0) {
+      return
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.cacheFile), { recursive: true })
+      await fs.appendFile(this.cacheFile, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n', 'utf8')
+    } catch (error) {
+      // The cache is an optimisation; embeddings are still returned
+      console.error('Failed to write embedding cache:', error)
+    }
+  }
+}
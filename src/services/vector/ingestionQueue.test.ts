@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { IngestionQueue } from './ingestionQueue'
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve = () => {}
+  const promise = new Promise<void>(done => { resolve = done })
+  return { promise, resolve }
+}
+
+describe('IngestionQueue', () => {
+  it('runs tasks with the same key one after another', async () => {
+    const order: string[] = []
+    const gate = deferred()
+
+    const first = IngestionQueue.run('session:a', async () => {
+      order.push('first:start')
+      await gate.promise
+      order.push('first:end')
+    })
+    const second = IngestionQueue.run('session:a', async () => {
+      order.push('second')
+    })
+
+    await Promise.resolve()
+    expect(order).toEqual(['first:start'])
+
+    gate.resolve()
+    await Promise.all([first, second])
+    expect(order).toEqual(['first:start', 'first:end', 'second'])
+  })
+
+  it('does not hold back tasks with another key', async () => {
+    const gate = deferred()
+    const blocked = IngestionQueue.run('session:b', () => gate.promise)
+
+    await expect(IngestionQueue.run('library', async () => 'done')).resolves.toBe('done')
+
+    gate.resolve()
+    await blocked
+  })
+
+  it('runs the next task after an earlier one fails', async () => {
+    const failed = IngestionQueue.run('session:c', async () => {
+      throw new Error('embedding failed')
+    })
+    const next = IngestionQueue.run('session:c', async () => 'ran')
+
+    await expect(failed).rejects.toThrow('embedding failed')
+    await expect(next).resolves.toBe('ran')
+  })
+})
@@ -0,0 +1,24 @@
+// Tail of the pending ingestion work of each knowledge base, by key
+const tails = new Map<string, Promise<unknown>>()
+
+export class IngestionQueue {
+  /**
+   * Run a task after every earlier task with the same key has settled. Ingestion reads the
+   * vector store and chunk list before it embeds, so two uploads into the same knowledge base
+   * would otherwise overwrite each other's chunks.
+   */
+  static run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = tails.get(key) || Promise.resolve()
+    const result = previous.then(task, task)
+    const tail = result.catch(() => undefined)
+    tails.set(key, tail)
+
+    // Forget the key once nothing is queued behind this task
+    tail.then(() => {
+      if (tails.get(key) === tail) {
+        tails.delete(key)
+      }
+    })
+    return result
+  }
+}
@@ -0,0 +1,64 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { PersistedSessionIndex } from '../types'
+import { createFileVectorStoreBackend } from './vectorStoreBackend'
+
+function index(sessionId: string): PersistedSessionIndex {
+  return {
+    version: 1,
+    sessionId,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    savedAt: '2024-01-01T00:01:00.000Z',
+    pdfName: 'qcvn-06.pdf',
+    embeddingModel: 'mock-hashing-256',
+    uploadedDocuments: [],
+    vectors: [{ content: 'Điều 5. Lối thoát nạn', embedding: [0.1, 0.2], metadata: { chunkIndex: 0 } }]
+  }
+}
+
+describe('file vector store backend', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'vector-index-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('saves an index and loads it back, leaving no temporary file', async () => {
+    const backend = createFileVectorStoreBackend(directory)
+
+    await backend.save(index('session-1'))
+
+    expect(await backend.load('session-1')).toEqual(index('session-1'))
+    expect(readdirSync(directory)).toEqual(['session-1.json'])
+  })
+
+  it('loads nothing for an unknown session or an index of another version', async () => {
+    const backend = createFileVectorStoreBackend(directory)
+    writeFileSync(path.join(directory, 'old.json'), JSON.stringify({ ...index('old'), version: 0 }))
+
+    expect(await backend.load('missing')).toBeNull()
+    expect(await backend.load('old')).toBeNull()
+  })
+
+  it('deletes an index', async () => {
+    const backend = createFileVectorStoreBackend(directory)
+    await backend.save(index('session-1'))
+
+    await backend.delete('session-1')
+    await backend.delete('session-1')
+
+    expect(await backend.load('session-1')).toBeNull()
+  })
+
+  it('refuses session IDs that are not safe file names', async () => {
+    const backend = createFileVectorStoreBackend(directory)
+
+    await expect(backend.save(index('../escape'))).rejects.toThrow('Invalid session ID for persistence: ../escape')
+  })
+})
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { STORAGE_CONFIG } from '../constants'
+import type { PersistedSessionIndex } from '../types'
+
+/**
+ * Persistence backend for session vector indexes.
+ * Search always runs on an in-memory MemoryVectorStore; backends decide whether it survives restarts.
+ */
+export interface VectorStoreBackend {
+  name: string
+  load(sessionId: string): Promise<PersistedSessionIndex | null>
+  save(index: PersistedSessionIndex): Promise<void>
+  delete(sessionId: string): Promise<void>
+}
+
+// Session IDs are UUIDs; anything else must not become part of a file path
+const SAFE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/
+
+/**
+ * In-memory only: indexes live as long as the server process
+ */
+export const memoryVectorStoreBackend: VectorStoreBackend = {
+  name: 'memory',
+
+  async load(): Promise<PersistedSessionIndex | null> {
+    return null
+  },
+
+  async save(): Promise<void> {},
+
+  async delete(): Promise<void> {}
+}
+
+/**
+ * One JSON file per session under the data directory
+ */
+export function createFileVectorStoreBackend(
+  directory: string = path.resolve(STORAGE_CONFIG.DATA_DIR, STORAGE_CONFIG.VECTOR_INDEX_DIR)
+): VectorStoreBackend {
+  const filePath = (sessionId: string) => {
+    if (!SAFE_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID for persistence: ${sessionId}`)
+    }
+    return path.join(directory, `${sessionId}.json`)
+  }
+
+  return {
+    name: 'file',
+
+    async load(sessionId: string): Promise<PersistedSessionIndex | null> {
+      try {
+        const content = await fs.readFile(filePath(sessionId), 'utf8')
+        const index = JSON.parse(content) as PersistedSessionIndex
+        return index.version === 1 ? index : null
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Failed to load vector index for session ${sessionId}:`, error)
+        }
+        return null
+      }
+    },
+
+    async save(index: PersistedSessionIndex): Promise<void> {
+      const target = filePath(index.sessionId)
+      const temporary = `${target}.${process.pid}.${Date.now()}.tmp`
+      await fs.mkdir(directory, { recursive: true })
+      // Write then rename so a crash never leaves a half-written index behind
+      await fs.writeFile(temporary, JSON.stringify(index), 'utf8')
+      await fs.rename(temporary, target)
+    },
+
+    async delete(sessionId: string): Promise<void> {
+      await fs.rm(filePath(sessionId), { force: true })
+    }
+  }
+}
+
+let backend: VectorStoreBackend | null = null
+
+/**
+ * Backend selected by VECTOR_STORE_BACKEND ('file' by default, or 'memory')
+ */
+export function getVectorStoreBackend(): VectorStoreBackend {
+  if (!backend) {
+    backend = STORAGE_CONFIG.VECTOR_STORE_BACKEND === 'memory'
+      ? memoryVectorStoreBackend
+      : createFileVectorStoreBackend()
+    console.log(`Using ${backend.name} vector store backend`)
+  }
+  return backend
+}
@@ -1,27 +1,44 @@
 import { Document } from 'langchain/document'
 import { MemoryVectorStore } from 'langchain/vectorstores/memory'
-import { OpenAIEmbeddings } from '@langchain/openai'
-import { PROCESSING_CONFIG, VECTOR_STORE_CONFIGS } from '../constants'
-import type { EmbeddingResult, VectorStoreConfig, ErrorType } from '../types'
+import type { EmbeddingsInterface } from '@langchain/core/embeddings'
+import { PROCESSING_CONFIG, STORAGE_CONFIG, VECTOR_STORE_CONFIGS } from '../constants'
+import type { EmbeddingResult, EmbeddingCacheStats, VectorStoreConfig, ErrorType, SerializedVector, PersistedSessionIndex, EmbeddingCacheSummary } from '../types'
+import { CachedEmbeddings } from './embeddingCache'
+import { LLMProviderRegistry } from '../llm/providers/providerRegistry'
 
 export class VectorStoreService {
-  private static embeddings: OpenAIEmbeddings | null = null
+  private static embeddings: EmbeddingsInterface | null = null
 
   /**
-   * Initialize OpenAI embeddings
+   * Initialize the configured provider's embeddings, wrapped in the embedding cache unless it is turned off
    */
-  private static getEmbeddings(): OpenAIEmbeddings {
+  private static getEmbeddings(): EmbeddingsInterface {
     if (!this.embeddings) {
-      this.embeddings = new OpenAIEmbeddings({
-        apiKey: process.env.OPENAI_API_KEY,
-        modelName: 'text-embedding-3-small',
-        batchSize: 50,
-        maxRetries: 3,
-      })
+      const provider = LLMProviderRegistry.getProvider()
+      const providerEmbeddings = provider.createEmbeddings()
+      this.embeddings = STORAGE_CONFIG.EMBEDDING_CACHE === 'off'
+        ? providerEmbeddings
+        : new CachedEmbeddings(providerEmbeddings, provider.embeddingModelName())
     }
     return this.embeddings
   }
 
+  /**
+   * Cache hits and misses summed over the batches of one ingestion, or undefined when caching is off
+   */
+  private static summarizeCacheStats(batches: Array<EmbeddingCacheStats | null>): EmbeddingCacheSummary | undefined {
+    if (batches.length === 0 || batches.some(stats => !stats)) {
+      return undefined
+    }
+
+    const hits = batches.reduce((sum, stats) => sum + stats!.hits, 0)
+    const misses = batches.reduce((sum, stats) => sum + stats!.misses, 0)
+    const total = hits + misses
+    const hitRate = total > 0 ? Math.round((hits / total) * 1000) / 1000 : 0
+    console.log(`Embedding cache: ${hits} hits, ${misses} misses (${Math.round(hitRate * 100)}% hit rate)`)
+    return { hits, misses, hitRate }
+  }
+
   /**
    * Create vector store from documents
    */
@@ -40,22 +57,18 @@ export class VectorStoreService {
       }
 
       const embeddings = this.getEmbeddings()
+      const cacheStats: Array<EmbeddingCacheStats | null> = []
       
       // Create vector store with progress tracking
-      let vectorStore: MemoryVectorStore
+      const vectorStore = new MemoryVectorStore(embeddings)
       
       try {
         // Process documents in batches
         const batches = this.chunkArray(documents, config.batchSize)
         console.log(`Processing ${batches.length} batches of documents`)
         
-        // Create initial vector store with first batch
-        vectorStore = await MemoryVectorStore.fromDocuments(batches[0], embeddings)
-        console.log(`Created initial vector store with ${batches[0].length} documents`)
-        
-        // Add remaining batches
-        for (let i = 1; i < batches.length; i++) {
-          await this.addDocumentsBatch(vectorStore, batches[i], embeddings)
+        for (let i = 0; i < batches.length; i++) {
+          cacheStats.push(await this.addDocumentsBatch(vectorStore, batches[i], embeddings, config.maxRetries))
           console.log(`Added batch ${i + 1}/${batches.length} (${batches[i].length} documents)`)
         }
         
@@ -78,7 +91,8 @@ export class VectorStoreService {
         metadata: {
           documentsProcessed: documents.length,
           processingTimeMs: processingTime,
-          batchSize: config.batchSize
+          batchSize: config.batchSize,
+          cache: this.summarizeCacheStats(cacheStats)
         }
       }
 
@@ -110,18 +124,147 @@ export class VectorStoreService {
   }
 
   /**
-   * Add documents to existing vector store in batches
+   * Append documents to an existing vector store
+   */
+  static async addDocuments(
+    vectorStore: MemoryVectorStore,
+    documents: Document[],
+    config: VectorStoreConfig = VECTOR_STORE_CONFIGS.standard
+  ): Promise<EmbeddingResult> {
+    const startTime = Date.now()
+
+    try {
+      console.log(`Adding ${documents.length} documents to existing vector store using batch size ${config.batchSize}`)
+
+      if (documents.length === 0) {
+        throw new Error('No documents provided to add to the vector store')
+      }
+
+      const embeddings = this.getEmbeddings()
+      const cacheStats: Array<EmbeddingCacheStats | null> = []
+      const batches = this.chunkArray(documents, config.batchSize)
+
+      for (let i = 0; i < batches.length; i++) {
+        cacheStats.push(await this.addDocumentsBatch(vectorStore, batches[i], embeddings, config.maxRetries))
+        console.log(`Added batch ${i + 1}/${batches.length} (${batches[i].length} documents)`)
+      }
+
+      const processingTime = Date.now() - startTime
+      console.log(`Vector store extended successfully in ${processingTime}ms`)
+
+      return {
+        success: true,
+        vectorStore,
+        metadata: {
+          documentsProcessed: documents.length,
+          processingTimeMs: processingTime,
+          batchSize: config.batchSize,
+          cache: this.summarizeCacheStats(cacheStats)
+        }
+      }
+
+    } catch (error) {
+      const errorMessage = `Adding documents to vector store failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      console.error(errorMessage)
+
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: {
+          documentsProcessed: 0,
+          processingTimeMs: Date.now() - startTime,
+          batchSize: config.batchSize
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove every vector that belongs to an uploaded document
+   */
+  static removeDocument(vectorStore: MemoryVectorStore, documentId: string): number {
+    const before = vectorStore.memoryVectors.length
+    vectorStore.memoryVectors = vectorStore.memoryVectors.filter(
+      vector => vector.metadata?.documentId !== documentId
+    )
+    const removed = before - vectorStore.memoryVectors.length
+    console.log(`Removed ${removed} vectors of document ${documentId}`)
+    return removed
+  }
+
+  /**
+   * Export the vectors of a store so they can be persisted
+   */
+  static serializeVectorStore(vectorStore: MemoryVectorStore): SerializedVector[] {
+    return vectorStore.memoryVectors.map(vector => ({
+      content: vector.content,
+      embedding: vector.embedding,
+      metadata: vector.metadata,
+      id: vector.id
+    }))
+  }
+
+  /**
+   * Rebuild an in-memory vector store from persisted vectors, without re-embedding
+   */
+  static restoreVectorStore(vectors: SerializedVector[]): MemoryVectorStore {
+    const vectorStore = new MemoryVectorStore(this.getEmbeddings())
+    vectorStore.memoryVectors = vectors.map(vector => ({ ...vector }))
+    return vectorStore
+  }
+
+  /**
+   * Model the configured provider embeds with, recorded with persisted indexes
+   */
+  static embeddingModelName(): string {
+    return LLMProviderRegistry.getProvider().embeddingModelName()
+  }
+
+  /**
+   * Rebuild the vector store of a persisted index. Vectors embedded with another model are not
+   * comparable with the current query embeddings, so their chunks are embedded again.
+   */
+  static async restorePersistedIndex(index: PersistedSessionIndex): Promise<{ vectorStore: MemoryVectorStore | null; reembedded: boolean }> {
+    if (index.vectors.length === 0) {
+      return { vectorStore: null, reembedded: false }
+    }
+
+    const model = this.embeddingModelName()
+    if (index.embeddingModel === model) {
+      return { vectorStore: this.restoreVectorStore(index.vectors), reembedded: false }
+    }
+
+    console.warn(`Index ${index.sessionId} was embedded with ${index.embeddingModel || 'an unrecorded model'}, re-embedding ${index.vectors.length} chunks with ${model}`)
+    const result = await this.createVectorStore(index.vectors.map(vector => new Document({
+      pageContent: vector.content,
+      metadata: vector.metadata
+    })))
+    if (!result.success || !result.vectorStore) {
+      throw new Error(`Index ${index.sessionId} could not be re-embedded with ${model}: ${result.error}`)
+    }
+    return { vectorStore: result.vectorStore, reembedded: true }
+  }
+
+  /**
+   * Embed one batch and add it to the vector store, returning the batch's cache hits and misses
+   * (null when caching is off)
    */
   private static async addDocumentsBatch(
     vectorStore: MemoryVectorStore,
     documents: Document[],
-    embeddings: OpenAIEmbeddings,
+    embeddings: EmbeddingsInterface,
     retries: number = 3
-  ): Promise<void> {
+  ): Promise<EmbeddingCacheStats | null> {
+    const texts = documents.map(document => document.pageContent)
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
-        await vectorStore.addDocuments(documents)
-        return
+        if (embeddings instanceof CachedEmbeddings) {
+          const { embeddings: vectors, stats } = await embeddings.embedDocumentsWithStats(texts)
+          await vectorStore.addVectors(vectors, documents)
+          return stats
+        }
+        await vectorStore.addVectors(await embeddings.embedDocuments(texts), documents)
+        return null
       } catch (error) {
         if (attempt === retries) {
           throw error
@@ -130,6 +273,7 @@ export class VectorStoreService {
         await this.delay(1000 * attempt) // Progressive delay
       }
     }
+    throw new Error('Batch was not attempted: retries must be at least 1')
   }
 
   /**
@@ -138,7 +282,8 @@ export class VectorStoreService {
   static async similaritySearch(
     vectorStore: MemoryVectorStore,
     query: string,
-    k: number = PROCESSING_CONFIG.MAX_SEARCH_RESULTS
+    k: number = PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
+    filter?: MemoryVectorStore['FilterType']
   ): Promise<{ success: boolean; results?: Document[]; error?: string }> {
     try {
       if (!query?.trim()) {
@@ -157,7 +302,7 @@ export class VectorStoreService {
 
       console.log(`Performing similarity search for: "${query}" (k=${k})`)
       
-      const results = await vectorStore.similaritySearch(query, k)
+      const results = await vectorStore.similaritySearch(query, k, filter)
       
       console.log(`Found ${results.length} similar documents`)
       
@@ -183,7 +328,8 @@ export class VectorStoreService {
   static async similaritySearchWithScore(
     vectorStore: MemoryVectorStore,
     query: string,
-    k: number = PROCESSING_CONFIG.MAX_SEARCH_RESULTS
+    k: number = PROCESSING_CONFIG.MAX_SEARCH_RESULTS,
+    filter?: MemoryVectorStore['FilterType']
   ): Promise<{ 
     success: boolean; 
     results?: Array<[Document, number]>; 
@@ -206,7 +352,7 @@ export class VectorStoreService {
 
       console.log(`Performing similarity search with scores for: "${query}" (k=${k})`)
       
-      const results = await vectorStore.similaritySearchWithScore(query, k)
+      const results = await vectorStore.similaritySearchWithScore(query, k, filter)
       
       console.log(`Found ${results.length} similar documents with scores`)
       
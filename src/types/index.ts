@@ -12,11 +12,12 @@ export interface Message {
 export interface ChatResponse {
   response: string
   source?: string
-  // Extended fields from external API
+  // Cited passages: AnswerSource entries for local answers, the external API's own shape otherwise
   sources?: unknown[]
   suggestions?: string[]
   notice?: string
   requires_upload?: boolean
+  grounding?: GroundingReport // Support of the answer's figures and references in the retrieved context
   error?: string
   sessionId?: string
 }
@@ -27,6 +28,7 @@ export interface HealthResponse {
   vectorstore_available: boolean
   pdf_uploaded: boolean
   current_pdf?: string
+  library_documents?: number // Ready documents in the shared library
   sessionId?: string
   error?: string
 }
@@ -37,13 +39,103 @@ export interface UploadResponse {
   agent_ready: boolean
   error?: string
   sessionId: string
+  documentId?: string
+  duplicate?: boolean
+  cache?: EmbeddingCacheSummary // Embedding cache hits and misses of this upload, unless caching is off
+}
+
+export interface DocumentSummary {
+  id: string
+  name: string
+  chunkCount: number
+  status: 'processing' | 'ready' | 'error'
+  uploadedAt: string
+  documentInfo?: DocumentInfo
+  error?: string
+}
+
+export interface DocumentsResponse {
+  sessionId: string
+  documents: DocumentSummary[]
+  success?: boolean
+  error?: string
+}
+
+export interface LibraryResponse {
+  documents: DocumentSummary[]
+  documentId?: string
+  duplicate?: boolean
+  success?: boolean
+  error?: string
 }
 
 export interface QueryRequest {
   question: string
   sessionId?: string
+  scopes?: SearchScope[] // Knowledge scopes to search; both when omitted
+  filter?: SearchFilter // Restrict retrieval to documents, sections, types or issue years
+}
+
+// Body of /api/search: the query plus any smartSearch options
+export interface SearchRequest extends SearchOptions {
+  query: string
+  sessionId?: string
 }
 
+// One retrieved chunk as returned by /api/search
+export interface SearchHit {
+  rank: number
+  content: string
+  score?: number
+  rerankScore?: number
+  retrievers: Retriever[] // Retrievers that returned the chunk; empty for cited articles
+  ranks?: Partial<Record<Retriever, number>>
+  retrieverScores?: Partial<Record<Retriever, number>>
+  scope?: SearchScope
+  documentId?: string
+  documentName?: string
+  page?: string // "trang 12–13"
+  pageStart?: number
+  pageEnd?: number
+  structurePath?: string // "Chương II > Điều 15 > Khoản 2"
+  citation?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface SearchResponse {
+  query: string
+  results: SearchHit[]
+  totalFound: number
+  searchType: string
+  reranker?: CombinedSearchResult['reranker']
+  expandedQuery?: string
+  expansions?: CombinedSearchResult['expansions']
+  citations?: CombinedSearchResult['citations']
+  success: boolean
+  error?: string
+}
+
+export interface EvaluationRequest {
+  dataset?: string // Dataset directory name, "pccc-golden" by default
+  configurations: EvaluationConfiguration[] // The first is the baseline the others are compared with
+  k?: number
+  baseline?: EvaluationReport // A saved report, e.g. from before a prompt change, to compare every configuration with
+}
+
+export interface EvaluationResponse {
+  reports: EvaluationReport[]
+  comparisons: Array<{ comparison: EvaluationComparison; markdown: string }>
+  success: boolean
+  error?: string
+}
+
+// Server-Sent Events of /api/query/stream, in the order they are sent
+export type QueryStreamEvent =
+  | { event: 'retrieval'; data: { sessionId?: string; searchType?: string; subQueries?: string[]; sources: AnswerSource[] } }
+  | { event: 'token'; data: { delta: string } }
+  | { event: 'done'; data: ChatResponse }
+  | { event: 'error'; data: ChatResponse }
+
 export interface PdfProcessingError extends Error {
   code?: string
   statusCode?: number
@@ -60,15 +152,18 @@ export interface PdfProcessingResult {
 }
 
 // Import ErrorType from services
-import { ErrorType } from '../services/types'
+import { AnswerSource, ChatTurn, DocumentInfo, EmbeddingCacheSummary, EvaluationComparison, EvaluationConfiguration, EvaluationReport, GroundingReport, ErrorType, SearchFilter, SearchScope, SessionDocument } from '../services/types'
+import type { CombinedSearchResult, Retriever, SearchOptions } from '../services/search/searchService'
 
 export interface UserSession {
   sessionId: string
   vectorstore: MemoryVectorStore | null
-  documents: Document[]
+  documents: Document[] // Chunks of every ready document
+  uploadedDocuments: SessionDocument[]
   pdfName: string | null
   createdAt: Date
   lastAccessed: Date
   processingErrors: Array<{ type: ErrorType; message: string; timestamp: Date }>
   vectorStoreStatus: 'not_created' | 'creating' | 'ready' | 'error'
+  history: ChatTurn[] // Recent conversation turns, oldest first
 }
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: /^@\//, replacement: fileURLToPath(new URL('./src/', import.meta.url)) },
+      // pdf-parse's entry point reads a sample PDF when it is not required by another module
+      { find: /^pdf-parse$/, replacement: 'pdf-parse/lib/pdf-parse.js' }
+    ]
+  },
+  test: {
+    environment: 'node',
+    // Services log every step; failures still show their assertions
+    silent: true
+  }
+})